@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle, History } from 'lucide-react';
+import { AntibodyTestName, MedicalReport, ThyroidTestName } from '../types/medical';
+import { ExtractionValidator } from '../utils/validators/extractionValidator';
+
+type SeriesTestKey = ThyroidTestName | AntibodyTestName;
+
+const TEST_ORDER: SeriesTestKey[] = ['TSH', 'FT4', 'FT3', 'T4', 'T3', 'AntiTPO', 'AntiTG'];
+
+// Same rule as the review screen for the latest date
+const isLowConfidenceTest = (report: MedicalReport, key: SeriesTestKey) => {
+  const test = report.tests[key];
+  return ExtractionValidator.isLowConfidence(test?.extraction) || (test?.lowConfidence ?? false);
+};
+
+const isLowConfidenceDate = (report: MedicalReport) =>
+  ExtractionValidator.isLowConfidence(report.patientInfoExtraction?.date);
+
+interface CumulativeImportProps {
+  /** One report per collection date, latest first */
+  reports: MedicalReport[];
+  onImport: (reports: MedicalReport[]) => Promise<{ imported: number; duplicates: number }>;
+}
+
+/**
+ * Shown for cumulative reports: lists the results of every collection date
+ * and adds the selected dates to the user's history in one step. Values read with low
+ * confidence are highlighted and must be acknowledged before the dates are added.
+ */
+export const CumulativeImport: React.FC<CumulativeImportProps> = ({ reports, onImport }) => {
+  const [selected, setSelected] = useState<boolean[]>(() => reports.map(() => true));
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<{ imported: number; duplicates: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [acknowledged, setAcknowledged] = useState(false);
+
+  const columns = TEST_ORDER.filter(key => reports.some(report => report.tests[key]));
+  const selectedReports = reports.filter((_, index) => selected[index]);
+  const needsCheck = selectedReports.some(report =>
+    isLowConfidenceDate(report) || columns.some(key => isLowConfidenceTest(report, key))
+  );
+
+  const handleImport = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      setResult(await onImport(selectedReports));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import reports');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 mb-6 bg-white rounded shadow">
+      <h2 className="text-lg font-bold text-gray-800 flex items-center mb-1">
+        <History className="h-5 w-5 mr-2 text-blue-600" />
+        Results from {reports.length} dates found
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        This is a cumulative report. Only the latest date is checked below and used for the dosage calculation. You can also add the earlier dates to your history.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2 pr-3" />
+              <th className="py-2 pr-3">Date</th>
+              {columns.map(key => (
+                <th key={key} className="py-2 pr-3">{key}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {reports.map((report, index) => (
+              <tr key={`${report.patientInfo.date}-${index}`} className="border-b">
+                <td className="py-2 pr-3">
+                  <input
+                    type="checkbox"
+                    checked={selected[index]}
+                    disabled={saving || result !== null}
+                    onChange={(e) => setSelected(prev => prev.map((value, i) => (i === index ? e.target.checked : value)))}
+                  />
+                </td>
+                <td className={`py-2 pr-3 font-medium text-gray-800 ${isLowConfidenceDate(report) ? 'bg-amber-50' : ''}`}>
+                  {report.patientInfo.date}
+                  {index === 0 && <span className="ml-2 text-xs text-blue-600">latest</span>}
+                </td>
+                {columns.map(key => {
+                  const test = report.tests[key];
+                  return (
+                    <td
+                      key={key}
+                      className={`py-2 pr-3 ${isLowConfidenceTest(report, key) ? 'bg-amber-50 text-amber-800 font-medium' : 'text-gray-700'}`}
+                    >
+                      {test ? `${test.originalValue ?? test.value} ${test.originalUnits ?? test.units ?? ''}` : '-'}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {needsCheck && !result && (
+        <label className="flex items-start mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          <input
+            type="checkbox"
+            checked={acknowledged}
+            disabled={saving}
+            onChange={(e) => setAcknowledged(e.target.checked)}
+            className="mr-3 mt-1"
+          />
+          <span className="text-sm text-amber-800 flex items-start">
+            <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+            Some values were read with low confidence and are highlighted above. I have checked them against the original report.
+          </span>
+        </label>
+      )}
+
+      {result ? (
+        <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg flex items-center text-sm text-green-800">
+          <CheckCircle className="h-4 w-4 mr-2" />
+          Added {result.imported} {result.imported === 1 ? 'report' : 'reports'} to your history
+          {result.duplicates > 0 && ` (${result.duplicates} already saved)`}.
+        </div>
+      ) : (
+        <div className="mt-4 text-right">
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={saving || selectedReports.length === 0 || (needsCheck && !acknowledged)}
+            className="bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : `Add ${selectedReports.length} ${selectedReports.length === 1 ? 'date' : 'dates'} to history`}
+          </button>
+        </div>
+      )}
+      {error && <div className="text-red-600 text-sm mt-3">{error}</div>}
+    </div>
+  );
+};
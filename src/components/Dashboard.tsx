@@ -4,6 +4,7 @@ import { DataLogger, LoggedCalculation } from '../utils/dataLogger';
 import { loadGoogleCharts } from '../utils/googleChartsLoader';
 import { THYROID_REFERENCE_RANGES } from '../constants/medical.constants';
 import { SavedReports } from './SavedReports';
+import { usePatients } from '../hooks/usePatients';
 
 interface TSHPoint {
   timestamp: number;
@@ -26,6 +27,7 @@ const getTSHStatus = (tsh: number): { status: 'normal' | 'high' | 'low'; label:
 };
 
 const Dashboard: React.FC = () => {
+  const { activePatient } = usePatients();
   const [points, setPoints] = useState<TSHPoint[]>([]);
   const [chartReady, setChartReady] = useState(false);
   const [chartError, setChartError] = useState<string | null>(null);
@@ -36,7 +38,10 @@ const Dashboard: React.FC = () => {
 
   const refreshData = useCallback(() => {
     try {
-      const calculations: LoggedCalculation[] = DataLogger.getLoggedCalculations();
+      // Calculations logged before patients were introduced belong to the default patient
+      const calculations: LoggedCalculation[] = DataLogger.getLoggedCalculations().filter(calc =>
+        !activePatient || (calc.patientId ? calc.patientId === activePatient.id : activePatient.isDefault)
+      );
       const seen = new Set<string>();
       const trend = calculations
         .filter(calc => typeof calc.input.currentTSH === 'number' && calc.input.currentTSH !== null)
@@ -59,7 +64,7 @@ const Dashboard: React.FC = () => {
       console.error('Failed to load TSH history:', error);
       setPoints([]);
     }
-  }, []);
+  }, [activePatient]);
 
   useEffect(() => {
     refreshData();
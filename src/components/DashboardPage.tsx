@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { ArrowLeft, TrendingUp } from 'lucide-react';
 import Dashboard from './Dashboard';
 import { useAuth } from '../hooks/useAuth';
+import { PatientSwitcher } from './PatientSwitcher';
 
 const DashboardPage: React.FC = () => {
   const navigate = useNavigate();
@@ -22,6 +23,7 @@ const DashboardPage: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center space-x-4">
+            <PatientSwitcher />
             {user && (
               <span className="text-sm text-gray-600">{user.email}</span>
             )}
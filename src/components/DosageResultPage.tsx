@@ -1,11 +1,14 @@
 import React from 'react';
-import { PatientProfile } from '../types/medical';
+import { AdjunctMedication, AntithyroidMedication, DoseAdjustment, PatientProfile, ReferenceRangeUsage, ThyroidPatternResult, TitrationPlan } from '../types/medical';
 import { ArrowLeft, CheckCircle, AlertTriangle } from 'lucide-react';
+import { TitrationPlanCard } from './TitrationPlanCard';
+import { ReferenceRangeRegistry } from '../utils/referenceRanges/referenceRangeRegistry';
 
 interface DosageResultPageProps {
   profile: PatientProfile;
-  dosageRecommendation: { dose: number; nearestTablet?: number; symptomAlert?: string; medicalConditionsSummary?: string; severity?: 'mild' | 'moderate' | 'severe'; followUpWeeks?: number } | null;
-  medication?: 'Levothyroxine' | 'Methimazole' | null;
+  dosageRecommendation: { dose: number; nearestTablet?: number; symptomAlert?: string; medicalConditionsSummary?: string; severity?: 'mild' | 'moderate' | 'severe'; followUpWeeks?: number; referenceRangesUsed?: ReferenceRangeUsage[]; drugSelectionReason?: string; adjunctMedications?: AdjunctMedication[]; thyroidPattern?: ThyroidPatternResult; doseAdjustment?: DoseAdjustment } | null;
+  medication?: 'Levothyroxine' | AntithyroidMedication | null;
+  titrationPlan?: TitrationPlan | null;
   onBack?: () => void;
 }
 
@@ -13,13 +16,16 @@ export const DosageResultPage: React.FC<DosageResultPageProps> = ({
   profile, 
   dosageRecommendation, 
   medication,
+  titrationPlan,
   onBack
 }) => {
   // (removed unused formatDate)
 
+  const tshRange = ReferenceRangeRegistry.resolveForProfile('TSH', profile);
+
   const getTSHStatus = (tsh: number) => {
-    if (tsh < 0.4) return { status: 'LOW', color: 'text-red-600', bg: 'bg-red-50' };
-    if (tsh > 4.5) return { status: 'HIGH', color: 'text-red-600', bg: 'bg-red-50' };
+    if (tsh < tshRange.low) return { status: 'LOW', color: 'text-red-600', bg: 'bg-red-50' };
+    if (tsh > tshRange.high) return { status: 'HIGH', color: 'text-red-600', bg: 'bg-red-50' };
     return { status: 'NORMAL', color: 'text-green-600', bg: 'bg-green-50' };
   };
 
@@ -51,7 +57,22 @@ export const DosageResultPage: React.FC<DosageResultPageProps> = ({
         </h1>
 
         {/* Treatment Recommendation */}
-        {dosageRecommendation && (
+        {dosageRecommendation?.thyroidPattern && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <div className="flex items-center mb-2">
+              <AlertTriangle className="h-5 w-5 text-amber-600 mr-2" />
+              <h3 className="text-lg font-semibold text-amber-800">{dosageRecommendation.thyroidPattern.label}</h3>
+            </div>
+            <p className="text-amber-700 mb-2">{dosageRecommendation.thyroidPattern.explanation}</p>
+            <ul className="list-disc list-inside text-sm text-amber-700 space-y-1">
+              {dosageRecommendation.thyroidPattern.recommendations.map(recommendation => (
+                <li key={recommendation}>{recommendation}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {dosageRecommendation && !(dosageRecommendation.dose === 0 && dosageRecommendation.thyroidPattern) && (
           <div className="mb-6">
             {dosageRecommendation.dose === 0 ? (
               <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
@@ -78,7 +99,7 @@ export const DosageResultPage: React.FC<DosageResultPageProps> = ({
                   <div>
                     <label className="text-sm font-medium text-gray-500">Recommended Dose</label>
                     <p className="text-2xl font-bold text-blue-600">
-                      {dosageRecommendation.dose} {medication === 'Methimazole' ? 'mg' : 'mcg'}/day
+                      {dosageRecommendation.dose} {medication === 'Methimazole' || medication === 'Propylthiouracil' ? 'mg' : 'mcg'}/day
                       {dosageRecommendation.nearestTablet && medication === 'Levothyroxine' && dosageRecommendation.nearestTablet !== dosageRecommendation.dose && (
                         <span className="text-lg font-normal text-gray-600 ml-2">
                           (nearest available: {dosageRecommendation.nearestTablet} mcg tablet)
@@ -89,7 +110,9 @@ export const DosageResultPage: React.FC<DosageResultPageProps> = ({
                   <div>
                     <label className="text-sm font-medium text-gray-500">Frequency</label>
                     <p className="text-lg font-semibold text-gray-800">
-                      {medication === 'Methimazole' ? 'Once or twice daily' : 'Once daily (morning, empty stomach)'}
+                      {medication === 'Propylthiouracil'
+                        ? 'Three times daily (every 8 hours)'
+                        : medication === 'Methimazole' ? 'Once or twice daily' : 'Once daily (morning, empty stomach)'}
                     </p>
                   </div>
                   <div>
@@ -99,13 +122,49 @@ export const DosageResultPage: React.FC<DosageResultPageProps> = ({
                     </p>
                   </div>
                 </div>
+                {dosageRecommendation.doseAdjustment && (
+                  <div className="mt-4 p-3 bg-white border border-blue-200 rounded">
+                    <h4 className="text-sm font-semibold text-blue-800 mb-1">Dose adjustment</h4>
+                    <p className="text-sm text-gray-800">
+                      {dosageRecommendation.doseAdjustment.previousDose} mcg → <strong>{dosageRecommendation.doseAdjustment.newDose} mcg</strong>
+                      <span className={`ml-2 font-semibold ${dosageRecommendation.doseAdjustment.direction === 'increase' ? 'text-orange-600' : dosageRecommendation.doseAdjustment.direction === 'decrease' ? 'text-blue-600' : 'text-green-600'}`}>
+                        {dosageRecommendation.doseAdjustment.direction === 'unchanged'
+                          ? 'No change'
+                          : `${dosageRecommendation.doseAdjustment.delta > 0 ? '+' : ''}${dosageRecommendation.doseAdjustment.delta} mcg`}
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-700 mt-1">{dosageRecommendation.doseAdjustment.explanation}</p>
+                  </div>
+                )}
+                {dosageRecommendation.drugSelectionReason && (
+                  <div className="mt-4 p-3 bg-white border border-blue-200 rounded">
+                    <h4 className="text-sm font-semibold text-blue-800 mb-1">
+                      Why {medication === 'Propylthiouracil' ? 'PTU instead of methimazole' : medication}?
+                    </h4>
+                    <p className="text-sm text-gray-700">{dosageRecommendation.drugSelectionReason}</p>
+                  </div>
+                )}
+                {dosageRecommendation.adjunctMedications && dosageRecommendation.adjunctMedications.length > 0 && (
+                  <div className="mt-4 p-3 bg-white border border-blue-200 rounded">
+                    <h4 className="text-sm font-semibold text-blue-800 mb-2">Adjunct therapy</h4>
+                    <ul className="space-y-2">
+                      {dosageRecommendation.adjunctMedications.map(adjunct => (
+                        <li key={adjunct.medication} className="text-sm text-gray-700">
+                          <span className="font-semibold text-gray-800">{adjunct.medication} {adjunct.dose} {adjunct.unit}</span>
+                          {' '}&middot; {adjunct.frequency}
+                          <div className="text-gray-500">{adjunct.reason}</div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             )}
           </div>
         )}
 
-        {/* Important Alerts */}
-        {dosageRecommendation?.symptomAlert && (
+        {/* Important Alerts - a pattern without a dose is already explained above */}
+        {dosageRecommendation?.symptomAlert && !(dosageRecommendation.dose === 0 && dosageRecommendation.thyroidPattern) && (
           <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
             <div className="flex items-center mb-2">
               <AlertTriangle className="h-5 w-5 text-yellow-600 mr-2" />
@@ -114,8 +173,25 @@ export const DosageResultPage: React.FC<DosageResultPageProps> = ({
             <p className="text-yellow-700">{dosageRecommendation.symptomAlert}</p>
           </div>
         )}
+
+        {/* Reference ranges the decision was based on */}
+        {dosageRecommendation?.referenceRangesUsed && dosageRecommendation.referenceRangesUsed.length > 0 && (
+          <div className="mt-4 text-sm text-gray-600">
+            <h4 className="font-medium text-gray-700 mb-1">Reference ranges used</h4>
+            <ul className="space-y-1">
+              {dosageRecommendation.referenceRangesUsed.map(range => (
+                <li key={range.test}>
+                  {range.test}: {range.low}-{range.high} {range.units}
+                  <span className="text-gray-500"> ({range.description})</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
+      {titrationPlan && <TitrationPlanCard plan={titrationPlan} />}
+
       {/* Section 2: Thyroid Test Results */}
       <div className="bg-white rounded-lg shadow-md p-6 mb-6">
         <h2 className="text-xl font-bold text-gray-800 mb-4 border-b border-gray-200 pb-2">
@@ -132,7 +208,7 @@ export const DosageResultPage: React.FC<DosageResultPageProps> = ({
                 </span>
               </div>
               <p className="text-2xl font-bold text-gray-800">{profile.currentTSH} mIU/L</p>
-              <p className="text-sm text-gray-500">Normal: 0.4-4.5 mIU/L</p>
+              <p className="text-sm text-gray-500">Normal: {tshRange.low}-{tshRange.high} mIU/L</p>
             </div>
           )}
           
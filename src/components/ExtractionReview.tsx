@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle, FileSearch, Pill } from 'lucide-react';
+import {
+  AntibodyTestName,
+  ExtractionFieldReview,
+  FieldExtraction,
+  MedicalReport,
+  PatientInfo,
+  ThyroidTestName
+} from '../types/medical';
+import { MedicalDataExtractor } from '../utils/medicalDataExtractor';
+import { ExtractionValidator } from '../utils/validators/extractionValidator';
+
+type ReviewTestKey = ThyroidTestName | AntibodyTestName;
+
+const TEST_LABELS: Record<ReviewTestKey, string> = {
+  TSH: 'TSH',
+  T3: 'Total T3',
+  T4: 'Total T4',
+  FT3: 'Free T3',
+  FT4: 'Free T4',
+  AntiTPO: 'Anti-TPO',
+  AntiTG: 'Anti-TG'
+};
+
+interface ExtractionReviewProps {
+  report: MedicalReport;
+  onConfirm: (report: MedicalReport, fields: ExtractionFieldReview[]) => void;
+  onBack: () => void;
+}
+
+/**
+ * Review step between upload and dosing: shows each extracted value with its
+ * confidence and the report text it came from, and lets the user correct it.
+ */
+export const ExtractionReview: React.FC<ExtractionReviewProps> = ({ report, onConfirm, onBack }) => {
+  const testKeys = (Object.keys(report.tests) as ReviewTestKey[]).filter(key => report.tests[key]);
+  const [patientInfo, setPatientInfo] = useState<PatientInfo>(report.patientInfo);
+  const [values, setValues] = useState<Partial<Record<ReviewTestKey, string>>>(() =>
+    Object.fromEntries(testKeys.map(key => {
+      const test = report.tests[key]!;
+      return [key, String(test.originalValue ?? test.value)];
+    }))
+  );
+  const [acknowledged, setAcknowledged] = useState(false);
+  // A detected medication is only used once the user ticks it
+  const [medicationDose, setMedicationDose] = useState(report.medication ? String(report.medication.dailyDose) : '');
+  const [medicationConfirmed, setMedicationConfirmed] = useState(false);
+
+  const isLowTest = (key: ReviewTestKey) => {
+    const test = report.tests[key];
+    return ExtractionValidator.isLowConfidence(test?.extraction) || (test?.lowConfidence ?? false);
+  };
+  const lowFields = [
+    ...testKeys.filter(isLowTest).map(key => TEST_LABELS[key]),
+    ...(['name', 'age', 'gender', 'date'] as const)
+      .filter(field => ExtractionValidator.isLowConfidence(report.patientInfoExtraction?.[field]))
+  ];
+  const invalidValue = testKeys.some(key => values[key] !== '' && isNaN(Number(values[key])));
+  const invalidDose = medicationConfirmed && !(Number(medicationDose) > 0);
+
+  const handleConfirm = () => {
+    const printedValues = Object.fromEntries(
+      testKeys.map(key => [key, values[key] === '' || values[key] == null ? null : Number(values[key])])
+    ) as Partial<Record<ReviewTestKey, number | null>>;
+    const medication = report.medication
+      ? { ...report.medication, dailyDose: Number(medicationDose) || report.medication.dailyDose, confirmed: medicationConfirmed }
+      : null;
+    const reviewed = MedicalDataExtractor.applyReview(report, patientInfo, printedValues, medication);
+    onConfirm(reviewed.report, reviewed.fields);
+  };
+
+  const renderConfidence = (extraction?: FieldExtraction) => {
+    if (!extraction) return <span className="text-xs text-gray-400">-</span>;
+    const low = ExtractionValidator.isLowConfidence(extraction);
+    return (
+      <span className={`inline-flex items-center text-xs font-medium px-2 py-0.5 rounded ${low ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'}`}>
+        {low ? <AlertTriangle className="h-3 w-3 mr-1" /> : <CheckCircle className="h-3 w-3 mr-1" />}
+        {Math.round(extraction.confidence * 100)}%
+      </span>
+    );
+  };
+
+  const renderSource = (extraction?: FieldExtraction) => (
+    <>
+      {extraction?.snippet && (
+        <div className="text-xs text-gray-500 font-mono mt-1 break-all">“{extraction.snippet}”</div>
+      )}
+      {extraction?.issues.map(issue => (
+        <div key={issue} className="text-xs text-amber-700 mt-1">{issue}</div>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 bg-white rounded shadow">
+      <div className="mb-4">
+        <button
+          type="button"
+          onClick={onBack}
+          className="flex items-center text-gray-600 hover:text-gray-800 transition-colors"
+        >
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Back to Upload
+        </button>
+      </div>
+
+      <h2 className="text-xl font-bold text-gray-800 flex items-center mb-1">
+        <FileSearch className="h-5 w-5 mr-2 text-blue-600" />
+        Check the extracted values
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Compare each value with your report and correct any that were misread. Enter test results exactly as printed on the report.
+      </p>
+
+      {lowFields.length > 0 && (
+        <div className="p-3 mb-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start">
+          <AlertTriangle className="h-5 w-5 text-amber-600 mr-2 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-800">
+            Low confidence: <strong>{lowFields.join(', ')}</strong>. These are highlighted below - please check them carefully.
+          </p>
+        </div>
+      )}
+
+      {/* Test results */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2 pr-3">Test</th>
+              <th className="py-2 pr-3">Result</th>
+              <th className="py-2 pr-3">Units</th>
+              <th className="py-2 pr-3">Reference range</th>
+              <th className="py-2">Confidence</th>
+            </tr>
+          </thead>
+          <tbody>
+            {testKeys.map(key => {
+              const test = report.tests[key]!;
+              const units = test.originalUnits ?? test.units;
+              return (
+                <tr key={key} className={`border-b align-top ${isLowTest(key) ? 'bg-amber-50' : ''}`}>
+                  <td className="py-2 pr-3">
+                    <div className="font-semibold text-gray-800">{TEST_LABELS[key]}</div>
+                    {renderSource(test.extraction)}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      step="any"
+                      value={values[key] ?? ''}
+                      onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+                      className={`w-28 border rounded px-2 py-1 ${isLowTest(key) ? 'border-amber-400' : ''}`}
+                    />
+                  </td>
+                  <td className="py-2 pr-3 text-gray-700">{units || '-'}</td>
+                  <td className="py-2 pr-3 text-gray-700">
+                    {test.refRange ? `${test.refRange.low} - ${test.refRange.high}` : '-'}
+                    {test.refRangeSource === 'default' && <div className="text-xs text-gray-500">default range</div>}
+                  </td>
+                  <td className="py-2">{renderConfidence(test.extraction)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {testKeys.length === 0 && (
+          <p className="text-sm text-gray-600 py-4">No thyroid test results were found. You can enter them on the next screen.</p>
+        )}
+      </div>
+
+      {/* Patient details */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+        {(['name', 'age', 'gender', 'date'] as const).map(field => {
+          const extraction = report.patientInfoExtraction?.[field];
+          const low = ExtractionValidator.isLowConfidence(extraction);
+          const label = { name: 'Name', age: 'Age', gender: 'Gender', date: 'Report date' }[field];
+          return (
+            <div key={field} className={low ? 'p-2 bg-amber-50 rounded' : ''}>
+              <label className="block font-semibold mb-1 text-sm">
+                {label} <span className="ml-1">{extraction && renderConfidence(extraction)}</span>
+              </label>
+              {field === 'gender' ? (
+                <select
+                  value={patientInfo.gender ?? ''}
+                  onChange={(e) => setPatientInfo(prev => ({ ...prev, gender: (e.target.value || null) as PatientInfo['gender'] }))}
+                  className="w-full border rounded px-3 py-2"
+                >
+                  <option value="">Not found</option>
+                  <option value="Male">Male</option>
+                  <option value="Female">Female</option>
+                </select>
+              ) : (
+                <input
+                  type={field === 'age' ? 'number' : field === 'date' ? 'date' : 'text'}
+                  value={patientInfo[field] ?? ''}
+                  onChange={(e) => setPatientInfo(prev => ({
+                    ...prev,
+                    [field]: e.target.value === '' ? null : field === 'age' ? Number(e.target.value) : e.target.value
+                  }))}
+                  className="w-full border rounded px-3 py-2"
+                />
+              )}
+              {renderSource(extraction)}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Current medication mentioned on the report */}
+      {report.medication && (
+        <div className="mt-6 p-4 border rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold text-gray-800 flex items-center">
+              <Pill className="h-4 w-4 mr-2 text-purple-600" />
+              Current medication found on the report
+            </h3>
+            {renderConfidence(report.medication.extraction)}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-gray-800">
+              {report.medication.medication}
+              {report.medication.brand && <span className="text-gray-500"> ({report.medication.brand})</span>}
+            </span>
+            <input
+              type="number"
+              step="any"
+              min={0}
+              value={medicationDose}
+              onChange={(e) => setMedicationDose(e.target.value)}
+              className="w-28 border rounded px-2 py-1"
+            />
+            <span className="text-gray-700">{report.medication.unit} per day</span>
+          </div>
+          {renderSource(report.medication.extraction)}
+          <label className="flex items-start mt-3">
+            <input
+              type="checkbox"
+              checked={medicationConfirmed}
+              onChange={(e) => setMedicationConfirmed(e.target.checked)}
+              className="mr-3 mt-1"
+            />
+            <span className="text-sm text-gray-700">
+              {report.medication.medication === 'Levothyroxine'
+                ? 'This is my current dose - use it as the dose before this report and mark me as diagnosed with hypothyroidism'
+                : 'This is my current dose - keep it with this report'}
+            </span>
+          </label>
+        </div>
+      )}
+
+      {lowFields.length > 0 && (
+        <label className="flex items-start mt-6 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          <input
+            type="checkbox"
+            checked={acknowledged}
+            onChange={(e) => setAcknowledged(e.target.checked)}
+            className="mr-3 mt-1"
+          />
+          <span className="text-sm text-amber-800">I have checked the highlighted values against the original report.</span>
+        </label>
+      )}
+
+      {invalidValue && <div className="text-red-600 text-sm mt-3">Please enter numbers only for test results.</div>}
+      {invalidDose && <div className="text-red-600 text-sm mt-3">Please enter the current dose, or untick it.</div>}
+
+      <div className="mt-6 text-center">
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={invalidValue || invalidDose || (lowFields.length > 0 && !acknowledged)}
+          className="bg-blue-600 text-white px-8 py-3 rounded-lg hover:bg-blue-700 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Confirm values
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,26 +1,64 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, AlertCircle, Pill } from 'lucide-react';
+import { Upload, FileText, AlertCircle, Pill, Lock } from 'lucide-react';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  /** A single PDF, or one or more photos of the same report */
+  onFileSelect: (files: File[]) => void;
   isProcessing: boolean;
   error: string | null;
+  /** Progress detail shown while processing (e.g. OCR page count) */
+  statusMessage?: string | null;
+  /** Stops processing; a Cancel button is shown while processing when provided */
+  onCancel?: () => void;
+  /** Set when the selected PDF is encrypted; shows the password prompt */
+  passwordRequest?: { fileName: string; reason: 'required' | 'incorrect' } | null;
+  onPasswordSubmit?: (password: string, dateOfBirth: string | null) => void;
+  /** ISO date of birth of the active patient, offered as the date-of-birth password candidate */
+  knownDateOfBirth?: string | null;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessing, error }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({
+  onFileSelect,
+  isProcessing,
+  error,
+  statusMessage,
+  onCancel,
+  passwordRequest,
+  onPasswordSubmit,
+  knownDateOfBirth
+}) => {
+  // Held only until submitted; never saved
+  const [password, setPassword] = useState('');
+  const [dateOfBirth, setDateOfBirth] = useState(knownDateOfBirth ?? '');
+
+  // Follow the patient switcher
+  useEffect(() => {
+    setDateOfBirth(knownDateOfBirth ?? '');
+  }, [knownDateOfBirth]);
+
+  const handlePasswordSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onPasswordSubmit?.(password, dateOfBirth || null);
+    setPassword('');
+  };
+
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
-      onFileSelect(acceptedFiles[0]);
+      onFileSelect(acceptedFiles);
     }
   }, [onFileSelect]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'application/pdf': ['.pdf']
+      'application/pdf': ['.pdf'],
+      'image/jpeg': ['.jpg', '.jpeg'],
+      'image/png': ['.png'],
+      'image/heic': ['.heic'],
+      'image/heif': ['.heif']
     },
-    multiple: false,
+    multiple: true,
     disabled: isProcessing
   });
 
@@ -49,24 +87,90 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessi
           <div>
             <p className="text-lg font-medium text-gray-700">
               {isProcessing 
-                ? 'Processing PDF...' 
+                ? statusMessage || 'Processing report...' 
                 : isDragActive 
-                  ? 'Drop the PDF here' 
-                  : 'Upload Medical Report PDF'
+                  ? 'Drop the report here' 
+                  : 'Upload Medical Report'
               }
             </p>
             <p className="text-sm text-gray-500 mt-1">
-              {!isProcessing && 'Drag and drop or click to select a PDF file'}
+              {isProcessing
+                ? statusMessage && 'Reports are read on this device; large or scanned files may take a moment'
+                : 'Drag and drop or click to select a PDF, or photos of each page'}
             </p>
           </div>
           
           <div className="flex items-center space-x-2 text-sm text-gray-400">
             <FileText className="h-4 w-4" />
-            <span>PDF files only, max 10MB</span>
+            <span>PDF, JPG, PNG or HEIC, max 10MB per file</span>
           </div>
         </div>
       </div>
 
+      {passwordRequest && !isProcessing && onPasswordSubmit && (
+        <form onSubmit={handlePasswordSubmit} className="mt-4 p-4 bg-white border border-gray-200 rounded-lg shadow-sm">
+          <div className="flex items-center mb-2">
+            <Lock className="h-5 w-5 text-blue-600 mr-2" />
+            <p className="font-medium text-gray-800">{passwordRequest.fileName} is password protected</p>
+          </div>
+          {passwordRequest.reason === 'incorrect' && (
+            <p className="text-sm text-red-600 mb-2">That did not open the file. Please check the password and try again.</p>
+          )}
+          <p className="text-sm text-gray-600 mb-3">
+            Lab portals often use the patient's date of birth or phone number. The password is only used to open the file on this device and is never saved.
+          </p>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+          <input
+            type="password"
+            autoComplete="off"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full border rounded-lg px-3 py-2 mb-3"
+          />
+          <label className="block text-sm font-medium text-gray-700 mb-1">Or try a date of birth (optional)</label>
+          <input
+            type="date"
+            value={dateOfBirth}
+            onChange={(e) => setDateOfBirth(e.target.value)}
+            className="w-full border rounded-lg px-3 py-2 mb-1"
+          />
+          <p className="text-xs text-gray-500 mb-3">
+            {knownDateOfBirth && dateOfBirth === knownDateOfBirth && "Filled in from the patient's details. "}
+            Common formats such as DDMMYYYY and YYYYMMDD are tried.
+          </p>
+          <div className="flex space-x-3">
+            <button
+              type="submit"
+              disabled={!password && !dateOfBirth}
+              className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Open PDF
+            </button>
+            {onCancel && (
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {isProcessing && onCancel && (
+        <div className="mt-4 text-center">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-sm text-gray-600 hover:text-gray-800 underline"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
       {error && (
         <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
           <AlertCircle className="h-5 w-5 text-red-500 flex-shrink-0" />
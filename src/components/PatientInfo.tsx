@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { User, Calendar, Users, ArrowLeft, AlertTriangle, Loader2 } from 'lucide-react';
-import { PatientInfo as PatientInfoType, PatientProfile } from '../types/medical';
+import { CoMedication, PatientInfo as PatientInfoType, PatientProfile, ThyroidTests } from '../types/medical';
 import { DailyLimitManager } from '../utils/dailyLimit';
+import { UnitConverter } from '../utils/converters/unitConverter';
+import { DateParser } from '../utils/dateParser';
+import { ReferenceRangeRegistry } from '../utils/referenceRanges/referenceRangeRegistry';
+import { getCoMedications } from '../utils/calculators/drugInteractions';
+import { DRUG_INTERACTION_RULES, PEDIATRIC_WEIGHT_LIMITS } from '../constants/medical.constants';
 
 interface PatientInfoProps {
   patientInfo: PatientInfoType;
@@ -81,6 +86,10 @@ interface PatientProfileFormProps {
   onBack?: () => void;
   userId: string | null;
   userCreatedAt?: string | null;
+  /** Patient the entry is for; the monthly limit may be counted per patient */
+  patientId?: string | null;
+  /** Extracted report tests, used to show the values as printed before unit conversion */
+  sourceTests?: ThyroidTests;
 }
 
 const defaultProfile: PatientProfile = {
@@ -95,6 +104,10 @@ const defaultProfile: PatientProfile = {
   hasAdrenalInsufficiency: false,
   hasGIAbsorptionIssues: false,
   onEstrogenTherapy: false,
+  coMedications: [],
+  hasMethimazoleIntolerance: false,
+  hasAsthma: false,
+  hasCOPD: false,
   hasLiverDisease: false,
   liverDiseaseType: null,
   hasKidneyDisease: false,
@@ -104,18 +117,21 @@ const defaultProfile: PatientProfile = {
   currentT4: null,
   currentFT3: null,
   currentFT4: null,
+  currentAntiTPO: null,
+  currentAntiTG: null,
   currentDose: null,
   hasHypothyroidDiagnosis: false,
-  reportDate: new Date().toISOString().split('T')[0], // Default to today in YYYY-MM-DD format
+  reportDate: DateParser.today(), // Default to today in YYYY-MM-DD format
 };
 
-export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialProfile, onSubmit, onBack, userId, userCreatedAt }) => {
+export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialProfile, onSubmit, onBack, userId, userCreatedAt, patientId, sourceTests }) => {
   const [profile, setProfile] = useState<PatientProfile>({
     ...defaultProfile,
     ...initialProfile,
   });
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [isProcessing, setIsProcessing] = useState(false);
+  const [ocrValuesConfirmed, setOcrValuesConfirmed] = useState(false);
   const [entryLimitStatus, setEntryLimitStatus] = useState<{
     allowed: boolean;
     remainingEntries: number;
@@ -128,9 +144,9 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
   // Check daily limit on component mount
   useEffect(() => {
     if (!userId) return;
-    const limitStatus = DailyLimitManager.canMakeEntry(userId, userCreatedAt ?? null);
+    const limitStatus = DailyLimitManager.canMakeEntry(userId, userCreatedAt ?? null, patientId);
     setEntryLimitStatus(limitStatus);
-  }, [userId, userCreatedAt]);
+  }, [userId, userCreatedAt, patientId]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
@@ -141,7 +157,8 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
         [name]: checked,
       }));
     } else {
-      const newValue = value === '' ? null : (type === 'number' ? Number(value) : value);
+      // Trimester comes from a select but is compared as a number
+      const newValue = value === '' ? null : (type === 'number' || name === 'trimester' ? Number(value) : value);
       setProfile((prev) => ({
         ...prev,
         [name]: newValue,
@@ -162,6 +179,19 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
     }
   };
 
+  const handleCoMedicationChange = (medication: CoMedication, checked: boolean) => {
+    setProfile((prev) => {
+      const current = prev.coMedications ?? [];
+      const coMedications = checked ? [...current.filter(m => m !== medication), medication] : current.filter(m => m !== medication);
+      return {
+        ...prev,
+        coMedications,
+        // Keep the legacy flag in step with the list
+        ...(medication === 'estrogen' && { onEstrogenTherapy: checked }),
+      };
+    });
+  };
+
   const handleSymptomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, checked } = e.target;
     const symptomKey = name.replace('symptoms.', '');
@@ -174,6 +204,38 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
     }));
   };
 
+  const selectedCoMedications = getCoMedications(profile);
+
+  const pediatricBand = profile.isPregnant ? null : ReferenceRangeRegistry.getPediatricAgeBand(profile);
+
+  // Note under a prefilled hormone field when the report used different units
+  const renderConversionNote = (key: 'TSH' | 'T3' | 'T4' | 'FT3' | 'FT4', value: number | null | undefined) => {
+    const test = sourceTests?.[key];
+    if (!test || value == null || test.value !== value || !UnitConverter.wasConverted(test)) return null;
+    return (
+      <div className="text-xs text-gray-500 mt-1">
+        Converted from {test.originalValue} {test.originalUnits} on the report{test.unitsInferred ? ' (units inferred)' : ''}
+      </div>
+    );
+  };
+
+  // Prefilled values that OCR read with low confidence and the user has not edited
+  const hormoneKeys = ['TSH', 'T3', 'T4', 'FT3', 'FT4'] as const;
+  const uncertainOcrFields = hormoneKeys.filter(key => {
+    const test = sourceTests?.[key];
+    return test?.lowConfidence && profile[`current${key}`] === test.value;
+  });
+
+  const renderOcrNote = (key: 'TSH' | 'T3' | 'T4' | 'FT3' | 'FT4') => {
+    if (!uncertainOcrFields.includes(key)) return null;
+    const confidence = sourceTests?.[key]?.ocrConfidence;
+    return (
+      <div className="text-xs text-amber-700 mt-1">
+        Read from a scanned page{confidence ? ` (OCR confidence ${confidence}%)` : ''} - check this value against the report
+      </div>
+    );
+  };
+
   // Validate required fields
   const validate = () => {
     const newErrors: { [key: string]: string } = {};
@@ -187,10 +249,29 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
       newErrors.weightKg = 'Wrong information/Invalid data';
     }
     
-    // Validate age range (5-150 years)
-    if (profile.age != null && (profile.age < 5 || profile.age > 150)) {
+    // Validate age range (0-150 years)
+    if (profile.age != null && (profile.age < 0 || profile.age > 150)) {
       newErrors.age = 'Wrong information/Invalid data';
     }
+
+    // Pediatric mode: infants need their age in months and a weight plausible for the age band
+    if (profile.age === 0 && (profile.ageMonths == null || profile.ageMonths < 0 || profile.ageMonths >= 12)) {
+      newErrors.ageMonths = 'Age in months (0-11) is required for infants';
+    }
+    if (pediatricBand && profile.weightKg != null && !newErrors.weightKg) {
+      const limits = PEDIATRIC_WEIGHT_LIMITS[pediatricBand];
+      if (profile.weightKg < limits.min || profile.weightKg > limits.max) {
+        newErrors.weightKg = `Weight should be ${limits.min}-${limits.max} kg for a ${pediatricBand} patient`;
+      }
+    }
+    
+    // Antibody titres cannot be negative
+    if (profile.currentAntiTPO != null && profile.currentAntiTPO < 0) {
+      newErrors.currentAntiTPO = 'Wrong information/Invalid data';
+    }
+    if (profile.currentAntiTG != null && profile.currentAntiTG < 0) {
+      newErrors.currentAntiTG = 'Wrong information/Invalid data';
+    }
     
     // Validate TSH is provided
     if (profile.currentTSH == null) {
@@ -223,6 +304,11 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
       }
     }
     
+    // Uncertain OCR readings must be checked before they drive a dose
+    if (uncertainOcrFields.length > 0 && !ocrValuesConfirmed) {
+      newErrors.ocrConfirmation = 'Please confirm the values read from the scanned report';
+    }
+    
     return newErrors;
   };
 
@@ -254,10 +340,10 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
         await onSubmit(profile);
         
         // Only record the entry in daily limit AFTER successful processing
-        DailyLimitManager.recordEntry(userId);
+        DailyLimitManager.recordEntry(userId, patientId);
         
         // Update entry limit status
-        const updatedStatus = DailyLimitManager.canMakeEntry(userId, userCreatedAt ?? null);
+        const updatedStatus = DailyLimitManager.canMakeEntry(userId, userCreatedAt ?? null, patientId);
         setEntryLimitStatus(updatedStatus);
         
       } catch (error) {
@@ -330,9 +416,24 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
             <label className="block font-semibold mb-2">
               Age <span className="text-red-600">*</span>
             </label>
-            <input type="number" name="age" value={profile.age ?? ''} onChange={handleChange} className="w-full border rounded px-3 py-2" min={5} max={150} />
+            <input type="number" name="age" value={profile.age ?? ''} onChange={handleChange} className="w-full border rounded px-3 py-2" min={0} max={150} />
             {errors.age && <div className="text-red-600 text-sm mt-1">{errors.age}</div>}
+            {pediatricBand && (
+              <div className="text-xs text-blue-700 mt-1">
+                Pediatric dosing mode ({pediatricBand}) - weight-based doses and age-specific ranges apply
+              </div>
+            )}
           </div>
+
+          {profile.age === 0 && (
+            <div>
+              <label className="block font-semibold mb-2">
+                Age (months) <span className="text-red-600">*</span>
+              </label>
+              <input type="number" name="ageMonths" value={profile.ageMonths ?? ''} onChange={handleChange} className="w-full border rounded px-3 py-2" min={0} max={11.9} step="0.1" />
+              {errors.ageMonths && <div className="text-red-600 text-sm mt-1">{errors.ageMonths}</div>}
+            </div>
+          )}
           
           <div>
             <label className="block font-semibold mb-2">
@@ -379,6 +480,8 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
               step="0.01" 
             />
             {errors.currentTSH && <div className="text-red-600 text-sm mt-1">{errors.currentTSH}</div>}
+            {renderConversionNote('TSH', profile.currentTSH)}
+            {renderOcrNote('TSH')}
           </div>
           
           {/* Hormone validation message when TSH <= 0.1 */}
@@ -423,6 +526,8 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
               step="0.1"
             />
             {errors.currentT3 && <div className="text-red-600 text-sm mt-1">{errors.currentT3}</div>}
+            {renderConversionNote('T3', profile.currentT3)}
+            {renderOcrNote('T3')}
           </div>
           
           <div>
@@ -444,6 +549,8 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
               step="0.1"
             />
             {errors.currentT4 && <div className="text-red-600 text-sm mt-1">{errors.currentT4}</div>}
+            {renderConversionNote('T4', profile.currentT4)}
+            {renderOcrNote('T4')}
           </div>
           
           <div>
@@ -465,6 +572,8 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
               step="0.01"
             />
             {errors.currentFT3 && <div className="text-red-600 text-sm mt-1">{errors.currentFT3}</div>}
+            {renderConversionNote('FT3', profile.currentFT3)}
+            {renderOcrNote('FT3')}
           </div>
           
           <div>
@@ -486,6 +595,65 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
               step="0.01"
             />
             {errors.currentFT4 && <div className="text-red-600 text-sm mt-1">{errors.currentFT4}</div>}
+            {renderConversionNote('FT4', profile.currentFT4)}
+            {renderOcrNote('FT4')}
+          </div>
+
+          {/* Confirmation for uncertain OCR readings from a scanned report */}
+          {uncertainOcrFields.length > 0 && (
+            <div className={`col-span-2 p-3 border rounded-lg ${errors.ocrConfirmation ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+              <label className="flex items-start">
+                <input
+                  type="checkbox"
+                  checked={ocrValuesConfirmed}
+                  onChange={(e) => {
+                    setOcrValuesConfirmed(e.target.checked);
+                    setErrors((prev) => {
+                      const newErrors = { ...prev };
+                      delete newErrors.ocrConfirmation;
+                      return newErrors;
+                    });
+                  }}
+                  className="mr-3 mt-1"
+                />
+                <span className="text-sm text-amber-800">
+                  I have checked {uncertainOcrFields.join(', ')} against the original report. These values were read from a scanned page and may contain recognition errors.
+                </span>
+              </label>
+              {errors.ocrConfirmation && <div className="text-red-600 text-sm mt-1">{errors.ocrConfirmation}</div>}
+            </div>
+          )}
+
+          <div>
+            <label className="block font-semibold mb-2">
+              Anti-TPO (IU/mL) <span className="text-gray-500 text-sm font-normal">(optional)</span>
+            </label>
+            <input
+              type="number"
+              name="currentAntiTPO"
+              value={profile.currentAntiTPO ?? ''}
+              onChange={handleChange}
+              className={`w-full border rounded px-3 py-2 ${errors.currentAntiTPO ? 'border-red-500' : ''}`}
+              min={0}
+              step="0.1"
+            />
+            {errors.currentAntiTPO && <div className="text-red-600 text-sm mt-1">{errors.currentAntiTPO}</div>}
+          </div>
+
+          <div>
+            <label className="block font-semibold mb-2">
+              Anti-TG (IU/mL) <span className="text-gray-500 text-sm font-normal">(optional)</span>
+            </label>
+            <input
+              type="number"
+              name="currentAntiTG"
+              value={profile.currentAntiTG ?? ''}
+              onChange={handleChange}
+              className={`w-full border rounded px-3 py-2 ${errors.currentAntiTG ? 'border-red-500' : ''}`}
+              min={0}
+              step="0.1"
+            />
+            {errors.currentAntiTG && <div className="text-red-600 text-sm mt-1">{errors.currentAntiTG}</div>}
           </div>
           
           <div>
@@ -493,6 +661,9 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
               Dosage Before Report (mcg)
             </label>
             <input type="number" name="currentDose" value={profile.currentDose ?? ''} onChange={handleChange} className="w-full border rounded px-3 py-2" min={0} />
+            {(profile.currentDose ?? 0) > 0 && (
+              <div className="text-sm text-gray-600 mt-1">Maintenance mode: the new dose is adjusted from this levothyroxine dose.</div>
+            )}
           </div>
         </div>
 
@@ -514,6 +685,33 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
               <input type="checkbox" name="symptoms.anxiousOrRestless" checked={profile.symptoms?.anxiousOrRestless ?? false} onChange={handleSymptomChange} className="mr-3" />
               Anxiety, restlessness, or irritability
             </label>
+            <label className="flex items-center p-2 rounded hover:bg-gray-50">
+              <input type="checkbox" name="symptoms.palpitations" checked={profile.symptoms?.palpitations ?? false} onChange={handleSymptomChange} className="mr-3" />
+              Palpitations or racing heartbeat
+            </label>
+            <label className="flex items-center p-2 rounded hover:bg-gray-50">
+              <input type="checkbox" name="symptoms.tremor" checked={profile.symptoms?.tremor ?? false} onChange={handleSymptomChange} className="mr-3" />
+              Tremor or shaky hands
+            </label>
+          </div>
+        </fieldset>
+
+        {/* Current Medications Section */}
+        <fieldset className="mt-6 mb-4">
+          <legend className="font-semibold mb-1 text-lg">Current Medications & Supplements</legend>
+          <p className="text-sm text-gray-600 mb-3">Tick everything taken regularly; some of these change the dose or how levothyroxine should be timed.</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {(Object.keys(DRUG_INTERACTION_RULES) as CoMedication[]).map(medication => (
+              <label key={medication} className="flex items-center p-2 rounded hover:bg-gray-50">
+                <input
+                  type="checkbox"
+                  checked={selectedCoMedications.includes(medication)}
+                  onChange={(e) => handleCoMedicationChange(medication, e.target.checked)}
+                  className="mr-3"
+                />
+                {DRUG_INTERACTION_RULES[medication].label}
+              </label>
+            ))}
           </div>
         </fieldset>
 
@@ -573,8 +771,19 @@ export const PatientProfileForm: React.FC<PatientProfileFormProps> = ({ initialP
               GI Absorption Issues?
             </label>
             <label className="flex items-center p-2 rounded hover:bg-gray-50">
-              <input type="checkbox" name="onEstrogenTherapy" checked={profile.onEstrogenTherapy} onChange={handleChange} className="mr-3" />
-              On Estrogen Therapy?
+              <input type="checkbox" name="hasMethimazoleIntolerance" checked={profile.hasMethimazoleIntolerance ?? false} onChange={handleChange} className="mr-3" />
+              <div>
+                <div className="font-medium">Methimazole intolerance?</div>
+                <div className="text-sm text-gray-600">Previous rash, liver problem or other reaction to methimazole / carbimazole</div>
+              </div>
+            </label>
+            <label className="flex items-center p-2 rounded hover:bg-gray-50">
+              <input type="checkbox" name="hasAsthma" checked={profile.hasAsthma ?? false} onChange={handleChange} className="mr-3" />
+              Asthma?
+            </label>
+            <label className="flex items-center p-2 rounded hover:bg-gray-50">
+              <input type="checkbox" name="hasCOPD" checked={profile.hasCOPD ?? false} onChange={handleChange} className="mr-3" />
+              COPD (chronic bronchitis / emphysema)?
             </label>
             {/* Liver Disease Section */}
             <div className="md:col-span-2">
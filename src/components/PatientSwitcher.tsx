@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { UserPlus, Users } from 'lucide-react';
+import { usePatients } from '../hooks/usePatients';
+
+/**
+ * Header control for choosing which patient the app is working on. Reports, profiles, the
+ * dashboard and (when configured) the monthly limit follow the selected patient.
+ */
+export const PatientSwitcher: React.FC = () => {
+  const { patients, activePatientId, loading, selectPatient, addPatient } = usePatients();
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [dateOfBirth, setDateOfBirth] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (loading || patients.length === 0) return null;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Enter a name');
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await addPatient(name, dateOfBirth || null);
+      setName('');
+      setDateOfBirth('');
+      setAdding(false);
+    } catch (err) {
+      console.error('Failed to add patient:', err);
+      setError('Failed to add patient');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center space-x-1">
+      <Users className="h-4 w-4 text-gray-500" />
+      <select
+        value={activePatientId ?? ''}
+        onChange={(e) => selectPatient(e.target.value)}
+        className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        title="Patient"
+      >
+        {patients.map(patient => (
+          <option key={patient.id} value={patient.id}>{patient.name}</option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => setAdding(prev => !prev)}
+        className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+        title="Add patient"
+      >
+        <UserPlus className="h-4 w-4" />
+      </button>
+
+      {adding && (
+        <form
+          onSubmit={handleAdd}
+          className="absolute right-0 top-full mt-2 w-64 p-4 bg-white border border-gray-200 rounded-lg shadow-lg z-10 text-sm space-y-3"
+        >
+          <label className="block text-xs text-gray-600">
+            Name
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              autoFocus
+            />
+          </label>
+          <label className="block text-xs text-gray-600">
+            Date of birth (optional)
+            <input
+              type="date"
+              value={dateOfBirth}
+              onChange={(e) => setDateOfBirth(e.target.value)}
+              className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setAdding(false)}
+              className="px-3 py-1.5 text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Adding...' : 'Add patient'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,22 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { FileText, Calendar, User, ArrowLeft, Pill, RefreshCw, AlertCircle } from 'lucide-react';
-import { FirestoreService, StoredMedicalReport } from '../services/FirestoreService';
+import {
+  DEFAULT_REPORT_SORT,
+  MedicalReportCursor,
+  MedicalReportFilters,
+  MedicalReportSort,
+  ReportQueries,
+  StoredMedicalReport,
+  StoredTestResult
+} from '../services/repositories';
+import { LOCAL_DATA_CHANGED_EVENT, LocalFirstStore } from '../services/LocalFirstStore';
 import { useAuth } from '../hooks/useAuth';
+import { usePatients } from '../hooks/usePatients';
+import { UnitConverter } from '../utils/converters/unitConverter';
+import { getCoMedications } from '../utils/calculators/drugInteractions';
+import { DRUG_INTERACTION_RULES } from '../constants/medical.constants';
+import { APP_CONFIG } from '../config/app.config';
+import { SavedReportsFilters } from './SavedReportsFilters';
 
 interface SavedReportsProps {
   onBack?: () => void;
@@ -9,68 +24,117 @@ interface SavedReportsProps {
 
 export const SavedReports: React.FC<SavedReportsProps> = ({ onBack }) => {
   const { user } = useAuth();
+  const { activePatientId, loading: loadingPatients } = usePatients();
   const [reports, setReports] = useState<StoredMedicalReport[]>([]);
+  const [nextCursor, setNextCursor] = useState<MedicalReportCursor | null>(null);
+  const [filters, setFilters] = useState<MedicalReportFilters>({});
+  const [sort, setSort] = useState<MedicalReportSort>(DEFAULT_REPORT_SORT);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { pageSize } = APP_CONFIG.savedReports;
+  // Ignores pages that arrive after the filters changed again
+  const requestId = useRef(0);
+  const loadedCount = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
 
-  // Directly fetch from Firestore to avoid state isolation issues
-  const loadReports = useCallback(async () => {
+  loadedCount.current = reports.length;
+
+  // First page (or, on refresh, as many reports as are already shown)
+  const loadReports = useCallback(async (count: number = pageSize, showLoading: boolean = true) => {
     if (!user) {
       setError('Please sign in to view your saved reports');
       setLoading(false);
       return;
     }
+    // Wait for the selected patient rather than briefly listing every patient's reports
+    if (loadingPatients) return;
 
-    setLoading(true);
-    setError(null);
-
+    const request = ++requestId.current;
+    if (showLoading) setLoading(true);
     try {
-      console.log('SavedReports: Fetching reports for user:', user.uid);
-      const fetchedReports = await FirestoreService.getMedicalReports(user.uid);
-      console.log('SavedReports: Fetched', fetchedReports.length, 'reports');
-      setReports(fetchedReports);
+      const page = await LocalFirstStore.queryMedicalReports(user.uid, {
+        patientId: activePatientId,
+        filters,
+        sort,
+        pageSize: count
+      });
+      if (request !== requestId.current) return;
+      setReports(page.reports);
+      setNextCursor(page.nextCursor);
+      setError(null);
     } catch (err) {
-      console.error('SavedReports: Error fetching reports:', err);
-      setError('Failed to load reports. Please try again.');
+      console.error('SavedReports: Error loading reports:', err);
+      if (request === requestId.current) setError('Failed to load reports. Please try again.');
     } finally {
-      setLoading(false);
+      if (request === requestId.current) setLoading(false);
     }
-  }, [user]);
+  }, [user, activePatientId, loadingPatients, filters, sort, pageSize]);
 
-  // Merge with local reports for offline support
-  const mergeLocalReports = (cloudReports: StoredMedicalReport[]): StoredMedicalReport[] => {
+  const loadMore = useCallback(async () => {
+    if (!user || !nextCursor || loadingMore) return;
+
+    const request = requestId.current;
+    setLoadingMore(true);
     try {
-      const local = JSON.parse(localStorage.getItem('saved_reports_local') || '[]');
-      // Filter out local reports that now exist in cloud (by uniqueKey or id)
-      const cloudIds = new Set(cloudReports.map(r => r.id));
-      const cloudKeys = new Set(cloudReports.map(r => r.uniqueKey).filter(Boolean));
-      const filteredLocal = local.filter((r: any) =>
-        !cloudIds.has(r.id) && (!r.uniqueKey || !cloudKeys.has(r.uniqueKey))
-      );
-      return [...filteredLocal.map((r: any) => ({ ...r, isLocal: true })), ...cloudReports];
-    } catch {
-      return cloudReports;
+      const page = await LocalFirstStore.queryMedicalReports(user.uid, {
+        patientId: activePatientId,
+        filters,
+        sort,
+        pageSize,
+        cursor: nextCursor
+      });
+      if (request !== requestId.current) return;
+      // Unsent reports shown on the first page may come back from the server later
+      setReports(prev => {
+        const shown = new Set(prev.map(report => report.id));
+        return [...prev, ...page.reports.filter(report => !shown.has(report.id))];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('SavedReports: Error loading more reports:', err);
+    } finally {
+      setLoadingMore(false);
     }
-  };
+  }, [user, activePatientId, filters, sort, pageSize, nextCursor, loadingMore]);
 
+  // Reload when the filters change, once the user has stopped typing
   useEffect(() => {
-    loadReports();
+    const timer = setTimeout(() => {
+      void loadReports();
+    }, APP_CONFIG.ui.debounceDelay);
+    return () => clearTimeout(timer);
   }, [loadReports]);
 
-  // Listen for new reports being saved
+  // Re-read the reports already shown when this device's copy changes or the outbox has saved new reports
   useEffect(() => {
-    const handleReportsSaved = () => {
-      console.log('SavedReports: medicalReportsSaved event received, refreshing...');
-      loadReports();
+    const handleChange = () => {
+      void loadReports(Math.max(loadedCount.current, pageSize), false);
     };
 
-    window.addEventListener('medicalReportsSaved', handleReportsSaved);
-    return () => window.removeEventListener('medicalReportsSaved', handleReportsSaved);
-  }, [loadReports]);
+    window.addEventListener(LOCAL_DATA_CHANGED_EVENT, handleChange);
+    window.addEventListener('medicalReportsSaved', handleChange);
+    return () => {
+      window.removeEventListener(LOCAL_DATA_CHANGED_EVENT, handleChange);
+      window.removeEventListener('medicalReportsSaved', handleChange);
+    };
+  }, [loadReports, pageSize]);
+
+  // Infinite scroll: load the next page when the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) void loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
 
   const handleRefresh = () => {
     console.log('SavedReports: Manual refresh triggered');
-    loadReports();
+    loadReports(Math.max(loadedCount.current, pageSize));
   };
 
   const formatDate = (timestamp: any) => {
@@ -93,12 +157,18 @@ export const SavedReports: React.FC<SavedReportsProps> = ({ onBack }) => {
   const renderTestResults = (testResults: any) => {
     if (!testResults) return <span className="text-gray-500">No test data</span>;
 
+    // Show the value as reported alongside the converted one, e.g. "FT4: 1.2 ng/dl (15.4 pmol/L)"
+    const formatTest = (label: string, test: StoredTestResult, defaultUnits: string) =>
+      `${label}: ${test.value} ${test.units || defaultUnits}${UnitConverter.wasConverted(test) ? ` (${test.originalValue} ${test.originalUnits})` : ''}`;
+
     const testItems = [];
-    if (testResults.TSH) testItems.push(`TSH: ${testResults.TSH.value} ${testResults.TSH.units || 'mIU/L'}`);
-    if (testResults.T3) testItems.push(`T3: ${testResults.T3.value} ${testResults.T3.units || 'ng/dl'}`);
-    if (testResults.T4) testItems.push(`T4: ${testResults.T4.value} ${testResults.T4.units || 'μg/dl'}`);
-    if (testResults.FT3) testItems.push(`FT3: ${testResults.FT3.value} ${testResults.FT3.units || 'pg/ml'}`);
-    if (testResults.FT4) testItems.push(`FT4: ${testResults.FT4.value} ${testResults.FT4.units || 'ng/dl'}`);
+    if (testResults.TSH) testItems.push(formatTest('TSH', testResults.TSH, 'mIU/L'));
+    if (testResults.T3) testItems.push(formatTest('T3', testResults.T3, 'ng/dl'));
+    if (testResults.T4) testItems.push(formatTest('T4', testResults.T4, 'μg/dl'));
+    if (testResults.FT3) testItems.push(formatTest('FT3', testResults.FT3, 'pg/ml'));
+    if (testResults.FT4) testItems.push(formatTest('FT4', testResults.FT4, 'ng/dl'));
+    if (testResults.AntiTPO) testItems.push(formatTest('Anti-TPO', testResults.AntiTPO, 'IU/mL'));
+    if (testResults.AntiTG) testItems.push(formatTest('Anti-TG', testResults.AntiTG, 'IU/mL'));
 
     return (
       <div className="text-sm text-gray-600">
@@ -128,15 +198,24 @@ export const SavedReports: React.FC<SavedReportsProps> = ({ onBack }) => {
     );
   };
 
-  // Loading state
-  if (loading) {
-    return (
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold text-gray-800 flex items-center">
-            <FileText className="h-5 w-5 mr-2 text-blue-600" />
-            Saved Reports
-          </h2>
+  const hasFilters = ReportQueries.hasFilters(filters);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-gray-800 flex items-center">
+          <FileText className="h-5 w-5 mr-2 text-blue-600" />
+          Saved Reports{!loading && !error && reports.length > 0 && ` (${reports.length}${nextCursor ? '+' : ''})`}
+        </h2>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleRefresh}
+            disabled={loading}
+            className="flex items-center space-x-2 px-4 py-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
           {onBack && (
             <button
               onClick={onBack}
@@ -147,33 +226,13 @@ export const SavedReports: React.FC<SavedReportsProps> = ({ onBack }) => {
             </button>
           )}
         </div>
-        <div className="flex items-center justify-center py-8">
-          <RefreshCw className="h-6 w-6 animate-spin text-blue-600 mr-2" />
-          <span className="text-gray-600">Loading saved reports...</span>
-        </div>
       </div>
-    );
-  }
 
-  // Error state
-  if (error) {
-    return (
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold text-gray-800 flex items-center">
-            <FileText className="h-5 w-5 mr-2 text-blue-600" />
-            Saved Reports
-          </h2>
-          {onBack && (
-            <button
-              onClick={onBack}
-              className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
-            >
-              <ArrowLeft className="h-4 w-4" />
-              <span>Go Back</span>
-            </button>
-          )}
-        </div>
+      {user && (
+        <SavedReportsFilters filters={filters} sort={sort} onFiltersChange={setFilters} onSortChange={setSort} />
+      )}
+
+      {error ? (
         <div className="flex flex-col items-center justify-center py-8">
           <div className="flex items-center text-red-600 mb-4">
             <AlertCircle className="h-6 w-6 mr-2" />
@@ -187,174 +246,140 @@ export const SavedReports: React.FC<SavedReportsProps> = ({ onBack }) => {
             <span>Try Again</span>
           </button>
         </div>
-      </div>
-    );
-  }
-
-  const combined = mergeLocalReports(reports);
-
-  // Empty state
-  if (combined.length === 0) {
-    return (
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold text-gray-800 flex items-center">
-            <FileText className="h-5 w-5 mr-2 text-blue-600" />
-            Saved Reports
-          </h2>
-          <div className="flex items-center space-x-2">
-            <button
-              onClick={handleRefresh}
-              disabled={loading}
-              className="flex items-center space-x-2 px-4 py-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
-            >
-              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
-              <span>Refresh</span>
-            </button>
-            {onBack && (
-              <button
-                onClick={onBack}
-                className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
-              >
-                <ArrowLeft className="h-4 w-4" />
-                <span>Go Back</span>
-              </button>
-            )}
-          </div>
+      ) : loading ? (
+        <div className="flex items-center justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin text-blue-600 mr-2" />
+          <span className="text-gray-600">Loading saved reports...</span>
         </div>
+      ) : reports.length === 0 ? (
         <div className="text-center py-8">
           <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-          <p className="text-gray-500">No saved reports yet.</p>
-          <p className="text-gray-400 text-sm mt-1">Upload and analyze a PDF to get started.</p>
-        </div>
-      </div>
-    );
-  }
-
-  // Reports list
-  return (
-    <div className="bg-white rounded-lg shadow-md p-6">
-      <div className="flex items-center justify-between mb-6">
-        <h2 className="text-xl font-semibold text-gray-800 flex items-center">
-          <FileText className="h-5 w-5 mr-2 text-blue-600" />
-          Saved Reports ({combined.length})
-        </h2>
-        <div className="flex items-center space-x-2">
-          <button
-            onClick={handleRefresh}
-            disabled={loading}
-            className="flex items-center space-x-2 px-4 py-2 text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
-          >
-            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
-            <span>Refresh</span>
-          </button>
-          {onBack && (
-            <button
-              onClick={onBack}
-              className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
-            >
-              <ArrowLeft className="h-4 w-4" />
-              <span>Go Back</span>
-            </button>
+          {hasFilters ? (
+            <p className="text-gray-500">No saved reports match these filters.</p>
+          ) : (
+            <>
+              <p className="text-gray-500">No saved reports yet.</p>
+              <p className="text-gray-400 text-sm mt-1">Upload and analyze a PDF to get started.</p>
+            </>
           )}
         </div>
-      </div>
-
-      <div className="space-y-4">
-        {combined.map((report) => (
-          <div
-            key={report.id}
-            className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors"
-          >
-            <div className="space-y-3">
-              {/* Patient Name and Date */}
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-2 text-gray-800">
-                  <User className="h-4 w-4" />
-                  <span className="font-medium text-lg">
-                    {report.patientInfo?.name || 'Unknown Patient'}
-                  </span>
-                  {(report as any).isLocal && (
-                    <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-0.5 rounded">
-                      Pending sync
+      ) : (
+        <div className="space-y-4">
+          {reports.map((report) => (
+            <div
+              key={report.id}
+              className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors"
+            >
+              <div className="space-y-3">
+                {/* Patient Name and Date */}
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 text-gray-800">
+                    <User className="h-4 w-4" />
+                    <span className="font-medium text-lg">
+                      {report.patientInfo?.name || 'Unknown Patient'}
                     </span>
-                  )}
+                    {report.pendingSync && (
+                      <span className="text-xs bg-yellow-100 text-yellow-700 px-2 py-0.5 rounded">
+                        Pending sync
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2 text-gray-500">
+                    <Calendar className="h-4 w-4" />
+                    <span className="text-sm">
+                      {formatDate(report.createdAt)}
+                    </span>
+                  </div>
                 </div>
-                <div className="flex items-center space-x-2 text-gray-500">
-                  <Calendar className="h-4 w-4" />
-                  <span className="text-sm">
-                    {formatDate(report.createdAt)}
-                  </span>
+
+                {/* Age, Gender, Weight, Report Date */}
+                <div className="text-sm text-gray-600">
+                  <span className="font-medium">Age:</span> {report.patientInfo?.age || 'N/A'} years
+                  <span className="mx-2">•</span>
+                  <span className="font-medium">Gender:</span> {report.patientInfo?.gender || 'N/A'}
+                  {report.patientInfo?.weightKg && (
+                    <>
+                      <span className="mx-2">•</span>
+                      <span className="font-medium">Weight:</span> {report.patientInfo.weightKg} kg
+                    </>
+                  )}
+                  {(report.patientInfo?.reportDate || report.patientInfo?.date) && (
+                    <>
+                      <span className="mx-2">•</span>
+                      <span className="font-medium">Report Date:</span> {report.patientInfo.reportDate || report.patientInfo.date}
+                    </>
+                  )}
                 </div>
-              </div>
 
-              {/* Age, Gender, Weight, Report Date */}
-              <div className="text-sm text-gray-600">
-                <span className="font-medium">Age:</span> {report.patientInfo?.age || 'N/A'} years
-                <span className="mx-2">•</span>
-                <span className="font-medium">Gender:</span> {report.patientInfo?.gender || 'N/A'}
-                {report.patientInfo?.weightKg && (
-                  <>
-                    <span className="mx-2">•</span>
-                    <span className="font-medium">Weight:</span> {report.patientInfo.weightKg} kg
-                  </>
-                )}
-                {report.patientInfo?.reportDate && (
-                  <>
-                    <span className="mx-2">•</span>
-                    <span className="font-medium">Report Date:</span> {report.patientInfo.reportDate}
-                  </>
+                {/* Patient Profile - Medical Conditions */}
+                {report.patientProfile && (
+                  <div className="mt-2">
+                    <span className="font-medium text-sm text-gray-700">Medical Conditions:</span>
+                    <div className="mt-1 text-sm text-gray-600">
+                      {(() => {
+                        const profile = report.patientProfile;
+                        const conditions: string[] = [];
+                        if (profile.isPregnant) conditions.push(`Pregnant${profile.trimester ? ` (Trimester ${profile.trimester})` : ''}`);
+                        if (profile.hasHighRiskHeartDisease) conditions.push('High-risk heart disease');
+                        if (profile.hasLowRiskHeartDisease) conditions.push('Low-risk heart disease');
+                        if (profile.hasOsteoporosis) conditions.push('Osteoporosis');
+                        if (profile.hasAdrenalInsufficiency) conditions.push('Adrenal insufficiency');
+                        if (profile.hasGIAbsorptionIssues) conditions.push('GI absorption issues');
+                        const coMedications = getCoMedications(profile);
+                        if (coMedications.length > 0) conditions.push(`Co-medications: ${coMedications.map(medication => DRUG_INTERACTION_RULES[medication].label).join(', ')}`);
+                        if (profile.hasLiverDisease) conditions.push(`Liver disease${profile.liverDiseaseType ? ` (${profile.liverDiseaseType})` : ''}`);
+                        if (profile.hasKidneyDisease) conditions.push(`Kidney disease${profile.kidneyDiseaseStage ? ` (${profile.kidneyDiseaseStage})` : ''}`);
+                        if (profile.hasHypothyroidDiagnosis) conditions.push('Hypothyroidism diagnosis');
+                        return conditions.length > 0 ? conditions.join(' • ') : 'None';
+                      })()}
+                    </div>
+                    {report.patientProfile.otherIssues && (
+                      <div className="mt-1 text-sm text-gray-600">
+                        <span className="font-medium">Other Issues:</span> {report.patientProfile.otherIssues}
+                      </div>
+                    )}
+                  </div>
                 )}
-              </div>
 
-              {/* Patient Profile - Medical Conditions */}
-              {report.patientProfile && (
+                {/* Test Results */}
                 <div className="mt-2">
-                  <span className="font-medium text-sm text-gray-700">Medical Conditions:</span>
-                  <div className="mt-1 text-sm text-gray-600">
-                    {(() => {
-                      const profile = report.patientProfile;
-                      const conditions: string[] = [];
-                      if (profile.isPregnant) conditions.push(`Pregnant${profile.trimester ? ` (Trimester ${profile.trimester})` : ''}`);
-                      if (profile.hasHighRiskHeartDisease) conditions.push('High-risk heart disease');
-                      if (profile.hasLowRiskHeartDisease) conditions.push('Low-risk heart disease');
-                      if (profile.hasOsteoporosis) conditions.push('Osteoporosis');
-                      if (profile.hasAdrenalInsufficiency) conditions.push('Adrenal insufficiency');
-                      if (profile.hasGIAbsorptionIssues) conditions.push('GI absorption issues');
-                      if (profile.onEstrogenTherapy) conditions.push('Estrogen therapy');
-                      if (profile.hasLiverDisease) conditions.push(`Liver disease${profile.liverDiseaseType ? ` (${profile.liverDiseaseType})` : ''}`);
-                      if (profile.hasKidneyDisease) conditions.push(`Kidney disease${profile.kidneyDiseaseStage ? ` (${profile.kidneyDiseaseStage})` : ''}`);
-                      if (profile.hasHypothyroidDiagnosis) conditions.push('Hypothyroidism diagnosis');
-                      return conditions.length > 0 ? conditions.join(' • ') : 'None';
-                    })()}
+                  <span className="font-medium text-sm text-gray-700">Test Results:</span>
+                  <div className="mt-1">
+                    {renderTestResults(report.testResults)}
                   </div>
-                  {report.patientProfile.otherIssues && (
-                    <div className="mt-1 text-sm text-gray-600">
-                      <span className="font-medium">Other Issues:</span> {report.patientProfile.otherIssues}
-                    </div>
-                  )}
                 </div>
-              )}
 
-              {/* Test Results */}
-              <div className="mt-2">
-                <span className="font-medium text-sm text-gray-700">Test Results:</span>
-                <div className="mt-1">
-                  {renderTestResults(report.testResults)}
+                {/* Dosage Recommendation */}
+                <div className="mt-2">
+                  <span className="font-medium text-sm text-gray-700">Recommended Dosage:</span>
+                  <div className="mt-1">
+                    {renderDosageRecommendation(report.dosageRecommendation)}
+                  </div>
                 </div>
               </div>
+            </div>
+          ))}
 
-              {/* Dosage Recommendation */}
-              <div className="mt-2">
-                <span className="font-medium text-sm text-gray-700">Recommended Dosage:</span>
-                <div className="mt-1">
-                  {renderDosageRecommendation(report.dosageRecommendation)}
-                </div>
-              </div>
+          <div ref={sentinelRef} />
+          {loadingMore && (
+            <div className="flex items-center justify-center py-4">
+              <RefreshCw className="h-5 w-5 animate-spin text-blue-600 mr-2" />
+              <span className="text-sm text-gray-600">Loading more reports...</span>
             </div>
-          </div>
-        ))}
-      </div>
+          )}
+          {nextCursor && !loadingMore && (
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={() => void loadMore()}
+                className="px-4 py-2 text-sm text-blue-600 hover:text-blue-800 hover:bg-blue-50 rounded-lg transition-colors"
+              >
+                Load more
+              </button>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
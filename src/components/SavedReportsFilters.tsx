@@ -0,0 +1,147 @@
+import React from 'react';
+import { Filter, X } from 'lucide-react';
+import { MedicalReportFilters, MedicalReportSort, ReportCondition, ReportQueries } from '../services/repositories';
+
+interface SavedReportsFiltersProps {
+  filters: MedicalReportFilters;
+  sort: MedicalReportSort;
+  onFiltersChange: (filters: MedicalReportFilters) => void;
+  onSortChange: (sort: MedicalReportSort) => void;
+}
+
+const SORT_OPTIONS: { label: string; sort: MedicalReportSort }[] = [
+  { label: 'Newest saved', sort: { field: 'createdAt', direction: 'desc' } },
+  { label: 'Oldest saved', sort: { field: 'createdAt', direction: 'asc' } },
+  { label: 'Report date (newest)', sort: { field: 'reportDate', direction: 'desc' } },
+  { label: 'Report date (oldest)', sort: { field: 'reportDate', direction: 'asc' } },
+  { label: 'TSH (highest)', sort: { field: 'tsh', direction: 'desc' } },
+  { label: 'TSH (lowest)', sort: { field: 'tsh', direction: 'asc' } }
+];
+
+const CONDITION_OPTIONS: { value: ReportCondition; label: string }[] = [
+  { value: 'hypothyroid', label: 'Hypothyroid (high TSH)' },
+  { value: 'hyperthyroid', label: 'Hyperthyroid (low TSH)' },
+  { value: 'euthyroid', label: 'Normal TSH' }
+];
+
+const MEDICATION_OPTIONS = ['Levothyroxine', 'Methimazole', 'Propylthiouracil'];
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/** Sort and filter controls above the saved reports list */
+export const SavedReportsFilters: React.FC<SavedReportsFiltersProps> = ({ filters, sort, onFiltersChange, onSortChange }) => {
+  const update = (changes: MedicalReportFilters) => onFiltersChange({ ...filters, ...changes });
+  const toNumber = (value: string) => (value === '' || isNaN(Number(value)) ? null : Number(value));
+  const sortIndex = SORT_OPTIONS.findIndex(option =>
+    option.sort.field === sort.field && option.sort.direction === sort.direction
+  );
+
+  return (
+    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <span className="flex items-center text-sm font-medium text-gray-700">
+          <Filter className="h-4 w-4 mr-2" />
+          Sort & filter
+        </span>
+        {ReportQueries.hasFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onFiltersChange({})}
+            className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-800"
+          >
+            <X className="h-4 w-4" />
+            <span>Clear filters</span>
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <label className="text-xs text-gray-600">
+          Sort by
+          <select
+            value={sortIndex}
+            onChange={(e) => onSortChange(SORT_OPTIONS[Number(e.target.value)].sort)}
+            className={inputClass}
+          >
+            {SORT_OPTIONS.map((option, index) => (
+              <option key={option.label} value={index}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-xs text-gray-600">
+          Condition
+          <select
+            value={filters.condition ?? ''}
+            onChange={(e) => update({ condition: (e.target.value || null) as ReportCondition | null })}
+            className={inputClass}
+          >
+            <option value="">Any</option>
+            {CONDITION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-xs text-gray-600">
+          Medication
+          <select
+            value={filters.medication ?? ''}
+            onChange={(e) => update({ medication: e.target.value || null })}
+            className={inputClass}
+          >
+            <option value="">Any</option>
+            {MEDICATION_OPTIONS.map(medication => (
+              <option key={medication} value={medication}>{medication}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="text-xs text-gray-600">
+          TSH (mIU/L)
+          <div className="flex items-center space-x-1">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Min"
+              value={filters.tshMin ?? ''}
+              onChange={(e) => update({ tshMin: toNumber(e.target.value) })}
+              className={inputClass}
+            />
+            <span>–</span>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="Max"
+              value={filters.tshMax ?? ''}
+              onChange={(e) => update({ tshMax: toNumber(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <label className="text-xs text-gray-600">
+          Report date from
+          <input
+            type="date"
+            value={filters.dateFrom ?? ''}
+            onChange={(e) => update({ dateFrom: e.target.value || null })}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="text-xs text-gray-600">
+          Report date to
+          <input
+            type="date"
+            value={filters.dateTo ?? ''}
+            onChange={(e) => update({ dateTo: e.target.value || null })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
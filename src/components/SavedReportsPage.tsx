@@ -1,6 +1,7 @@
 import React from 'react';
 import { ArrowLeft, FileText } from 'lucide-react';
 import { SavedReports } from './SavedReports';
+import { PatientSwitcher } from './PatientSwitcher';
 import { useNavigate } from 'react-router-dom';
 
 const SavedReportsPage: React.FC = () => {
@@ -15,13 +16,16 @@ const SavedReportsPage: React.FC = () => {
               <FileText className="h-6 w-6 text-blue-600 mr-2" />
               Saved Reports
             </h1>
-            <button
-              onClick={() => navigate(-1)}
-              className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
-            >
-              <ArrowLeft className="h-4 w-4" />
-              <span>Back</span>
-            </button>
+            <div className="flex items-center space-x-4">
+              <PatientSwitcher />
+              <button
+                onClick={() => navigate(-1)}
+                className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span>Back</span>
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { Settings, X, LogOut, Trash2 } from 'lucide-react';
+import { Settings, X, LogOut, Trash2, Calendar } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
+import { DateOrderSetting, DateParser } from '../utils/dateParser';
 import { createPortal } from 'react-dom';
 
 const SettingsPanel: React.FC = () => {
@@ -9,6 +10,7 @@ const SettingsPanel: React.FC = () => {
   const [isDeleting, setIsDeleting] = useState(false);
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [dateOrder, setDateOrder] = useState<DateOrderSetting>(() => DateParser.getOrderSetting());
   const { user, logout, deleteAccount } = useAuth();
 
   const handleLogout = async () => {
@@ -31,6 +33,11 @@ const SettingsPanel: React.FC = () => {
     }
   };
 
+  const handleDateOrderChange = (setting: DateOrderSetting) => {
+    DateParser.setOrderSetting(setting);
+    setDateOrder(setting);
+  };
+
   return (
     <div className="relative z-[60]">
       <button
@@ -59,6 +66,27 @@ const SettingsPanel: React.FC = () => {
               </div>
 
               <div className="space-y-4">
+                <div>
+                  <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-1">
+                    <Calendar className="w-4 h-4" />
+                    <span>Date format on reports</span>
+                  </label>
+                  <select
+                    value={dateOrder}
+                    onChange={(e) => handleDateOrderChange(e.target.value as DateOrderSetting)}
+                    className="w-full border rounded-lg px-2 py-1 text-sm"
+                  >
+                    <option value="auto">
+                      Automatic ({DateParser.getLocaleOrder() === 'MDY' ? 'MM/DD/YYYY' : 'DD/MM/YYYY'})
+                    </option>
+                    <option value="DMY">DD/MM/YYYY</option>
+                    <option value="MDY">MM/DD/YYYY</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Used when a date such as 03/04/2025 could be either order
+                  </p>
+                </div>
+
                 <div className="border-t border-gray-200 pt-4">
                   <button
                     onClick={handleLogout}
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, UploadCloud } from 'lucide-react';
+import { Outbox, OutboxCounts, OUTBOX_CHANGED_EVENT } from '../utils/sync/outbox';
+
+/**
+ * Header badge for saves still waiting in the outbox. Failed items (given up after
+ * repeated errors) can be retried or discarded from here.
+ */
+export const SyncStatusBadge: React.FC = () => {
+  const [counts, setCounts] = useState<OutboxCounts>({ pending: 0, failed: 0 });
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      Outbox.getCounts()
+        .then(setCounts)
+        .catch(error => console.warn('Failed to read outbox:', error));
+    };
+    refresh();
+    window.addEventListener(OUTBOX_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(OUTBOX_CHANGED_EVENT, refresh);
+  }, []);
+
+  if (counts.pending === 0 && counts.failed === 0) return null;
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      await action();
+      setOpen(false);
+    } catch (error) {
+      console.error('Failed to update queued saves:', error);
+      setActionError(`Could not update the queued saves: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        className={`flex items-center space-x-2 px-3 py-2 text-sm rounded-lg border transition-colors ${
+          counts.failed > 0
+            ? 'text-red-700 border-red-200 bg-red-50 hover:bg-red-100'
+            : 'text-amber-700 border-amber-200 bg-amber-50 hover:bg-amber-100'
+        }`}
+        title="Saves waiting to be sent"
+      >
+        {counts.failed > 0 ? <AlertTriangle className="h-4 w-4" /> : <UploadCloud className="h-4 w-4" />}
+        <span>
+          {counts.pending > 0 && `${counts.pending} pending`}
+          {counts.pending > 0 && counts.failed > 0 && ' · '}
+          {counts.failed > 0 && `${counts.failed} failed`}
+        </span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 p-4 bg-white border border-gray-200 rounded-lg shadow-lg z-10 text-sm">
+          {counts.pending > 0 && (
+            <p className="text-gray-700 mb-2">
+              {counts.pending} {counts.pending === 1 ? 'save is' : 'saves are'} stored on this device and will be sent when you are online.
+            </p>
+          )}
+          {counts.failed > 0 && (
+            <>
+              <p className="text-red-700 mb-3">
+                {counts.failed} {counts.failed === 1 ? 'save' : 'saves'} could not be sent after several attempts.
+              </p>
+              <div className="flex space-x-2">
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => void runAction(() => Outbox.retryFailed())}
+                  className="bg-blue-600 text-white px-3 py-1.5 rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Retry now
+                </button>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => {
+                    if (window.confirm('Discard the saves that could not be sent? They will not be stored in your history.')) {
+                      void runAction(() => Outbox.discardFailed());
+                    }
+                  }}
+                  className="px-3 py-1.5 text-gray-700 bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50"
+                >
+                  Discard
+                </button>
+              </div>
+              {actionError && <p className="text-red-700 mt-3">{actionError}</p>}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,32 +2,95 @@ import React, { useEffect, useState } from 'react';
 import { Activity, Brain, FileText, Pill, User, TrendingUp } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { FileUpload } from './FileUpload';
+import { ExtractionReview } from './ExtractionReview';
+import { CumulativeImport } from './CumulativeImport';
 import { PatientInfo, PatientProfileForm } from './PatientInfo';
 // import { DosageRecommendation } from './DosageRecommendation';
 import { ReportSummary } from './ReportSummary';
 import { useMedicalAnalysis } from '../hooks/useMedicalAnalysis';
-import { calculateLevothyroxineDose, calculateMethimazoleDose } from '../utils/calculators/dosageCalculator';
+import {
+  calculateCentralHypothyroidDose,
+  calculateLevothyroxineDose,
+  calculateMethimazoleDose,
+  calculatePropylthiouracilDose,
+  selectAntithyroidDrug
+} from '../utils/calculators/dosageCalculator';
+import { createTitrationPlan, updateTitrationPlan } from '../utils/calculators/titrationPlanner';
+import { calculateMaintenanceAdjustment } from '../utils/calculators/maintenanceAdjustment';
+import { getRepositories, StoredDocuments } from '../services/repositories';
 import { DosageResultPage } from './DosageResultPage';
 import SettingsPanel from './SettingsPanel';
+import { SyncStatusBadge } from './SyncStatusBadge';
+import { PatientSwitcher } from './PatientSwitcher';
 import { useAuth } from '../hooks/useAuth';
+import { usePatients } from '../hooks/usePatients';
 import { DataLogger } from '../utils/dataLogger';
-import { buildReportSummary, queueReportSummary, scheduleBackgroundSync } from '../utils/reportSync';
-import { enqueueMedicalReport, processQueueAfterDelay, scheduleQueueProcessing } from '../utils/medicalReportQueue';
-import { THYROID_REFERENCE_RANGES } from '../constants/medical.constants';
+import { buildReportSummary, ReportSummaryPayload } from '../utils/reportSync';
+import { Outbox } from '../utils/sync/outbox';
+import { LocalFirstStore } from '../services/LocalFirstStore';
+import { ReferenceRangeRegistry } from '../utils/referenceRanges/referenceRangeRegistry';
+import { ThyroidPatternClassifier } from '../utils/analyzers/thyroidPatternClassifier';
+import { ANTIBODY_REFERENCE_RANGES } from '../constants/medical.constants';
+import { DateParser } from '../utils/dateParser';
+
+// Keep the details that carry over to the patient's next entry (not lab values, dates or symptoms)
+function getCarriedOverProfile(profile: import('../types/medical').PatientProfile) {
+  return withoutEmptyValues({
+    name: profile.name,
+    age: profile.age,
+    ageMonths: profile.ageMonths,
+    weightKg: profile.weightKg,
+    gender: profile.gender,
+    isPregnant: profile.isPregnant,
+    trimester: profile.trimester,
+    hasHighRiskHeartDisease: profile.hasHighRiskHeartDisease,
+    hasLowRiskHeartDisease: profile.hasLowRiskHeartDisease,
+    hasOsteoporosis: profile.hasOsteoporosis,
+    hasAdrenalInsufficiency: profile.hasAdrenalInsufficiency,
+    hasGIAbsorptionIssues: profile.hasGIAbsorptionIssues,
+    onEstrogenTherapy: profile.onEstrogenTherapy,
+    coMedications: profile.coMedications,
+    hasMethimazoleIntolerance: profile.hasMethimazoleIntolerance,
+    hasLiverDisease: profile.hasLiverDisease,
+    liverDiseaseType: profile.liverDiseaseType,
+    hasKidneyDisease: profile.hasKidneyDisease,
+    kidneyDiseaseStage: profile.kidneyDiseaseStage,
+    hasAsthma: profile.hasAsthma,
+    hasCOPD: profile.hasCOPD,
+    currentDose: profile.currentDose,
+    hasHypothyroidDiagnosis: profile.hasHypothyroidDiagnosis,
+    otherIssues: profile.otherIssues
+  });
+}
+
+// Drop fields with no value, so they do not overwrite the form defaults or the saved profile
+function withoutEmptyValues<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined && value !== null && value !== '')
+  ) as Partial<T>;
+}
 
 const ThyroidApp: React.FC = () => {
+  const { activePatient, activePatientId } = usePatients();
   const {
     isProcessing,
+    processingStatus,
     error,
     report: medicalReport,
+    reportSeries,
     // recommendation: dosageRecommendation,
     condition,
     analyzeFile,
     // loadReport,
     // saveReport,
     resetAnalysis,
+    confirmReview,
+    importReportSeries,
+    cancelAnalysis,
+    unlockPdf,
+    passwordRequest,
     loadSavedReports
-  } = useMedicalAnalysis();
+  } = useMedicalAnalysis(activePatientId);
 
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -35,15 +98,26 @@ const ThyroidApp: React.FC = () => {
   const [profileResult, setProfileResult] = useState<{
     profile: any;
     dose: { dose: number; symptomAlert?: string; severity?: 'mild' | 'moderate' | 'severe'; followUpWeeks?: number } | null;
-    medication?: 'Levothyroxine' | 'Methimazole' | null;
+    medication?: 'Levothyroxine' | import('../types/medical').AntithyroidMedication | null;
+    titrationPlan?: import('../types/medical').TitrationPlan | null;
     error?: string;
   } | null>(null);
-  // Start background sync attempts when app mounts
-  useEffect(() => {
-    scheduleBackgroundSync();
-    scheduleQueueProcessing(); // Schedule medical report queue processing
-  }, []);
+  // Details carried over from the active patient's last saved profile (read from this device's copy)
+  const [savedProfile, setSavedProfile] = useState<Partial<import('../types/medical').PatientProfile>>({});
 
+  useEffect(() => {
+    setSavedProfile({});
+    if (!user || !activePatientId) return;
+    let cancelled = false;
+    LocalFirstStore.getPatientProfiles(user.uid, activePatientId)
+      .then(profiles => {
+        if (!cancelled && profiles[0]) setSavedProfile(getCarriedOverProfile(profiles[0].profile));
+      })
+      .catch(error => console.warn('Failed to load saved profile:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [user, activePatientId]);
 
   // (removed unused helper getUpdatedMedicalReport)
 
@@ -57,28 +131,105 @@ const ThyroidApp: React.FC = () => {
     }
   }
 
+  // Helper to dose hyperthyroidism with methimazole, or PTU in the first trimester / with methimazole intolerance
+  function calculateAntithyroidDose(profile: import('../types/medical').PatientProfile): {
+    doseObj: import('../types/medical').DosageResult;
+    medication: import('../types/medical').AntithyroidMedication;
+  } {
+    const { medication } = selectAntithyroidDrug(profile);
+    const doseObj = medication === 'Propylthiouracil'
+      ? calculatePropylthiouracilDose(profile)
+      : calculateMethimazoleDose(profile);
+    return { doseObj, medication };
+  }
+
+  // Helper to start a titration plan, or advance the active one with the new TSH result
+  async function syncTitrationPlan(
+    userId: string,
+    patientId: string | null,
+    profile: import('../types/medical').PatientProfile,
+    doseObj: import('../types/medical').DosageResult | null,
+    medication: 'Levothyroxine' | import('../types/medical').AntithyroidMedication | null
+  ): Promise<import('../types/medical').TitrationPlan | null> {
+    if (profile.currentTSH == null || (medication !== null && medication !== 'Levothyroxine')) return null;
+    // The plan titrates against TSH, which does not apply to central or discordant patterns
+    if (doseObj?.thyroidPattern) return null;
+    const labDate = profile.reportDate || DateParser.today();
+
+    const { reports } = getRepositories();
+    const existing = await reports.getActiveTitrationPlan(userId, patientId);
+    if (existing?.id) {
+      const plan = StoredDocuments.toTitrationPlan(existing);
+      // Same lab submitted again - nothing new to record
+      if (plan.labHistory.some(lab => lab.date === labDate && lab.tsh === profile.currentTSH)) {
+        return plan;
+      }
+      const updated = updateTitrationPlan(plan, profile, { date: labDate, tsh: profile.currentTSH });
+      await reports.updateTitrationPlan(existing.id, updated, existing.reportIds);
+      return updated;
+    }
+
+    if (medication !== 'Levothyroxine' || !doseObj || doseObj.dose <= 0) return null;
+    const plan = {
+      ...createTitrationPlan(profile, {
+        currentDose: profile.currentDose ?? null,
+        latestTSH: profile.currentTSH,
+        dosageResult: doseObj,
+        labDate
+      }),
+      patientId
+    };
+    const planId = await reports.saveTitrationPlan(userId, plan);
+    return { ...plan, id: planId };
+  }
+
+  // Helper to collect the reference ranges printed on an extracted report
+  function getPrintedReferenceRanges(tests: import('../types/medical').ThyroidTests) {
+    const ranges: import('../types/medical').PatientProfile['reportReferenceRanges'] = {};
+    (['TSH', 'T3', 'T4', 'FT3', 'FT4', 'AntiTPO', 'AntiTG'] as const).forEach(key => {
+      const test = tests[key];
+      if (test?.refRange && test.refRangeSource === 'report') {
+        ranges[key] = test.refRange;
+      }
+    });
+    return ranges;
+  }
+
   // Helper to create MedicalReport from manual form profile
   function createMedicalReportFromProfile(profile: any): import('../types/medical').MedicalReport {
     // Convert date from YYYY-MM-DD format to readable format
-    const formatDate = (dateStr: string | null) => {
-      if (!dateStr) return new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit' });
-      try {
-        const date = new Date(dateStr);
-        return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit' });
-      } catch {
-        return new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit' });
-      }
-    };
+    // Report dates are stored as ISO (YYYY-MM-DD)
+    const formatDate = (dateStr: string | null) => DateParser.toISO(dateStr) ?? DateParser.today();
 
-    const buildTestResult = (key: keyof typeof THYROID_REFERENCE_RANGES, value: number) => {
-      const ref = THYROID_REFERENCE_RANGES[key];
+    const buildTestResult = (key: import('../types/medical').ThyroidTestName, value: number) => {
+      const ref = ReferenceRangeRegistry.resolveForProfile(key, profile);
       const status: 'normal' | 'high' | 'low' = value > ref.high ? 'high' : value < ref.low ? 'low' : 'normal';
+      // Keep the value as printed on the report when the form value came from it unchanged
+      const extracted = medicalReport?.tests[key];
+      const original = extracted && extracted.value === value && extracted.originalValue != null
+        ? { originalValue: extracted.originalValue, originalUnits: extracted.originalUnits ?? null }
+        : {};
       return {
         label: key,
         value,
         units: ref.units,
         refRange: { low: ref.low, high: ref.high },
-        status
+        refRangeSource: ref.source === 'report' ? 'report' as const : 'default' as const,
+        status,
+        ...original
+      };
+    };
+
+    const buildAntibodyResult = (key: import('../types/medical').AntibodyTestName, value: number) => {
+      const printed = profile.reportReferenceRanges?.[key];
+      const high = printed?.high ?? ANTIBODY_REFERENCE_RANGES[key].high;
+      return {
+        label: key,
+        value,
+        units: ANTIBODY_REFERENCE_RANGES[key].units,
+        refRange: { low: 0, high },
+        refRangeSource: printed ? 'report' as const : 'default' as const,
+        status: value > high ? 'high' as const : 'normal' as const
       };
     };
 
@@ -99,6 +250,12 @@ const ThyroidApp: React.FC = () => {
     if (profile.currentFT4 != null) {
       tests.FT4 = buildTestResult('FT4', profile.currentFT4);
     }
+    if (profile.currentAntiTPO != null) {
+      tests.AntiTPO = buildAntibodyResult('AntiTPO', profile.currentAntiTPO);
+    }
+    if (profile.currentAntiTG != null) {
+      tests.AntiTG = buildAntibodyResult('AntiTG', profile.currentAntiTG);
+    }
 
     return {
       patientInfo: {
@@ -108,7 +265,9 @@ const ThyroidApp: React.FC = () => {
         date: formatDate(profile.reportDate)
       },
       tests,
-      rawText: `Manual entry - ${profile.name || 'Patient'} - ${profile.reportDate || 'Today'}`
+      rawText: `Manual entry - ${profile.name || 'Patient'} - ${profile.reportDate || 'Today'}`,
+      labName: profile.labName ?? null,
+      assay: profile.assay ?? null
     };
   }
 
@@ -126,16 +285,18 @@ const ThyroidApp: React.FC = () => {
     currentT4: medicalReport.tests.T4?.value ?? null,
     currentFT3: medicalReport.tests.FT3?.value ?? null,
     currentFT4: medicalReport.tests.FT4?.value ?? null,
-    reportDate: medicalReport.patientInfo.date ?
-      (() => {
-        // Convert from "Jan 15, 2024" format to "2024-01-15" format for date input
-        try {
-          const date = new Date(medicalReport.patientInfo.date);
-          return date.toISOString().split('T')[0];
-        } catch {
-          return new Date().toISOString().split('T')[0];
-        }
-      })() : new Date().toISOString().split('T')[0],
+    currentAntiTPO: medicalReport.tests.AntiTPO?.value ?? null,
+    currentAntiTG: medicalReport.tests.AntiTG?.value ?? null,
+    labName: medicalReport.labName ?? null,
+    assay: medicalReport.assay ?? null,
+    reportReferenceRanges: getPrintedReferenceRanges(medicalReport.tests),
+    // A levothyroxine dose confirmed on the review screen takes the maintenance path
+    ...(medicalReport.medication?.confirmed && medicalReport.medication.medication === 'Levothyroxine' && {
+      currentDose: medicalReport.medication.dailyDose,
+      hasHypothyroidDiagnosis: true
+    }),
+    // Extracted dates are already ISO, as the date input expects
+    reportDate: DateParser.toISO(medicalReport.patientInfo.date) ?? DateParser.today(),
   } : {};
 
   // Listen for queue processing completion to reload saved reports
@@ -177,6 +338,8 @@ const ThyroidApp: React.FC = () => {
 
             {/* User Menu */}
             <div className="flex items-center space-x-4">
+              <SyncStatusBadge />
+              <PatientSwitcher />
               <button
                 onClick={() => navigate('/dashboard')}
                 className="flex items-center space-x-2 px-4 py-2 text-blue-600 border border-blue-200 hover:bg-blue-50 rounded-lg transition-colors"
@@ -201,6 +364,11 @@ const ThyroidApp: React.FC = () => {
             <FileUpload
               onFileSelect={analyzeFile}
               isProcessing={isProcessing}
+              statusMessage={processingStatus}
+              onCancel={cancelAnalysis}
+              passwordRequest={passwordRequest}
+              onPasswordSubmit={unlockPdf}
+              knownDateOfBirth={activePatient?.dateOfBirth ?? null}
               error={error}
             />
             <button
@@ -219,9 +387,9 @@ const ThyroidApp: React.FC = () => {
                   <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center mx-auto mb-4">
                     <FileText className="h-6 w-6 text-blue-600" />
                   </div>
-                  <h3 className="font-semibold text-gray-800 mb-2">Upload PDF</h3>
+                  <h3 className="font-semibold text-gray-800 mb-2">Upload Report</h3>
                   <p className="text-gray-600 text-sm">
-                    Upload your thyroid function test report in PDF format
+                    Upload your thyroid function test report as a PDF or photos
                   </p>
                 </div>
 
@@ -253,43 +421,96 @@ const ThyroidApp: React.FC = () => {
               profile={profileResult.profile}
               dosageRecommendation={profileResult.dose}
               medication={profileResult.medication}
+              titrationPlan={profileResult.titrationPlan}
               onBack={() => {
                 setProfileResult(null);
               }}
             />
+          ) : medicalReport && !medicalReport.reviewed ? (
+            <>
+              {reportSeries.length > 1 && (
+                <CumulativeImport reports={reportSeries} onImport={importReportSeries} />
+              )}
+              <ExtractionReview
+                report={medicalReport}
+                onConfirm={(reviewedReport, fields) => {
+                  confirmReview(reviewedReport);
+                  // Extracted vs accepted values feed the extractor accuracy metrics; never block the user on it
+                  if (user) {
+                    getRepositories().reports.saveExtractionReview(user.uid, {
+                      labName: medicalReport.labName ?? null,
+                      assay: medicalReport.assay ?? null,
+                      templateId: medicalReport.templateId ?? null,
+                      ocr: !!medicalReport.ocr,
+                      fields
+                    }).catch(err => console.warn('Failed to record extraction review:', err));
+                  }
+                }}
+                onBack={() => {
+                  setShowProfileForm(false);
+                  resetAnalysis();
+                }}
+              />
+            </>
           ) : (
             <PatientProfileForm
-              initialProfile={extractedProfile}
+              // Remount when the patient or their saved profile changes, as the form copies initialProfile once
+              key={`${activePatientId}:${Object.keys(savedProfile).length}`}
+              initialProfile={{ ...savedProfile, ...withoutEmptyValues(extractedProfile) }}
+              sourceTests={medicalReport?.tests}
               userId={user?.uid ?? null}
               userCreatedAt={user?.metadata?.creationTime ?? null}
+              patientId={activePatientId}
               onSubmit={async (profile) => {
                 try {
                   // Route to appropriate calculation based on TSH
                   let doseObj: import('../types/medical').DosageResult | null = null;
-                  let medication: 'Levothyroxine' | 'Methimazole' | null = null;
+                  let medication: 'Levothyroxine' | import('../types/medical').AntithyroidMedication | null = null;
+
+
+                  // FT4/FT3 patterns (central, non-thyroidal illness, adenoma, interference) override TSH routing
+                  const thyroidPattern = ThyroidPatternClassifier.classifyProfile(profile);
 
-                  if (profile.currentTSH != null) {
+                  if (thyroidPattern) {
+                    if (thyroidPattern.pattern === 'central_hypothyroidism') {
+                      doseObj = { ...calculateCentralHypothyroidDose(profile), thyroidPattern };
+                      medication = 'Levothyroxine';
+                    } else {
+                      const patternAlerts = [`${thyroidPattern.label}: ${thyroidPattern.explanation}`, ...thyroidPattern.recommendations];
+                      doseObj = {
+                        dose: 0,
+                        symptomAlert: patternAlerts.join('; '),
+                        alerts: patternAlerts,
+                        thyroidPattern
+                      };
+                      medication = null;
+                    }
+                  } else if (profile.currentTSH != null && (profile.currentDose ?? 0) > 0 && ReferenceRangeRegistry.getPediatricAgeBand(profile) === null) {
+                    // Already on levothyroxine - adjust from the current dose (a low TSH means over-replacement, not hyperthyroidism)
+                    doseObj = calculateMaintenanceAdjustment(profile);
+                    medication = 'Levothyroxine';
+                  } else if (profile.currentTSH != null) {
                     if (profile.currentTSH <= 0.1) {
-                      // Hyperthyroidism - calculate methimazole
-                      doseObj = calculateMethimazoleDose(profile);
+                      // Hyperthyroidism - calculate methimazole (or PTU)
+                      const antithyroid = calculateAntithyroidDose(profile);
+                      doseObj = antithyroid.doseObj;
+                      medication = antithyroid.medication;
 
                       // Check if hormone data is required but missing
                       if (doseObj.requiresHormoneData) {
                         const missingFields = doseObj.missingHormoneFields?.join(', ') || 'FT3, FT4, T3, T4';
                         throw new Error(`Missing hormone values for hyperthyroidism calculation. Please enter either Free T3 & Free T4, OR Total T3 & Total T4. Missing: ${missingFields}`);
                       }
-
-                      medication = 'Methimazole';
                     } else if (profile.currentTSH > 4.5) {
                       // Hypothyroidism - calculate levothyroxine
                       doseObj = calculateLevothyroxineDose(profile);
                       medication = 'Levothyroxine';
                     } else {
                       // TSH 0.2-4.5: Check if hormones are normal
-                      const ft4Ref = THYROID_REFERENCE_RANGES.FT4;
-                      const ft3Ref = THYROID_REFERENCE_RANGES.FT3;
-                      const t4Ref = THYROID_REFERENCE_RANGES.T4;
-                      const t3Ref = THYROID_REFERENCE_RANGES.T3;
+                      const ft4Ref = ReferenceRangeRegistry.resolveForProfile('FT4', profile);
+                      const ft3Ref = ReferenceRangeRegistry.resolveForProfile('FT3', profile);
+                      const t4Ref = ReferenceRangeRegistry.resolveForProfile('T4', profile);
+                      const t3Ref = ReferenceRangeRegistry.resolveForProfile('T3', profile);
 
                       const hasFreeHormones = profile.currentFT4 != null && profile.currentFT3 != null;
                       const hasTotalHormones = profile.currentT4 != null && profile.currentT3 != null;
@@ -313,7 +534,8 @@ const ThyroidApp: React.FC = () => {
                         doseObj = {
                           dose: 0,
                           symptomAlert: `TSH (${profile.currentTSH} mIU/L) and hormone levels are within normal range. No treatment required.`,
-                          alerts: [`TSH (${profile.currentTSH} mIU/L) and hormone levels are within normal range. No treatment required.`]
+                          alerts: [`TSH (${profile.currentTSH} mIU/L) and hormone levels are within normal range. No treatment required.`],
+                          referenceRangesUsed: hasFreeHormones ? [ft4Ref, ft3Ref] : hasTotalHormones ? [t4Ref, t3Ref] : undefined
                         };
                         medication = null;
                       } else {
@@ -335,8 +557,9 @@ const ThyroidApp: React.FC = () => {
                           (currentFT3 != null && currentFT3 > ft3ULN);
 
                         if (isHyperthyroid) {
-                          doseObj = calculateMethimazoleDose(profile);
-                          medication = 'Methimazole';
+                          const antithyroid = calculateAntithyroidDose(profile);
+                          doseObj = antithyroid.doseObj;
+                          medication = antithyroid.medication;
                         } else {
                           // Likely hypothyroid based on low hormones
                           doseObj = calculateLevothyroxineDose(profile);
@@ -355,18 +578,10 @@ const ThyroidApp: React.FC = () => {
                   }
 
                   // Log calculation to localStorage
-                  DataLogger.logCalculation(profile, doseObj);
+                  DataLogger.logCalculation(profile, doseObj, activePatientId);
 
                   // Create MedicalReport from profile for saving to Firestore
-                  const reportDate = profile.reportDate ?
-                    (() => {
-                      try {
-                        const date = new Date(profile.reportDate);
-                        return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit' });
-                      } catch {
-                        return new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit' });
-                      }
-                    })() : new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit' });
+                  const reportDate = DateParser.toISO(profile.reportDate) ?? DateParser.today();
 
                   const medicalReportFromProfile: import('../types/medical').MedicalReport = createMedicalReportFromProfile(profile);
 
@@ -374,25 +589,30 @@ const ThyroidApp: React.FC = () => {
                   const dosageRecommendation: import('../types/medical').DosageRecommendation | null = doseObj && medication ? {
                     medication: medication,
                     dosage: doseObj.dose,
-                    unit: medication === 'Methimazole' ? 'mg' : 'mcg',
-                    frequency: medication === 'Methimazole' ? 'Once or twice daily' : 'Once daily (morning, empty stomach)',
+                    unit: medication === 'Levothyroxine' ? 'mcg' : 'mg',
+                    frequency: medication === 'Propylthiouracil'
+                      ? 'Three times daily (every 8 hours)'
+                      : medication === 'Methimazole' ? 'Once or twice daily' : 'Once daily (morning, empty stomach)',
                     reasoning: doseObj.symptomAlert || getDetailedClinicalReasoning(profile, doseObj),
                     severity: doseObj.severity || 'mild',
-                    followUpWeeks: doseObj.followUpWeeks || 6
+                    followUpWeeks: doseObj.followUpWeeks || 6,
+                    referenceRangesUsed: doseObj.referenceRangesUsed,
+                    adjunctMedications: doseObj.adjunctMedications,
+                    thyroidPattern: doseObj.thyroidPattern?.pattern
                   } : null;
 
                   // Queue data for async save (no delay - display results immediately)
                   if (user) {
                     try {
                       console.log('Queuing patient form data for async save...');
-                      enqueueMedicalReport(
+                      // Kept on this device straight away; the outbox sends it once the UI has rendered
+                      await LocalFirstStore.saveMedicalReport(
+                        user.uid,
                         medicalReportFromProfile,
                         dosageRecommendation,
-                        profile // Pass full patient profile with all checkbox data
+                        profile, // Pass full patient profile with all checkbox data
+                        activePatientId
                       );
-
-                      // Process queue after a short delay to allow UI to render first
-                      processQueueAfterDelay(1500); // 1.5 seconds delay
                     } catch (queueError) {
                       console.error('Failed to queue data:', queueError);
                       // Continue with the calculation even if queue fails
@@ -401,14 +621,15 @@ const ThyroidApp: React.FC = () => {
 
                   // Queue lightweight summary for offline-first storage
                   try {
-                    if (medicalReport) {
-                      const summary = buildReportSummary(medicalReport, dosageRecommendation, { weightKg: profile.weightKg ?? null });
-                      queueReportSummary(summary);
-                    } else {
+                    if (user && medicalReport) {
+                      const summary: ReportSummaryPayload = {
+                        ...buildReportSummary(medicalReport, dosageRecommendation, { weightKg: profile.weightKg ?? null }),
+                        patientId: activePatientId
+                      };
+                      await Outbox.enqueue(user.uid, { type: 'saveSummary', summary });
+                    } else if (user) {
                       // For manual form entries, create a lightweight summary
-                      const manualSummary = {
-                        id: `manual_${Date.now()}`,
-                        userId: user?.uid || '',
+                      const manualSummary: ReportSummaryPayload = {
                         reportDate,
                         generatedAt: new Date().toISOString(),
                         name: profile.name || 'Manual Entry',
@@ -419,10 +640,13 @@ const ThyroidApp: React.FC = () => {
                         T4: profile.currentT4 ?? null,
                         FT3: profile.currentFT3 ?? null,
                         FT4: profile.currentFT4 ?? null,
-                        recommendedDose: doseObj?.dose || 0
+                        recommendedDose: doseObj?.dose || 0,
+                        patientId: activePatientId
                       };
-                      queueReportSummary(manualSummary);
+                      await Outbox.enqueue(user.uid, { type: 'saveSummary', summary: manualSummary });
                     }
+                    // Send once the UI has rendered
+                    Outbox.processAfterDelay(1500);
                   } catch (queueError) {
                     console.warn('Failed to queue report summary:', queueError);
                   }
@@ -430,14 +654,24 @@ const ThyroidApp: React.FC = () => {
                   // Log to Firestore if user is authenticated (additional logging)
                   if (user) {
                     try {
-                      await DataLogger.logToFirestore(user.uid, profile, doseObj);
+                      await DataLogger.logToFirestore(user.uid, profile, doseObj, activePatientId);
                     } catch (firestoreError) {
                       console.warn('Failed to log to Firestore:', firestoreError);
                       // Continue with the calculation even if Firestore logging fails
                     }
                   }
 
-                  setProfileResult({ profile, dose: doseObj, medication: medication || null });
+                  // Create or update the multi-visit titration plan
+                  let titrationPlan: import('../types/medical').TitrationPlan | null = null;
+                  if (user) {
+                    try {
+                      titrationPlan = await syncTitrationPlan(user.uid, activePatientId, profile, doseObj, medication);
+                    } catch (planError) {
+                      console.warn('Failed to update titration plan:', planError);
+                    }
+                  }
+
+                  setProfileResult({ profile, dose: doseObj, medication: medication || null, titrationPlan });
 
                   // Scroll to top of the page after successful calculation
                   window.scrollTo({ top: 0, behavior: 'smooth' });
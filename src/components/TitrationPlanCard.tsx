@@ -0,0 +1,91 @@
+import React from 'react';
+import { CalendarClock, CheckCircle, Target } from 'lucide-react';
+import { TitrationPlan } from '../types/medical';
+
+interface TitrationPlanCardProps {
+  plan: TitrationPlan;
+}
+
+const formatPlanDate = (isoDate: string) => {
+  const date = new Date(`${isoDate}T00:00:00`);
+  if (isNaN(date.getTime())) return isoDate;
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit' });
+};
+
+export const TitrationPlanCard: React.FC<TitrationPlanCardProps> = ({ plan }) => {
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <div className="flex items-center justify-between mb-4 border-b border-gray-200 pb-2">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center">
+          <CalendarClock className="h-5 w-5 mr-2 text-blue-600" />
+          Titration Plan
+        </h2>
+        {plan.status === 'at_target' ? (
+          <span className="inline-flex items-center px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm font-semibold">
+            <CheckCircle className="h-4 w-4 mr-1" />
+            At target
+          </span>
+        ) : (
+          <span className="inline-block px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-semibold">
+            Titrating
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 text-sm">
+        <div className="flex items-center space-x-2">
+          <Target className="h-4 w-4 text-gray-400" />
+          <span className="text-gray-600">
+            Target TSH: <strong>{plan.targetTSH.low}-{plan.targetTSH.high} mIU/L</strong>
+          </span>
+        </div>
+        <div className="text-gray-600">
+          Goal dose: <strong>{plan.goalDose} mcg/day</strong>
+        </div>
+        <div className="text-gray-600">
+          Max step: <strong>{plan.maxStepMcg} mcg</strong>
+          {plan.stepLimitReason && <span className="text-gray-500"> ({plan.stepLimitReason})</span>}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-4 font-medium">Step</th>
+              <th className="py-2 pr-4 font-medium">Start</th>
+              <th className="py-2 pr-4 font-medium">Dose</th>
+              <th className="py-2 pr-4 font-medium">Change</th>
+              <th className="py-2 pr-4 font-medium">Recheck TSH</th>
+              <th className="py-2 font-medium">Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.steps.map(step => (
+              <tr
+                key={step.stepNumber}
+                className={`border-b border-gray-100 ${step.status === 'active' ? 'bg-blue-50' : ''} ${step.status === 'completed' ? 'text-gray-400' : 'text-gray-700'}`}
+                title={step.note}
+              >
+                <td className="py-2 pr-4">{step.stepNumber}</td>
+                <td className="py-2 pr-4">{formatPlanDate(step.startDate)}</td>
+                <td className="py-2 pr-4 font-semibold">{step.dose} mcg</td>
+                <td className="py-2 pr-4">
+                  {step.doseChange === 0 ? 'Hold' : `${step.doseChange > 0 ? '+' : ''}${step.doseChange} mcg`}
+                </td>
+                <td className="py-2 pr-4">{formatPlanDate(step.labRecheckDate)}</td>
+                <td className="py-2">
+                  {step.observedTSH != null ? `${step.observedTSH} mIU/L` : step.status === 'active' ? 'Pending' : '--'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-3">
+        The plan is updated each time a new TSH result is entered. Later steps are projections and may change.
+      </p>
+    </div>
+  );
+};
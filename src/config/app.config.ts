@@ -1,9 +1,24 @@
+export type StorageBackend = 'firestore' | 'emulator' | 'memory';
+export type EntryLimitScope = 'account' | 'patient';
+
 export const APP_CONFIG = {
   // File upload settings
   upload: {
     maxFileSize: 10 * 1024 * 1024, // 10MB
-    allowedTypes: ['application/pdf'],
-    allowedExtensions: ['.pdf']
+    allowedTypes: ['application/pdf', 'image/jpeg', 'image/png', 'image/heic', 'image/heif'],
+    allowedExtensions: ['.pdf', '.jpg', '.jpeg', '.png', '.heic', '.heif'],
+    // Photos of printed reports (OCR'd and stitched into one report)
+    imageTypes: ['image/jpeg', 'image/png', 'image/heic', 'image/heif'],
+    imageExtensions: ['.jpg', '.jpeg', '.png', '.heic', '.heif'],
+    maxImageCount: 10,
+    maxImageDimension: 3000 // px, longer side; larger photos are downscaled before OCR
+  },
+  
+  // OCR fallback for scanned (image-only) PDFs
+  ocr: {
+    minPageTextLength: 20, // pages with less extractable text are OCR'd
+    renderScale: 2, // canvas scale for page rendering (~144 dpi)
+    lowConfidenceThreshold: 80 // values read below this confidence need user confirmation
   },
   
   // Medical analysis settings
@@ -13,6 +28,37 @@ export const APP_CONFIG = {
     elderlyDosageAdjustment: 0.8
   },
   
+  // Offline outbox: saves are queued on the device and retried with exponential backoff
+  sync: {
+    pollInterval: 30000, // ms
+    retryBaseDelay: 30000, // ms, doubled after each failed attempt
+    retryMaxDelay: 60 * 60 * 1000, // ms
+    maxAttempts: 8 // then the item is kept as failed until the user retries or discards it
+  },
+  
+  // Where reports and profiles are persisted (see src/services/repositories):
+  // 'firestore' (default), 'emulator' (local Firebase emulators) or 'memory' (no Firebase project; cleared on reload)
+  storage: {
+    backend: (import.meta.env.VITE_STORAGE_BACKEND || 'firestore') as StorageBackend,
+    emulator: {
+      host: import.meta.env.VITE_FIREBASE_EMULATOR_HOST || 'localhost',
+      firestorePort: 8080,
+      authPort: 9099
+    }
+  },
+  
+  // Monthly entry limit (manual entries and uploads): shared by the account ('account'),
+  // or counted separately for each of its patients ('patient')
+  limits: {
+    monthlyEntries: 10,
+    scope: (import.meta.env.VITE_ENTRY_LIMIT_SCOPE || 'account') as EntryLimitScope
+  },
+  
+  // Saved reports list (loaded a page at a time as the user scrolls)
+  savedReports: {
+    pageSize: 20
+  },
+  
   // UI settings
   ui: {
     animationDuration: 200,
@@ -1,3 +1,5 @@
+import { CoMedication, DrugInteractionRule, ReferencePopulation, ReferenceRangeEntry } from '../types/medical';
+
 // Reference ranges for thyroid tests
 export const THYROID_REFERENCE_RANGES = {
   TSH: { low: 0.4, high: 4.5, units: 'mIU/L' },
@@ -7,6 +9,97 @@ export const THYROID_REFERENCE_RANGES = {
   FT4: { low: 0.8, high: 1.8, units: 'ng/dl' } // Free T4
 } as const;
 
+// Antibody positivity cutoffs, used when the report does not print its own
+export const ANTIBODY_REFERENCE_RANGES = {
+  AntiTPO: { low: 0, high: 34, units: 'IU/mL' },
+  AntiTG: { low: 0, high: 115, units: 'IU/mL' }
+} as const;
+
+// Confidence (0-1) of extracted report values: base score by how the value was read,
+// minus penalties from plausibility checks. Values below lowThreshold are highlighted for review.
+export const EXTRACTION_CONFIDENCE = {
+  base: {
+    table: 0.9,
+    pattern: 0.75,
+    alternative_pattern: 0.5
+  },
+  penalties: {
+    matchesRangeBound: 0.4, // result equal to a reference-range bound (column mix-up)
+    implausible: 0.5,
+    unknownUnits: 0.3,
+    unitsInferred: 0.15,
+    ambiguousDate: 0.2, // day / month order decided only by the user's date format setting
+    defaultRange: 0.1
+  },
+  lowThreshold: 0.7,
+  // Plausible values in internal units; a number outside these was probably mis-read
+  plausibleRanges: {
+    TSH: { min: 0, max: 500 },
+    T3: { min: 10, max: 1000 },
+    T4: { min: 0.5, max: 40 },
+    FT3: { min: 0.5, max: 40 },
+    FT4: { min: 0.05, max: 10 },
+    AntiTPO: { min: 0, max: 100000 },
+    AntiTG: { min: 0, max: 100000 }
+  },
+  patientInfo: {
+    combinedPattern: 0.9, // "Mr NAME (44Y/F)"
+    labelledPattern: 0.7, // "Age: 44"
+    unlabelledDate: 0.6
+  },
+  medication: {
+    withUnit: 0.85, // "Thyronorm 50 mcg"
+    withoutUnit: 0.65, // "Tab Eltroxin 75"
+    conflictingDoses: 0.3 // several different doses mentioned (e.g. previous and new dose)
+  }
+} as const;
+
+// Upper age bound (exclusive, in years) for each pediatric reference band
+export const PEDIATRIC_AGE_BANDS = {
+  neonatal: 28 / 365,
+  infant: 1,
+  child: 12,
+  adolescent: 18
+} as const;
+
+// Population-specific ranges that replace the adult ranges above (internal units)
+export const POPULATION_REFERENCE_RANGES: Record<
+  Exclude<ReferencePopulation, 'adult'>,
+  Partial<Record<keyof typeof THYROID_REFERENCE_RANGES, { low: number; high: number }>>
+> = {
+  pregnancy_t1: { TSH: { low: 0.1, high: 2.5 } },
+  pregnancy_t2: { TSH: { low: 0.2, high: 3.0 } },
+  pregnancy_t3: { TSH: { low: 0.3, high: 3.0 } },
+  pediatric_neonatal: { TSH: { low: 0.7, high: 15.2 }, FT4: { low: 0.9, high: 2.3 } },
+  pediatric_infant: { TSH: { low: 0.7, high: 8.4 }, FT4: { low: 0.8, high: 2.0 } },
+  pediatric_child: { TSH: { low: 0.7, high: 6.0 }, FT4: { low: 0.9, high: 1.7 } },
+  pediatric_adolescent: { TSH: { low: 0.5, high: 4.3 }, FT4: { low: 0.8, high: 1.7 } }
+};
+
+// Manufacturer / laboratory specific adult ranges (internal units)
+// Add entries with a labName to override ranges for a specific laboratory
+export const LAB_REFERENCE_RANGES: ReferenceRangeEntry[] = [
+  { test: 'TSH', assay: 'roche_elecsys', low: 0.27, high: 4.2, description: 'Roche Elecsys (ECLIA)' },
+  { test: 'FT4', assay: 'roche_elecsys', low: 0.93, high: 1.7, description: 'Roche Elecsys (ECLIA)' },
+  { test: 'FT3', assay: 'roche_elecsys', low: 2.0, high: 4.4, description: 'Roche Elecsys (ECLIA)' },
+  { test: 'TSH', assay: 'abbott_architect', low: 0.35, high: 4.94, description: 'Abbott Architect (CMIA)' },
+  { test: 'FT4', assay: 'abbott_architect', low: 0.7, high: 1.48, description: 'Abbott Architect (CMIA)' },
+  { test: 'FT3', assay: 'abbott_architect', low: 1.71, high: 3.71, description: 'Abbott Architect (CMIA)' },
+  { test: 'TSH', assay: 'siemens_centaur', low: 0.55, high: 4.78, description: 'Siemens ADVIA Centaur' },
+  { test: 'FT4', assay: 'siemens_centaur', low: 0.89, high: 1.76, description: 'Siemens ADVIA Centaur' },
+  { test: 'FT3', assay: 'siemens_centaur', low: 2.3, high: 4.2, description: 'Siemens ADVIA Centaur' }
+];
+
+// Conversion factors from units printed on lab reports to the internal units above
+// internal value = reported value × factor (unit keys are lower-case, µ/μ written as "u")
+export const UNIT_CONVERSION_FACTORS = {
+  TSH: { 'miu/l': 1, 'uiu/ml': 1, 'miu/ml': 1000 },
+  T3: { 'ng/dl': 1, 'nmol/l': 65.1, 'ng/ml': 100 },
+  T4: { 'ug/dl': 1, 'g/dl': 1, 'nmol/l': 1 / 12.87, 'ug/l': 0.1 },
+  FT3: { 'pg/ml': 1, 'pmol/l': 1 / 1.536, 'pg/dl': 0.01 },
+  FT4: { 'ng/dl': 1, 'pmol/l': 1 / 12.87, 'ng/l': 0.1 }
+} as const;
+
 // Dosage calculation constants
 export const DOSAGE_CONSTANTS = {
   levothyroxine: {
@@ -38,7 +131,6 @@ export const DOSAGE_MULTIPLIERS = {
   
   // Medical condition adjustments
   osteoporosis: 0.9, // 10% reduction
-  estrogenTherapy: 1.15, // 15% increase
   giAbsorptionIssues: 1.2, // 20% increase
   
   // Liver disease adjustments
@@ -66,6 +158,22 @@ export const DOSAGE_MULTIPLIERS = {
   }
 } as const;
 
+// Pediatric levothyroxine starting doses (mcg/kg/day) by age band
+export const PEDIATRIC_DOSAGE_PER_KG = {
+  neonatal: { low: 10, high: 15 }, // < 28 days (congenital hypothyroidism)
+  infant: { low: 6, high: 10 }, // 1-12 months
+  child: { low: 4, high: 6 }, // 1-12 years
+  adolescent: { low: 2, high: 3 } // 12-18 years, until growth is complete
+} as const;
+
+// Plausible body weight (kg) per pediatric age band, used for form validation
+export const PEDIATRIC_WEIGHT_LIMITS = {
+  neonatal: { min: 0.5, max: 7 },
+  infant: { min: 1, max: 15 },
+  child: { min: 5, max: 100 },
+  adolescent: { min: 15, max: 200 }
+} as const;
+
 // Commercially available levothyroxine tablets (12.5 mcg increments)
 export const AVAILABLE_DOSES = [
   25, 37.5, 50, 62.5, 75, 87.5, 100, 112.5, 125, 137.5, 150, 162.5, 175, 187.5, 200
@@ -76,6 +184,12 @@ export const COMMERCIAL_TABLETS = [
   25, 50, 75, 88, 100, 112, 125, 137, 150, 175, 200
 ];
 
+// Daily doses accepted when reading a current medication from a report; others were probably mis-read
+export const DETECTED_MEDICATION_LIMITS = {
+  Levothyroxine: { unit: 'mcg', min: 12.5, max: 300 },
+  Methimazole: { unit: 'mg', min: 2.5, max: 60 }
+} as const;
+
 // Safety limits
 export const SAFETY_LIMITS = {
   minimumDose: 25, // mcg
@@ -84,6 +198,7 @@ export const SAFETY_LIMITS = {
   lowWeightThreshold: 45, // kg
   elderlyAgeThreshold: 60, // years
   lowTSHThreshold: 0.1, // mIU/L
+  pediatricMinimumDose: 12.5, // mcg
   maxDoseChange: {
     standard: 25, // mcg
     conservative: 12.5 // mcg (heart disease, osteoporosis)
@@ -118,4 +233,115 @@ export const FOLLOW_UP_SCHEDULE = {
     moderate: 3,
     severe: 2
   }
-};
\ No newline at end of file
+};
+
+// Maintenance adjustment for patients already on levothyroxine
+export const MAINTENANCE_ADJUSTMENT = {
+  smallStep: 12.5, // mcg - TSH just outside target
+  pregnancyIncrease: 0.25, // 25% increase when TSH is above the pregnancy target
+  doseGrid: 12.5 // mcg - half of a 25 mcg tablet
+} as const;
+
+// Central (secondary) hypothyroidism - dosed to FT4 because TSH is unreliable
+export const CENTRAL_HYPOTHYROID_DOSING = {
+  fullReplacementPerKg: 1.6, // mcg/kg/day
+  cautiousStartDose: 25, // mcg - elderly or high-risk heart disease
+  ft4TargetPosition: 0.5, // aim for the upper half of the FT4 reference range
+  followUpWeeks: 6
+} as const;
+
+// Propylthiouracil (PTU) daily doses in mg, given in 3 divided doses
+export const PTU_DOSAGE = {
+  subclinical: 100,
+  mild: 150,
+  moderate: 300,
+  severe: 400,
+  pregnancyMaximum: 300,
+  maximum: 600,
+  tabletSize: 50
+} as const;
+
+// Beta-blocker adjunct doses (mg per dose) for symptomatic hyperthyroidism
+export const BETA_BLOCKER_DOSAGE = {
+  propranolol: { mild: 10, moderate: 20, severe: 40, frequency: 'Three times daily' },
+  atenolol: { mild: 25, moderate: 25, severe: 50, frequency: 'Once daily', renalMaximum: 25 }
+} as const;
+
+// Levothyroxine co-medication interactions, applied by checkDrugInteractions
+export const DRUG_INTERACTION_RULES: Record<CoMedication, DrugInteractionRule> = {
+  estrogen: {
+    label: 'Estrogen (HRT / oral contraceptive)',
+    doseMultiplier: 1.15, // 15% increase - estrogen raises TBG
+    alert: 'On estrogen therapy – increase LT4 dose by ~15% and recheck TSH in 6 weeks.'
+  },
+  calcium: {
+    label: 'Calcium supplements',
+    separationHours: 4,
+    alert: 'Calcium binds levothyroxine in the gut – take LT4 at least 4 hours apart from calcium.'
+  },
+  iron: {
+    label: 'Iron supplements',
+    separationHours: 4,
+    alert: 'Iron binds levothyroxine in the gut – take LT4 at least 4 hours apart from iron.'
+  },
+  ppi: {
+    label: 'Proton pump inhibitor (omeprazole, pantoprazole)',
+    alert: 'PPIs reduce stomach acid and LT4 absorption – recheck TSH 6-8 weeks after starting or stopping; a higher dose or liquid/softgel LT4 may be needed.'
+  },
+  bile_acid_binder: {
+    label: 'Bile-acid binder (cholestyramine, colesevelam)',
+    separationHours: 4,
+    alert: 'Bile-acid binders block LT4 absorption – take LT4 at least 4 hours before the binder.'
+  },
+  antacid: {
+    label: 'Aluminium/magnesium antacid or sucralfate',
+    separationHours: 4,
+    alert: 'Antacids and sucralfate bind levothyroxine – take LT4 at least 4 hours apart.'
+  },
+  phosphate_binder: {
+    label: 'Phosphate binder (sevelamer, lanthanum)',
+    separationHours: 4,
+    alert: 'Phosphate binders reduce LT4 absorption – take LT4 at least 4 hours apart and monitor TSH.'
+  },
+  biotin: {
+    label: 'Biotin (vitamin B7, hair/nail supplements)',
+    labInterference: true,
+    alert: '⚠️ Biotin interferes with many TSH/FT4/FT3 immunoassays – results may be falsely abnormal. Stop biotin for at least 2 days and repeat the tests before changing the dose.'
+  },
+  amiodarone: {
+    label: 'Amiodarone',
+    alert: 'Amiodarone can cause both hypo- and hyperthyroidism – check TSH and FT4 every 3-6 months and involve cardiology before changing therapy.'
+  },
+  lithium: {
+    label: 'Lithium',
+    alert: 'Lithium reduces thyroid hormone release and can cause hypothyroidism or goitre – monitor TSH every 6-12 months.'
+  },
+  anticonvulsant: {
+    label: 'Enzyme-inducing anticonvulsant (phenytoin, carbamazepine, phenobarbital)',
+    doseMultiplier: 1.15, // 15% increase - faster hepatic clearance
+    alert: 'Enzyme-inducing anticonvulsants speed up LT4 clearance – dose increased by 15%; recheck TSH in 6 weeks.'
+  },
+  rifampin: {
+    label: 'Rifampin',
+    doseMultiplier: 1.15, // 15% increase - faster hepatic clearance
+    alert: 'Rifampin speeds up LT4 clearance – dose increased by 15%; recheck TSH in 6 weeks and again after rifampin is stopped.'
+  }
+};
+
+// Pediatric follow-up schedules (in weeks) - younger patients are rechecked sooner
+export const PEDIATRIC_FOLLOW_UP_SCHEDULE = {
+  neonatal: 2,
+  infant: 4,
+  child: 4,
+  adolescent: 6
+} as const;
+
+// Target TSH ranges used by the titration planner (mIU/L)
+export const TITRATION_TARGETS = {
+  default: { low: 0.4, high: 4.5 },
+  pregnancy: {
+    trimester1: { low: 0.1, high: 2.5 },
+    other: { low: 0.2, high: 3.0 }
+  },
+  osteoporosisMinimum: 1.0 // avoid TSH suppression below 1.0 mIU/L
+} as const;
@@ -0,0 +1,20 @@
+import { connectAuthEmulator } from 'firebase/auth';
+import { connectFirestoreEmulator } from 'firebase/firestore';
+import { auth, db } from './config';
+import { APP_CONFIG } from '../config/app.config';
+
+let connected = false;
+
+/**
+ * Point Auth and Firestore at the local Firebase emulators (`firebase emulators:start`).
+ * Must run before the first Auth or Firestore call; later calls do nothing.
+ */
+export function connectToEmulators(): void {
+  if (connected) return;
+  connected = true;
+
+  const { host, firestorePort, authPort } = APP_CONFIG.storage.emulator;
+  connectAuthEmulator(auth, `http://${host}:${authPort}`, { disableWarnings: true });
+  connectFirestoreEmulator(db, host, firestorePort);
+  console.log(`Using Firebase emulators on ${host} (Firestore ${firestorePort}, Auth ${authPort})`);
+}
@@ -13,8 +13,10 @@ import {
   EmailAuthProvider,
   reauthenticateWithPopup
 } from 'firebase/auth';
-import { auth, db } from '../firebase/config';
-import { doc, deleteDoc, collection, query, where, getDocs, writeBatch } from 'firebase/firestore';
+import { auth } from '../firebase/config';
+import { getRepositories } from '../services/repositories';
+import { LocalFirstStore } from '../services/LocalFirstStore';
+import { Outbox } from '../utils/sync/outbox';
 
 export const useAuth = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -23,11 +25,10 @@ export const useAuth = () => {
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (user) => {
-      if (user && user.emailVerified) {
-        setUser(user);
-      } else {
-        setUser(null);
-      }
+      // Queued writes are sent only for the account that is signed in now, whichever route is open
+      const signedInUser = user && user.emailVerified ? user : null;
+      Outbox.setUserId(signedInUser?.uid ?? null);
+      setUser(signedInUser);
       setLoading(false);
     });
 
@@ -112,31 +113,12 @@ export const useAuth = () => {
         throw new Error(message);
       }
       
-      // Delete all user data from Firestore first
-      const batch = writeBatch(db);
-      
-      // Delete user profile
-      const userDocRef = doc(db, 'users', user.uid);
-      batch.delete(userDocRef);
-      
-      // Delete all medical reports for this user
-      const reportsQuery = query(collection(db, 'medicalReports'), where('userId', '==', user.uid));
-      const reportsSnapshot = await getDocs(reportsQuery);
-      
-      reportsSnapshot.docs.forEach((reportDoc) => {
-        batch.delete(reportDoc.ref);
-      });
-      
-      // Delete all patient profiles for this user
-      const profilesQuery = query(collection(db, 'patientProfiles'), where('userId', '==', user.uid));
-      const profilesSnapshot = await getDocs(profilesQuery);
-      
-      profilesSnapshot.docs.forEach((profileDoc) => {
-        batch.delete(profileDoc.ref);
-      });
-      
-      // Commit all deletions
-      await batch.commit();
+      // Delete all user data first, then this device's copy and queued writes
+      const { reports, profiles, patients } = getRepositories();
+      await reports.deleteAllForUser(user.uid);
+      await profiles.deleteAllForUser(user.uid);
+      await patients.deleteAllForUser(user.uid);
+      await LocalFirstStore.clearUser(user.uid);
       
       // Delete the user account (should succeed after reauth)
       await deleteUser(user);
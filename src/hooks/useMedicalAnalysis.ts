@@ -1,35 +1,60 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { MedicalReport, DosageRecommendation } from '../types/medical';
-import { PDFParser } from '../utils/pdfParser';
+import { PDFParser, PDFPasswordError } from '../utils/pdfParser';
+import { ImageParser } from '../utils/imageParser';
+import { FileValidator } from '../utils/validators/fileValidator';
 import { MedicalDataExtractor } from '../utils/medicalDataExtractor';
 import { ThyroidDosagePredictor } from '../utils/thyroidDosagePredictor';
-import { FirestoreService, StoredMedicalReport } from '../services/FirestoreService';
+import { StoredMedicalReport } from '../services/repositories';
+import { LocalFirstStore } from '../services/LocalFirstStore';
 import { useAuth } from './useAuth';
 import { DailyLimitManager } from '../utils/dailyLimit';
+import { APP_CONFIG } from '../config/app.config';
+import { DateParser } from '../utils/dateParser';
 
 interface AnalysisState {
   isProcessing: boolean;
+  processingStatus: string | null;
+  /** Set when the uploaded PDF is encrypted and needs a password */
+  passwordRequest: { fileName: string; reason: PDFPasswordError['reason'] } | null;
   error: string | null;
   report: MedicalReport | null;
+  /** Every collection date of a cumulative report, latest first; empty for single-date reports */
+  reportSeries: MedicalReport[];
   recommendation: DosageRecommendation | null;
   condition: string;
   savedReports: StoredMedicalReport[];
   loadingReports: boolean;
 }
 
-export const useMedicalAnalysis = () => {
+/** @param patientId patient the reports are saved for and listed from (see usePatients) */
+export const useMedicalAnalysis = (patientId: string | null = null) => {
   const { user } = useAuth();
   const [state, setState] = useState<AnalysisState>({
     isProcessing: false,
+    processingStatus: null,
+    passwordRequest: null,
     error: null,
     report: null,
+    reportSeries: [],
     recommendation: null,
     condition: '',
     savedReports: [],
     loadingReports: false
   });
+  // The upload being analysed; aborting it stops PDF parsing and OCR
+  const analysisRef = useRef<AbortController | null>(null);
+  // Encrypted PDF waiting for its password; the password itself is never kept
+  const lockedFileRef = useRef<File | null>(null);
+
+  // Accepts a single PDF, or one or more photos of the same report
+  const analyzeFile = useCallback(async (
+    input: File | File[],
+    unlock?: { password?: string; dateOfBirth?: string | null }
+  ) => {
+    const files = Array.isArray(input) ? input : [input];
+    lockedFileRef.current = null;
 
-  const analyzeFile = useCallback(async (file: File) => {
     if (!user) {
       setState(prev => ({
         ...prev,
@@ -39,7 +64,7 @@ export const useMedicalAnalysis = () => {
     }
 
     // Apply the same entry limit for PDF uploads
-    const entryStatus = DailyLimitManager.canMakeEntry(user.uid, user.metadata?.creationTime ?? null);
+    const entryStatus = DailyLimitManager.canMakeEntry(user.uid, user.metadata?.creationTime ?? null, patientId);
     if (!entryStatus.allowed) {
       setState(prev => ({
         ...prev,
@@ -48,68 +73,156 @@ export const useMedicalAnalysis = () => {
       return;
     }
 
+    analysisRef.current?.abort();
+    const controller = new AbortController();
+    analysisRef.current = controller;
+
     setState(prev => ({
       ...prev,
       isProcessing: true,
+      processingStatus: null,
+      passwordRequest: null,
       error: null,
       report: null,
+      reportSeries: [],
       recommendation: null,
       condition: ''
     }));
 
     try {
-      // Validate PDF file
-      await PDFParser.validatePDFFile(file);
+      // Validate uploaded files
+      const isImageUpload = files.length > 0 && files.every(file => FileValidator.isImageFile(file));
+      if (!isImageUpload && files.length !== 1) {
+        throw new Error('Please upload a single PDF, or one or more photos of the report');
+      }
+      for (const file of files) {
+        await FileValidator.validateUploadFile(file);
+      }
       
-      // Extract text from PDF
-      const extractedText = await PDFParser.extractTextFromPDF(file);
+      // Extract text: photos are OCR'd and stitched; PDFs use the text layer with OCR for scanned pages
+      const parseOptions = {
+        signal: controller.signal,
+        onProgress: (message: string) => {
+          if (!controller.signal.aborted) {
+            setState(prev => ({ ...prev, processingStatus: message }));
+          }
+        }
+      };
+      const content = isImageUpload
+        ? await ImageParser.extractContent(files, parseOptions)
+        : await PDFParser.extractContent(files[0], {
+            ...parseOptions,
+            password: unlock?.password,
+            passwordCandidates: unlock?.dateOfBirth ? PDFParser.dateOfBirthPasswords(unlock.dateOfBirth) : []
+          });
       
-      // Parse medical data
-      const report = MedicalDataExtractor.extractMedicalReportData(extractedText);
+      // Parse medical data; cumulative reports give one report per collection date, latest first
+      const reports = MedicalDataExtractor.extractMedicalReports(content.text, content.layoutItems);
+      if (content.ocr) {
+        const { ocr } = content;
+        reports.forEach(dated => {
+          dated.ocr = { pages: ocr.pages, averageConfidence: ocr.averageConfidence };
+          MedicalDataExtractor.flagLowConfidenceValues(dated, ocr.words, APP_CONFIG.ocr.lowConfidenceThreshold);
+        });
+      }
+      // The latest date is the one used for dosing
+      const [report] = reports;
 
-      // If report date missing, try PDF metadata, else current date
+      // If report date missing, use the date the parser found on the first pages or in the PDF metadata, else current date
       if (!report.patientInfo.date) {
-        const metaDate = await PDFParser.extractReportDateFromPDF(file);
-        report.patientInfo.date = metaDate || new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit' });
+        report.patientInfo.date = content.reportDate || DateParser.today();
       }
       
       // Generate dosage recommendation
+      const rangeContext = { labName: report.labName, assay: report.assay };
       const recommendation = ThyroidDosagePredictor.predictDosage(
         report.tests, 
-        report.patientInfo.age
+        report.patientInfo.age,
+        undefined,
+        rangeContext
       );
       
       // Determine condition
-      const condition = ThyroidDosagePredictor.getThyroidCondition(report.tests);
+      const condition = ThyroidDosagePredictor.getThyroidCondition(report.tests, rangeContext);
 
+      if (controller.signal.aborted) return;
+      analysisRef.current = null;
       setState({
         isProcessing: false,
+        processingStatus: null,
+        passwordRequest: null,
         error: null,
         report,
+        reportSeries: reports.length > 1 ? reports : [],
         recommendation,
         condition,
         savedReports: state.savedReports,
         loadingReports: false
       });
       // Record successful entry after processing
-      try { DailyLimitManager.recordEntry(user.uid); } catch {}
+      try { DailyLimitManager.recordEntry(user.uid, patientId); } catch {}
       
     } catch (err) {
+      // A cancelled upload has already been cleared by cancelAnalysis
+      if (controller.signal.aborted) return;
+      analysisRef.current = null;
+      if (err instanceof PDFPasswordError) {
+        lockedFileRef.current = files[0];
+        setState(prev => ({
+          ...prev,
+          isProcessing: false,
+          processingStatus: null,
+          passwordRequest: { fileName: files[0].name, reason: err.reason }
+        }));
+        return;
+      }
       setState(prev => ({
         ...prev,
         isProcessing: false,
+        processingStatus: null,
         error: err instanceof Error ? err.message : 'An error occurred while processing the file'
       }));
     }
-  }, [user, state.savedReports]);
+  }, [user, patientId, state.savedReports]);
+
+  // Retry the encrypted PDF with the password (and / or date of birth) the user entered
+  const unlockPdf = useCallback((password: string, dateOfBirth: string | null) => {
+    const file = lockedFileRef.current;
+    if (file) {
+      analyzeFile(file, { password, dateOfBirth });
+    }
+  }, [analyzeFile]);
+
+  // Stop the upload being analysed (e.g. a large multi-page PDF) and return to the upload screen
+  const cancelAnalysis = useCallback(() => {
+    analysisRef.current?.abort();
+    analysisRef.current = null;
+    lockedFileRef.current = null;
+    setState(prev => ({
+      ...prev,
+      isProcessing: false,
+      processingStatus: null,
+      passwordRequest: null,
+      error: null
+    }));
+  }, []);
 
+  // Shows the device's copy straight away, then again once it has synced with Firestore
   const loadSavedReports = useCallback(async () => {
     if (!user) return;
 
     setState(prev => ({ ...prev, loadingReports: true }));
     
     try {
-      const reports = await FirestoreService.getMedicalReports(user.uid);
+      const localReports = await LocalFirstStore.getMedicalReports(user.uid, patientId);
+      setState(prev => ({ ...prev, savedReports: localReports }));
+
+      try {
+        await LocalFirstStore.sync(user.uid);
+      } catch (syncError) {
+        console.warn('Failed to sync saved reports, showing the copy on this device:', syncError);
+      }
+      const reports = await LocalFirstStore.getMedicalReports(user.uid, patientId);
       setState(prev => ({
         ...prev,
         savedReports: reports,
@@ -123,11 +236,11 @@ export const useMedicalAnalysis = () => {
         error: 'Failed to load saved reports'
       }));
     }
-  }, [user]);
+  }, [user, patientId]);
 
   const loadReport = useCallback(async (reportId: string) => {
     try {
-      const storedReport = await FirestoreService.getMedicalReport(reportId);
+      const storedReport = await LocalFirstStore.getMedicalReport(reportId);
       if (storedReport) {
         // Convert stored test results back to the original format
         const tests: any = {};
@@ -172,7 +285,8 @@ export const useMedicalAnalysis = () => {
         const report: MedicalReport = {
           patientInfo: storedReport.patientInfo,
           tests,
-          rawText: '' // We don't store raw text anymore
+          rawText: '', // We don't store raw text anymore
+          reviewed: true
         };
 
         setState(prev => ({
@@ -191,9 +305,11 @@ export const useMedicalAnalysis = () => {
     }
   }, []);
 
+  // Removed from the list straight away; the outbox deletes it in Firestore, retrying while offline
   const deleteReport = useCallback(async (reportId: string) => {
+    if (!user) return;
     try {
-      await FirestoreService.deleteMedicalReport(reportId);
+      await LocalFirstStore.deleteMedicalReport(user.uid, reportId);
       setState(prev => ({
         ...prev,
         savedReports: prev.savedReports.filter(report => report.id !== reportId)
@@ -205,7 +321,7 @@ export const useMedicalAnalysis = () => {
         error: 'Failed to delete report'
       }));
     }
-  }, []);
+  }, [user]);
 
   const saveReport = useCallback(async (report: MedicalReport, recommendation: DosageRecommendation | null, condition: string) => {
     console.log('saveReport called with:', { report, recommendation, condition, user: user?.uid });
@@ -221,33 +337,21 @@ export const useMedicalAnalysis = () => {
     }
 
     try {
-      console.log('Calling FirestoreService.saveMedicalReport...');
+      console.log('Calling LocalFirstStore.saveMedicalReport...');
       console.log('User details:', {
         uid: user.uid,
         email: user.email,
         emailVerified: user.emailVerified
       });
-      // Persist a lightweight copy in localStorage for offline viewing
-      try {
-        const local = JSON.parse(localStorage.getItem('saved_reports_local') || '[]');
-        local.unshift({
-          id: `local_${Date.now()}`,
-          patientInfo: report.patientInfo,
-          testResults: report.tests,
-          recommendation,
-          condition,
-          createdAt: new Date().toISOString()
-        });
-        localStorage.setItem('saved_reports_local', JSON.stringify(local.slice(0, 50)));
-      } catch {}
-
-      const reportId = await FirestoreService.saveMedicalReport(
+      // Kept on this device straight away (viewable offline) and sent to Firestore by the outbox
+      const reportId = await LocalFirstStore.saveMedicalReport(
         user.uid,
         report,
         recommendation,
-        ''
+        null,
+        patientId
       );
-      console.log('FirestoreService.saveMedicalReport completed successfully, reportId:', reportId);
+      console.log('LocalFirstStore.saveMedicalReport completed successfully, reportId:', reportId);
       
       // Try to reload saved reports, but don't let it affect the save operation
       try {
@@ -274,12 +378,36 @@ export const useMedicalAnalysis = () => {
       }));
       throw error;
     }
-  }, [user, loadSavedReports]);
+  }, [user, patientId, loadSavedReports]);
+
+  // Add every date of a cumulative report to the history; dates already saved are skipped
+  const importReportSeries = useCallback(async (reports: MedicalReport[]) => {
+    if (!user) {
+      throw new Error('You must be logged in to save reports');
+    }
+
+    const result = await LocalFirstStore.saveMedicalReports(user.uid, reports, patientId);
+    try {
+      await loadSavedReports();
+    } catch (loadError) {
+      console.warn('Failed to reload saved reports after import:', loadError);
+    }
+    return { imported: result.savedIds.length, duplicates: result.duplicates };
+  }, [user, patientId, loadSavedReports]);
+
+  // Replace the extracted report with the values the user accepted on the review screen
+  const confirmReview = useCallback((reviewedReport: MedicalReport) => {
+    setState(prev => ({
+      ...prev,
+      report: { ...reviewedReport, reviewed: true }
+    }));
+  }, []);
 
   const resetAnalysis = useCallback(() => {
     setState(prev => ({
       ...prev,
       report: null,
+      reportSeries: [],
       recommendation: null,
       condition: '',
       error: null
@@ -293,6 +421,10 @@ export const useMedicalAnalysis = () => {
     loadReport,
     deleteReport,
     saveReport,
+    confirmReview,
+    importReportSeries,
+    cancelAnalysis,
+    unlockPdf,
     resetAnalysis
   };
 };
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Patient } from '../types/medical';
+import { LOCAL_DATA_CHANGED_EVENT, LocalFirstStore } from '../services/LocalFirstStore';
+import { useAuth } from './useAuth';
+
+/** Fired on window when another patient is selected, so every screen switches with it */
+export const ACTIVE_PATIENT_CHANGED_EVENT = 'activePatientChanged';
+
+// Patient last selected on this device, per user
+const ACTIVE_PATIENT_KEY_PREFIX = 'active_patient_v1:';
+
+/**
+ * The signed-in account's patients and the one being worked on. The account's default patient
+ * is created (and earlier reports moved to it) the first time this runs.
+ */
+export const usePatients = () => {
+  const { user } = useAuth();
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [activePatientId, setActivePatientId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadPatients = useCallback(async () => {
+    if (!user) return;
+    const list = await LocalFirstStore.getPatients(user.uid);
+    const selectedId = localStorage.getItem(ACTIVE_PATIENT_KEY_PREFIX + user.uid);
+    const fallback = list.find(patient => patient.isDefault) ?? list[0];
+    setPatients(list);
+    setActivePatientId(list.some(patient => patient.id === selectedId) ? selectedId : fallback?.id ?? null);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setPatients([]);
+      setActivePatientId(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    // Null while offline on a device without patients; tried again once back online
+    const ensureDefaultPatient = () => LocalFirstStore.ensureDefaultPatient(user.uid, user.displayName || 'Me')
+      .then(() => (cancelled ? undefined : loadPatients()))
+      .catch(error => console.error('Failed to load patients:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    setLoading(true);
+    void ensureDefaultPatient();
+
+    const handleChange = () => {
+      loadPatients().catch(error => console.error('Failed to load patients:', error));
+    };
+    const handleOnline = () => void ensureDefaultPatient();
+    window.addEventListener(LOCAL_DATA_CHANGED_EVENT, handleChange);
+    window.addEventListener(ACTIVE_PATIENT_CHANGED_EVENT, handleChange);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(LOCAL_DATA_CHANGED_EVENT, handleChange);
+      window.removeEventListener(ACTIVE_PATIENT_CHANGED_EVENT, handleChange);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [user, loadPatients]);
+
+  const selectPatient = useCallback((patientId: string) => {
+    if (!user) return;
+    localStorage.setItem(ACTIVE_PATIENT_KEY_PREFIX + user.uid, patientId);
+    setActivePatientId(patientId);
+    window.dispatchEvent(new CustomEvent(ACTIVE_PATIENT_CHANGED_EVENT, { detail: { patientId } }));
+  }, [user]);
+
+  /** Add a patient and switch to them */
+  const addPatient = useCallback(async (name: string, dateOfBirth: string | null = null): Promise<Patient | null> => {
+    if (!user) return null;
+    const patient = await LocalFirstStore.addPatient(user.uid, { name: name.trim(), dateOfBirth, isDefault: false });
+    selectPatient(patient.id);
+    return patient;
+  }, [user, selectPatient]);
+
+  return {
+    patients,
+    activePatient: patients.find(patient => patient.id === activePatientId) ?? null,
+    activePatientId,
+    loading,
+    selectPatient,
+    addPatient
+  };
+};
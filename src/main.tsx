@@ -3,6 +3,17 @@ import { createRoot } from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import App from './App.tsx';
 import './index.css';
+import { APP_CONFIG } from './config/app.config';
+import { connectToEmulators } from './firebase/emulators';
+import { Outbox } from './utils/sync/outbox';
+
+// Auth must point at the emulator before anyone signs in
+if (APP_CONFIG.storage.backend === 'emulator') {
+  connectToEmulators();
+}
+
+// Send queued saves from any route; useAuth tells the outbox who is signed in
+Outbox.start();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,446 @@
+import { Timestamp } from 'firebase/firestore';
+import { DosageRecommendation, MedicalReport, Patient, PatientProfile } from '../types/medical';
+import {
+  DEFAULT_REPORT_SORT,
+  getRepositories,
+  MedicalReportPage,
+  MedicalReportQuery,
+  ReportQueries,
+  StoredDocuments,
+  StoredMedicalReport,
+  StoredPatient,
+  StoredPatientProfile
+} from './repositories';
+import { LOCAL_STORES, LocalDatabase } from '../utils/storage/localDatabase';
+import { Outbox } from '../utils/sync/outbox';
+
+/** Fired on window when the device's copy of reports, profiles or patients changes (local write or sync) */
+export const LOCAL_DATA_CHANGED_EVENT = 'localDataChanged';
+
+// Lightweight report copies kept before the local database; removed on first sync
+const LEGACY_LOCAL_REPORTS_KEY = 'saved_reports_local';
+// Users whose reports saved before ISO dates have been migrated, so it is not checked on every sync
+const DATES_MIGRATION_KEY_PREFIX = 'report_dates_migrated_v1:';
+// Default patient this device has queued the move of earlier records to, per user
+const PATIENT_MIGRATION_KEY_PREFIX = 'patients_migrated_v1:';
+
+type LocalRecord<T> = T & {
+  id: string;
+  /** Deleted on this device; hidden until the delete has reached the server */
+  deleted?: boolean;
+};
+
+type SyncedStore = typeof LOCAL_STORES.medicalReports | typeof LOCAL_STORES.patientProfiles | typeof LOCAL_STORES.patients;
+
+/**
+ * Offline-first access to saved reports, patient profiles and patients. Reads are served from the
+ * device's IndexedDB copy; writes go to that copy first and reach the configured repositories
+ * (Firestore by default, see APP_CONFIG.storage) through the outbox.
+ *
+ * Conflict policy when syncing: the copy with the later `updatedAt` wins; a record that is
+ * missing from the server is kept only while a write for it is still queued, so reports deleted
+ * on another device disappear here too.
+ */
+export class LocalFirstStore {
+  private static syncing = new Map<string, Promise<void>>();
+  private static defaultPatients = new Map<string, Promise<Patient | null>>();
+
+  // Medical reports
+
+  /** Saved reports on this device (only the patient's when given), newest first */
+  static async getMedicalReports(userId: string, patientId?: string | null): Promise<StoredMedicalReport[]> {
+    const reports = (await this.readAll<StoredMedicalReport>(LOCAL_STORES.medicalReports, userId))
+      .filter(report => !patientId || report.patientId === patientId);
+    return reports.sort((a, b) => this.toMillis(b.createdAt) - this.toMillis(a.createdAt));
+  }
+
+  /**
+   * One page of the user's reports. Online, the page is queried from the repository, kept on this
+   * device, and shown with this device's unsent changes (new reports join the first page). Offline,
+   * when the query fails, or while earlier reports are still being moved to the default patient,
+   * it is read from the device's copy.
+   */
+  static async queryMedicalReports(userId: string, reportQuery: MedicalReportQuery): Promise<MedicalReportPage> {
+    if ((typeof navigator === 'undefined' || navigator.onLine) && !(await this.isAssigningPatient(reportQuery))) {
+      try {
+        return await this.queryRemote(userId, reportQuery);
+      } catch (error) {
+        console.warn('Failed to query reports, using the copy on this device:', error);
+      }
+    }
+    return ReportQueries.page(await this.getMedicalReports(userId), reportQuery);
+  }
+
+  static async getMedicalReport(reportId: string): Promise<StoredMedicalReport | null> {
+    const local = await this.readOne<StoredMedicalReport>(LOCAL_STORES.medicalReports, reportId);
+    if (local) return local.deleted ? null : local;
+
+    const remote = await getRepositories().reports.getMedicalReport(reportId);
+    if (remote?.id) {
+      await this.writeLocal(LOCAL_STORES.medicalReports, { ...remote, id: remote.id });
+    }
+    return remote;
+  }
+
+  /**
+   * Keep the report on this device and queue it for the server. A report the patient already
+   * has (same uniqueKey) is not added again; its id is returned instead.
+   */
+  static async saveMedicalReport(
+    userId: string,
+    report: MedicalReport,
+    recommendation: DosageRecommendation | null,
+    patientProfile: PatientProfile | null,
+    patientId: string | null = null
+  ): Promise<string> {
+    const stored = StoredDocuments.buildStoredMedicalReport(userId, report, recommendation, patientProfile ?? undefined, patientId);
+    const existing = (await this.getMedicalReports(userId, patientId))
+      .find(saved => StoredDocuments.withISOUniqueKey(saved.uniqueKey) === stored.uniqueKey);
+    if (existing?.id) return existing.id;
+
+    const reportId = getRepositories().reports.newMedicalReportId();
+    await this.writeLocal(LOCAL_STORES.medicalReports, { ...stored, id: reportId, pendingSync: true });
+    await Outbox.enqueue(userId, { type: 'saveReport', reportId, report, recommendation, patientProfile, patientId });
+    Outbox.processAfterDelay();
+    return reportId;
+  }
+
+  /**
+   * Save several reports at once (e.g. every collection date of a cumulative report).
+   * Reports already saved, or repeated in the batch, are skipped.
+   */
+  static async saveMedicalReports(
+    userId: string,
+    reports: MedicalReport[],
+    patientId: string | null = null
+  ): Promise<{ savedIds: string[]; duplicates: number }> {
+    const savedIds: string[] = [];
+    const knownIds = new Set((await this.getMedicalReports(userId, patientId)).map(saved => saved.id));
+    let duplicates = 0;
+
+    for (const report of reports) {
+      const reportId = await this.saveMedicalReport(userId, report, null, null, patientId);
+      if (knownIds.has(reportId)) {
+        duplicates++;
+        continue;
+      }
+      knownIds.add(reportId);
+      savedIds.push(reportId);
+    }
+
+    return { savedIds, duplicates };
+  }
+
+  // Updates must be plain data (no Timestamps); updatedAt is set here and again by the repository
+  static async updateMedicalReport(userId: string, reportId: string, updates: Partial<StoredMedicalReport>): Promise<void> {
+    const local = await this.readOne<StoredMedicalReport>(LOCAL_STORES.medicalReports, reportId);
+    if (local) {
+      await this.writeLocal(LOCAL_STORES.medicalReports, {
+        ...local,
+        ...updates,
+        id: reportId,
+        updatedAt: Timestamp.now(),
+        pendingSync: true
+      });
+    }
+    await Outbox.enqueue(userId, { type: 'updateReport', reportId, updates });
+    Outbox.processAfterDelay();
+  }
+
+  static async deleteMedicalReport(userId: string, reportId: string): Promise<void> {
+    const local = await this.readOne<StoredMedicalReport>(LOCAL_STORES.medicalReports, reportId);
+    if (local) {
+      await this.writeLocal(LOCAL_STORES.medicalReports, { ...local, deleted: true });
+    }
+    await Outbox.enqueue(userId, { type: 'deleteReport', reportId });
+    Outbox.processAfterDelay();
+  }
+
+  // Patient profiles
+
+  /** Saved profiles on this device (only the patient's when given), newest first */
+  static async getPatientProfiles(userId: string, patientId?: string | null): Promise<StoredPatientProfile[]> {
+    const profiles = (await this.readAll<StoredPatientProfile>(LOCAL_STORES.patientProfiles, userId))
+      .filter(profile => !patientId || profile.patientId === patientId);
+    return profiles.sort((a, b) => this.toMillis(b.createdAt) - this.toMillis(a.createdAt));
+  }
+
+  static async savePatientProfile(userId: string, profile: PatientProfile, patientId: string | null = null): Promise<string> {
+    const profileId = getRepositories().profiles.newPatientProfileId();
+    const now = Timestamp.now();
+    await this.writeLocal(LOCAL_STORES.patientProfiles, {
+      id: profileId,
+      userId,
+      ...(patientId && { patientId }),
+      profile,
+      createdAt: now,
+      updatedAt: now,
+      pendingSync: true
+    });
+    await Outbox.enqueue(userId, { type: 'saveProfile', profileId, profile, patientId });
+    Outbox.processAfterDelay();
+    return profileId;
+  }
+
+  // Patients
+
+  /** Patients on this device, oldest first */
+  static async getPatients(userId: string): Promise<Patient[]> {
+    const patients = await this.readAll<LocalRecord<StoredPatient>>(LOCAL_STORES.patients, userId);
+    return patients
+      .sort((a, b) => this.toMillis(a.createdAt) - this.toMillis(b.createdAt))
+      .map(({ id, name, dateOfBirth, isDefault }) => ({ id, name, dateOfBirth, isDefault }));
+  }
+
+  /** Keep the patient on this device and queue it for the server */
+  static async addPatient(userId: string, patient: Omit<Patient, 'id'>): Promise<Patient> {
+    const created: Patient = { ...patient, id: getRepositories().patients.newPatientId() };
+    const now = Timestamp.now();
+    await this.writeLocal(LOCAL_STORES.patients, { ...created, userId, createdAt: now, updatedAt: now, pendingSync: true });
+    await Outbox.enqueue(userId, { type: 'savePatient', patient: created });
+    Outbox.processAfterDelay();
+    return created;
+  }
+
+  /**
+   * The account's default patient, created (named `name`) the first time it is needed. Reports and
+   * profiles saved before patients were introduced are moved to it. Null while offline on a device
+   * that has no patients yet, as the account may already have them on the server; call again once online.
+   * Concurrent calls share one run.
+   */
+  static ensureDefaultPatient(userId: string, name: string): Promise<Patient | null> {
+    const running = this.defaultPatients.get(userId);
+    if (running) return running;
+
+    const run = this.findOrCreateDefaultPatient(userId, name).finally(() => {
+      this.defaultPatients.delete(userId);
+    });
+    this.defaultPatients.set(userId, run);
+    return run;
+  }
+
+  // Sync
+
+  /**
+   * Pull the user's reports and profiles from the server into the device's copy (see the
+   * conflict policy above). Does nothing offline; concurrent calls share one run.
+   */
+  static sync(userId: string): Promise<void> {
+    const running = this.syncing.get(userId);
+    if (running) return running;
+
+    const run = this.pull(userId).finally(() => {
+      this.syncing.delete(userId);
+    });
+    this.syncing.set(userId, run);
+    return run;
+  }
+
+  /** Remove the user's reports, profiles and queued writes from this device (account deletion) */
+  static async clearUser(userId: string): Promise<void> {
+    for (const store of [LOCAL_STORES.medicalReports, LOCAL_STORES.patientProfiles, LOCAL_STORES.patients] as const) {
+      const records = await LocalDatabase.getAll<LocalRecord<{ userId: string }>>(store);
+      for (const record of records.filter(record => record.userId === userId)) {
+        await LocalDatabase.delete(store, record.id);
+      }
+    }
+    await Outbox.discardForUser(userId);
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(PATIENT_MIGRATION_KEY_PREFIX + userId);
+    }
+    this.notifyChanged();
+  }
+
+  private static async pull(userId: string): Promise<void> {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(LEGACY_LOCAL_REPORTS_KEY);
+      await this.migrateLegacyDates(userId);
+    }
+
+    const [reports, profiles, patients, queuedIds] = await Promise.all([
+      getRepositories().reports.getMedicalReports(userId),
+      getRepositories().profiles.getPatientProfiles(userId),
+      getRepositories().patients.getPatients(userId),
+      Outbox.getQueuedDocumentIds()
+    ]);
+    const patientsChanged = await this.merge(LOCAL_STORES.patients, userId, patients, queuedIds);
+    // Records the server has not moved to a patient yet (the move is still in the outbox) are the default patient's
+    const defaultPatientId = (await this.getPatients(userId)).find(patient => patient.isDefault)?.id;
+    const withPatient = <T extends { patientId?: string }>(records: T[]): T[] => records.map(record =>
+      record.patientId || !defaultPatientId ? record : { ...record, patientId: defaultPatientId }
+    );
+    const reportsChanged = await this.merge(LOCAL_STORES.medicalReports, userId, withPatient(reports), queuedIds);
+    const profilesChanged = await this.merge(LOCAL_STORES.patientProfiles, userId, withPatient(profiles), queuedIds);
+    if (patientsChanged || reportsChanged || profilesChanged) this.notifyChanged();
+  }
+
+  // Dedupe and date sorting / filters on the server need ISO dates; retried on the next sync if it fails
+  private static async migrateLegacyDates(userId: string): Promise<void> {
+    const migrationKey = DATES_MIGRATION_KEY_PREFIX + userId;
+    if (localStorage.getItem(migrationKey)) return;
+    try {
+      await getRepositories().reports.migrateLegacyDates(userId);
+      localStorage.setItem(migrationKey, 'true');
+    } catch (error) {
+      console.warn('Failed to migrate report dates:', error);
+    }
+  }
+
+  private static async findOrCreateDefaultPatient(userId: string, name: string): Promise<Patient | null> {
+    let patients = await this.getPatients(userId);
+    if (patients.length === 0) {
+      // The patients may already exist on the server (another device): only create one after a sync
+      // has shown there are none, or this device would add a second default patient
+      if (typeof navigator !== 'undefined' && !navigator.onLine) return null;
+      await this.sync(userId);
+      patients = await this.getPatients(userId);
+    }
+    const patient = patients.find(candidate => candidate.isDefault) ?? patients[0]
+      ?? await this.addPatient(userId, { name, isDefault: true });
+    await this.assignToPatient(userId, patient.id);
+    return patient;
+  }
+
+  // Move the device's records without a patient to the patient, and queue the same move on the server once per device
+  private static async assignToPatient(userId: string, patientId: string): Promise<void> {
+    let changed = false;
+    for (const store of [LOCAL_STORES.medicalReports, LOCAL_STORES.patientProfiles] as const) {
+      const records = await LocalDatabase.getAll<LocalRecord<{ userId: string; patientId?: string }>>(store);
+      for (const record of records.filter(record => record.userId === userId && !record.patientId)) {
+        await this.writeLocal(store, { ...record, patientId }, false);
+        changed = true;
+      }
+    }
+    if (changed) this.notifyChanged();
+
+    const migrationKey = PATIENT_MIGRATION_KEY_PREFIX + userId;
+    if (typeof localStorage === 'undefined' || localStorage.getItem(migrationKey) === patientId) return;
+    await Outbox.enqueue(userId, { type: 'assignPatient', patientId });
+    localStorage.setItem(migrationKey, patientId);
+    Outbox.processAfterDelay();
+  }
+
+  // Returns whether the device's copy changed
+  private static async merge<T extends { id?: string; userId: string; updatedAt: Timestamp; pendingSync?: boolean }>(
+    store: SyncedStore,
+    userId: string,
+    remote: T[],
+    queuedIds: Set<string>
+  ): Promise<boolean> {
+    const local = new Map(
+      (await LocalDatabase.getAll<LocalRecord<T>>(store))
+        .filter(record => record.userId === userId)
+        .map(record => [record.id, record])
+    );
+    let changed = false;
+
+    for (const remoteRecord of remote) {
+      if (!remoteRecord.id) continue;
+      const localRecord = local.get(remoteRecord.id);
+      local.delete(remoteRecord.id);
+      if (localRecord) {
+        const localIsNewer = this.toMillis(localRecord.updatedAt) >= this.toMillis(remoteRecord.updatedAt);
+        // A delete, or a newer change, still waiting in the outbox is kept
+        if (queuedIds.has(remoteRecord.id) && (localRecord.deleted || localIsNewer)) continue;
+        // Already up to date
+        if (!localRecord.deleted && !localRecord.pendingSync
+          && this.toMillis(localRecord.updatedAt) === this.toMillis(remoteRecord.updatedAt)) continue;
+      }
+
+      await this.writeLocal(store, { ...remoteRecord, id: remoteRecord.id, pendingSync: false }, false);
+      changed = true;
+    }
+
+    // Not on the server: still being sent, or deleted elsewhere / merged into an existing duplicate
+    for (const [id] of local) {
+      if (queuedIds.has(id)) continue;
+      await LocalDatabase.delete(store, id);
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  private static async queryRemote(userId: string, reportQuery: MedicalReportQuery): Promise<MedicalReportPage> {
+    const [page, queuedIds, localRecords] = await Promise.all([
+      getRepositories().reports.queryMedicalReports(userId, reportQuery),
+      Outbox.getQueuedDocumentIds(),
+      LocalDatabase.getAll<LocalRecord<StoredMedicalReport>>(LOCAL_STORES.medicalReports)
+    ]);
+    const local = new Map(localRecords
+      .filter(record => record.userId === userId)
+      .map(record => [record.id, this.withTimestamps(record)]));
+    const reports: StoredMedicalReport[] = [];
+
+    for (const remote of page.reports) {
+      if (!remote.id) continue;
+      const localRecord = local.get(remote.id);
+      // Edited or deleted here, and not sent yet
+      if (localRecord && queuedIds.has(remote.id)) {
+        if (!localRecord.deleted) reports.push(localRecord);
+        continue;
+      }
+      await this.writeLocal(LOCAL_STORES.medicalReports, { ...remote, id: remote.id, pendingSync: false }, false);
+      reports.push(remote);
+    }
+
+    if (!reportQuery.cursor) {
+      const onPage = new Set(reports.map(report => report.id));
+      const unsent = [...local.values()].filter(record =>
+        record.pendingSync && !record.deleted && queuedIds.has(record.id) && !onPage.has(record.id)
+        && (!reportQuery.patientId || record.patientId === reportQuery.patientId)
+      );
+      reports.push(...ReportQueries.filterAndSort(unsent, reportQuery.filters, reportQuery.sort));
+      reports.sort((a, b) => ReportQueries.compare(a, b, reportQuery.sort ?? DEFAULT_REPORT_SORT));
+    }
+
+    return { reports, nextCursor: page.nextCursor };
+  }
+
+  // The server would leave out reports whose move to the default patient is still in the outbox
+  private static async isAssigningPatient(reportQuery: MedicalReportQuery): Promise<boolean> {
+    if (!reportQuery.patientId) return false;
+    const items = await Outbox.getItems();
+    return items.some(item => item.operation.type === 'assignPatient');
+  }
+
+  private static async readAll<T extends { userId: string }>(store: SyncedStore, userId: string): Promise<T[]> {
+    const records = await LocalDatabase.getAll<LocalRecord<T>>(store);
+    return records
+      .filter(record => record.userId === userId && !record.deleted)
+      .map(record => this.withTimestamps(record));
+  }
+
+  private static async readOne<T>(store: SyncedStore, id: string): Promise<LocalRecord<T> | null> {
+    const record = await LocalDatabase.get<LocalRecord<T>>(store, id);
+    return record ? this.withTimestamps(record) : null;
+  }
+
+  private static async writeLocal<T extends { id: string }>(store: SyncedStore, record: T, notify = true): Promise<void> {
+    await LocalDatabase.put(store, record);
+    if (notify) this.notifyChanged();
+  }
+
+  // IndexedDB keeps Timestamps as plain { seconds, nanoseconds } objects
+  private static withTimestamps<T>(record: T): T {
+    const restore = (value: unknown) => {
+      const plain = value as { seconds?: number; nanoseconds?: number } | null | undefined;
+      return plain && typeof plain.seconds === 'number' && !(plain instanceof Timestamp)
+        ? new Timestamp(plain.seconds, plain.nanoseconds ?? 0)
+        : value;
+    };
+    const withDates = record as T & { createdAt?: unknown; updatedAt?: unknown };
+    return { ...withDates, createdAt: restore(withDates.createdAt), updatedAt: restore(withDates.updatedAt) } as T;
+  }
+
+  private static toMillis(value: Timestamp | null | undefined): number {
+    return value ? value.seconds * 1000 + Math.floor(value.nanoseconds / 1e6) : 0;
+  }
+
+  private static notifyChanged(): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(LOCAL_DATA_CHANGED_EVENT));
+    }
+  }
+}
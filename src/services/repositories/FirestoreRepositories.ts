@@ -0,0 +1,573 @@
+import { 
+  Firestore,
+  collection, 
+  doc, 
+  addDoc, 
+  updateDoc, 
+  deleteDoc, 
+  getDocs, 
+  getDoc,
+  setDoc,
+  query, 
+  where, 
+  orderBy, 
+  limit,
+  startAfter,
+  documentId,
+  writeBatch,
+  QueryConstraint,
+  Timestamp 
+} from 'firebase/firestore';
+import { MedicalReport, DosageRecommendation, Patient, PatientProfile, TitrationPlan } from '../../types/medical';
+import { ReportSummaryPayload } from '../../utils/reportSync';
+import {
+  ExtractionReviewRecord,
+  MedicalReportCursor,
+  MedicalReportPage,
+  MedicalReportQuery,
+  MedicalReportSortField,
+  PatientRepository,
+  ProfileRepository,
+  ReportRepository,
+  StoredMedicalReport,
+  StoredPatient,
+  StoredPatientProfile,
+  StoredTitrationPlan
+} from './types';
+import { StoredDocuments } from './StoredDocuments';
+import { DEFAULT_REPORT_SORT, ReportQueries } from './ReportQueries';
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_SIZE = 500;
+
+// Report fields behind each sort option (each needs the composite indexes in firestore.indexes.json)
+const SORT_FIELD_PATHS: Record<MedicalReportSortField, string> = {
+  createdAt: 'createdAt',
+  reportDate: 'patientInfo.date',
+  tsh: 'testResults.TSH.value'
+};
+
+// Reads per queryMedicalReports call when most reports are filtered out; the cursor resumes from there
+const MAX_QUERY_READS = 5;
+
+// Delete every document in the collection owned by the user, in batches
+async function deleteUserDocuments(db: Firestore, collectionName: string, userId: string): Promise<void> {
+  const snapshot = await getDocs(query(collection(db, collectionName), where('userId', '==', userId)));
+  for (let start = 0; start < snapshot.docs.length; start += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    snapshot.docs.slice(start, start + MAX_BATCH_SIZE).forEach(document => batch.delete(document.ref));
+    await batch.commit();
+  }
+}
+
+// Give the user's documents that have no patientId to the patient; returns how many were updated
+async function assignUserDocuments(db: Firestore, collectionName: string, userId: string, patientId: string): Promise<number> {
+  const snapshot = await getDocs(query(collection(db, collectionName), where('userId', '==', userId)));
+  const unassigned = snapshot.docs.filter(document => !document.data().patientId);
+  for (let start = 0; start < unassigned.length; start += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    // updatedAt is left alone so devices that already hold the document do not see a change
+    unassigned.slice(start, start + MAX_BATCH_SIZE).forEach(document => batch.update(document.ref, { patientId }));
+    await batch.commit();
+  }
+  return unassigned.length;
+}
+
+/** Reports, summaries, extraction reviews and titration plans in Firestore (or the Firestore emulator) */
+export class FirestoreReportRepository implements ReportRepository {
+  constructor(private readonly db: Firestore) {}
+
+  newMedicalReportId(): string {
+    return doc(collection(this.db, 'medicalReports')).id;
+  }
+
+  async saveMedicalReport(
+    userId: string, 
+    report: MedicalReport, 
+    recommendation?: DosageRecommendation | null,
+    patientProfile?: PatientProfile,
+    reportId?: string,
+    patientId?: string | null
+  ): Promise<string> {
+    try {
+      console.log('Starting saveMedicalReport with userId:', userId);
+      const reportData = StoredDocuments.buildStoredMedicalReport(userId, report, recommendation, patientProfile, patientId);
+
+      // Check for existing report with same uniqueKey to prevent duplicates
+      const existingId = await this.findReportByUniqueKey(userId, reportData.uniqueKey ?? '', patientId ?? null);
+      if (existingId) {
+        return existingId;
+      }
+
+      console.log('Saving medical report data:', reportData);
+      
+      if (reportId) {
+        await setDoc(doc(this.db, 'medicalReports', reportId), reportData);
+        console.log('Medical report saved successfully with ID:', reportId);
+        return reportId;
+      }
+      const docRef = await addDoc(collection(this.db, 'medicalReports'), reportData);
+      console.log('Medical report saved successfully with ID:', docRef.id);
+      return docRef.id;
+    } catch (error) {
+      console.error('Error saving medical report:', error);
+      throw new Error(`Failed to save medical report: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Reports not yet given to a patient count as duplicates for any patient
+  private async findReportByUniqueKey(userId: string, uniqueKey: string, patientId: string | null): Promise<string | null> {
+    try {
+      const existingQ = query(
+        collection(this.db, 'medicalReports'),
+        where('userId', '==', userId),
+        where('uniqueKey', '==', uniqueKey)
+      );
+      const existingSnap = await getDocs(existingQ);
+      const existing = existingSnap.docs.find(document => {
+        const existingPatientId = document.data().patientId;
+        return !patientId || !existingPatientId || existingPatientId === patientId;
+      });
+      return existing?.id ?? null;
+    } catch (dupeErr) {
+      console.warn('Duplicate check failed (continuing save):', dupeErr);
+      return null;
+    }
+  }
+
+  async getMedicalReports(userId: string): Promise<StoredMedicalReport[]> {
+    try {
+      const q = query(
+        collection(this.db, 'medicalReports'),
+        where('userId', '==', userId),
+        orderBy('createdAt', 'desc')
+      );
+      
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(doc => StoredDocuments.withISODates({
+        id: doc.id,
+        ...doc.data()
+      } as StoredMedicalReport));
+    } catch (error) {
+      console.error('Error getting medical reports:', error);
+      throw new Error('Failed to get medical reports');
+    }
+  }
+
+  /**
+   * Date or TSH ranges on the field being sorted by run in Firestore; the other filters are applied
+   * to each batch read, so only one index per sort order is needed. Reads continue until the page
+   * is full or MAX_QUERY_READS batches were read.
+   */
+  async queryMedicalReports(userId: string, reportQuery: MedicalReportQuery): Promise<MedicalReportPage> {
+    const sort = reportQuery.sort ?? DEFAULT_REPORT_SORT;
+    const filters = reportQuery.filters ?? {};
+    const path = SORT_FIELD_PATHS[sort.field];
+    const constraints: QueryConstraint[] = [where('userId', '==', userId)];
+    if (reportQuery.patientId) constraints.push(where('patientId', '==', reportQuery.patientId));
+
+    if (sort.field === 'reportDate') {
+      if (filters.dateFrom) constraints.push(where(path, '>=', filters.dateFrom));
+      if (filters.dateTo) constraints.push(where(path, '<=', filters.dateTo));
+    } else if (sort.field === 'tsh') {
+      if (filters.tshMin != null) constraints.push(where(path, '>=', filters.tshMin));
+      if (filters.tshMax != null) constraints.push(where(path, '<=', filters.tshMax));
+    }
+    constraints.push(orderBy(path, sort.direction), orderBy(documentId(), sort.direction));
+
+    try {
+      const reports: StoredMedicalReport[] = [];
+      let cursor = reportQuery.cursor ?? null;
+      let exhausted = false;
+
+      for (let read = 0; read < MAX_QUERY_READS && reports.length < reportQuery.pageSize && !exhausted; read++) {
+        const snapshot = await getDocs(query(
+          collection(this.db, 'medicalReports'),
+          ...constraints,
+          ...(cursor ? [startAfter(this.toQueryValue(cursor, sort.field), cursor.id)] : []),
+          limit(reportQuery.pageSize)
+        ));
+        exhausted = snapshot.docs.length < reportQuery.pageSize;
+
+        for (const document of snapshot.docs) {
+          const stored = { id: document.id, ...document.data() } as StoredMedicalReport;
+          // Cursor from the stored values, which Firestore compares against
+          cursor = ReportQueries.cursorAt(stored, sort.field);
+          const report = StoredDocuments.withISODates(stored);
+          if (ReportQueries.matches(report, filters)) reports.push(report);
+          if (reports.length === reportQuery.pageSize) {
+            exhausted = exhausted && document === snapshot.docs[snapshot.docs.length - 1];
+            break;
+          }
+        }
+      }
+
+      return { reports, nextCursor: exhausted ? null : cursor };
+    } catch (error) {
+      console.error('Error querying medical reports:', error);
+      throw new Error('Failed to query medical reports');
+    }
+  }
+
+  // Cursors keep createdAt in ms; Firestore compares it as a Timestamp
+  private toQueryValue(cursor: MedicalReportCursor, field: MedicalReportSortField) {
+    return field === 'createdAt' && typeof cursor.value === 'number' ? Timestamp.fromMillis(cursor.value) : cursor.value;
+  }
+
+  async getMedicalReport(reportId: string): Promise<StoredMedicalReport | null> {
+    try {
+      const docSnap = await getDoc(doc(this.db, 'medicalReports', reportId));
+      
+      if (docSnap.exists()) {
+        return StoredDocuments.withISODates({
+          id: docSnap.id,
+          ...docSnap.data()
+        } as StoredMedicalReport);
+      } else {
+        return null;
+      }
+    } catch (error) {
+      console.error('Error getting medical report:', error);
+      throw new Error('Failed to get medical report');
+    }
+  }
+
+  async updateMedicalReport(
+    reportId: string, 
+    updates: Partial<StoredMedicalReport>
+  ): Promise<void> {
+    try {
+      await updateDoc(doc(this.db, 'medicalReports', reportId), {
+        ...updates,
+        updatedAt: Timestamp.now()
+      });
+    } catch (error) {
+      console.error('Error updating medical report:', error);
+      throw new Error('Failed to update medical report');
+    }
+  }
+
+  async deleteMedicalReport(reportId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(this.db, 'medicalReports', reportId));
+    } catch (error) {
+      console.error('Error deleting medical report:', error);
+      throw new Error('Failed to delete medical report');
+    }
+  }
+
+  // Lightweight summary document for offline sync uploads
+  async saveReportSummary(userId: string, summary: ReportSummaryPayload): Promise<string> {
+    try {
+      const docData = {
+        userId,
+        ...summary,
+        // Firestore rejects undefined values
+        patientId: summary.patientId ?? null,
+        T3: summary.T3 ?? null,
+        T4: summary.T4 ?? null,
+        FT3: summary.FT3 ?? null,
+        FT4: summary.FT4 ?? null,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now()
+      };
+      const docRef = await addDoc(collection(this.db, 'reportSummaries'), docData);
+      console.log('Collection: reportSummaries | Document ID:', docRef.id);
+      return docRef.id;
+    } catch (error) {
+      console.error('Error saving report summary:', error);
+      throw new Error('Failed to save report summary');
+    }
+  }
+
+  // Extraction Reviews Collection (extracted vs user-accepted values, to measure extractor accuracy)
+  async saveExtractionReview(userId: string, review: ExtractionReviewRecord): Promise<string> {
+    try {
+      const docRef = await addDoc(collection(this.db, 'extractionReviews'), {
+        userId,
+        ...review,
+        correctedCount: review.fields.filter(field => field.corrected).length,
+        fieldCount: review.fields.length,
+        createdAt: Timestamp.now()
+      });
+      return docRef.id;
+    } catch (error) {
+      console.error('Error saving extraction review:', error);
+      throw new Error('Failed to save extraction review');
+    }
+  }
+
+  // Titration Plans Collection (kept alongside the user's medical reports)
+  async saveTitrationPlan(
+    userId: string,
+    plan: TitrationPlan,
+    reportIds: string[] = []
+  ): Promise<string> {
+    try {
+      const planDoc: Omit<StoredTitrationPlan, 'id'> = {
+        ...StoredDocuments.cleanTitrationPlan(plan),
+        userId,
+        reportIds,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now()
+      };
+
+      const docRef = await addDoc(collection(this.db, 'titrationPlans'), planDoc);
+      return docRef.id;
+    } catch (error) {
+      console.error('Error saving titration plan:', error);
+      throw new Error('Failed to save titration plan');
+    }
+  }
+
+  async getActiveTitrationPlan(userId: string, patientId?: string | null): Promise<StoredTitrationPlan | null> {
+    try {
+      const q = query(
+        collection(this.db, 'titrationPlans'),
+        where('userId', '==', userId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const plans = querySnapshot.docs
+        .map(doc => ({
+          id: doc.id,
+          ...doc.data()
+        } as StoredTitrationPlan))
+        .filter(plan => !patientId || plan.patientId === patientId);
+
+      // Most recently updated plan is the active one
+      plans.sort((a, b) => (b.updatedAt?.toMillis() || 0) - (a.updatedAt?.toMillis() || 0));
+      return plans[0] ?? null;
+    } catch (error) {
+      console.error('Error getting titration plan:', error);
+      throw new Error('Failed to get titration plan');
+    }
+  }
+
+  async updateTitrationPlan(
+    planId: string,
+    plan: TitrationPlan,
+    reportIds: string[]
+  ): Promise<void> {
+    try {
+      await updateDoc(doc(this.db, 'titrationPlans', planId), {
+        ...StoredDocuments.cleanTitrationPlan(plan),
+        reportIds,
+        updatedAt: Timestamp.now()
+      });
+    } catch (error) {
+      console.error('Error updating titration plan:', error);
+      throw new Error('Failed to update titration plan');
+    }
+  }
+
+  // Reports are read with ISO dates already (see withISODates), so updatedAt is left alone
+  async migrateLegacyDates(userId: string): Promise<number> {
+    try {
+      const snapshot = await getDocs(query(collection(this.db, 'medicalReports'), where('userId', '==', userId)));
+      const updates = snapshot.docs.flatMap(document => {
+        const stored = document.data() as StoredMedicalReport;
+        const migrated = StoredDocuments.withISODates(stored);
+        const changed = migrated.uniqueKey !== stored.uniqueKey
+          || migrated.patientInfo.date !== (stored.patientInfo?.date ?? null)
+          || migrated.patientInfo.reportDate !== (stored.patientInfo?.reportDate ?? null);
+        if (!changed) return [];
+        return [{
+          ref: document.ref,
+          fields: {
+            ...(migrated.uniqueKey && { uniqueKey: migrated.uniqueKey }),
+            'patientInfo.date': migrated.patientInfo.date,
+            'patientInfo.reportDate': migrated.patientInfo.reportDate ?? null
+          }
+        }];
+      });
+      for (let start = 0; start < updates.length; start += MAX_BATCH_SIZE) {
+        const batch = writeBatch(this.db);
+        updates.slice(start, start + MAX_BATCH_SIZE).forEach(({ ref, fields }) => batch.update(ref, fields));
+        await batch.commit();
+      }
+      return updates.length;
+    } catch (error) {
+      console.error('Error migrating report dates:', error);
+      throw new Error('Failed to migrate report dates');
+    }
+  }
+
+  async assignToPatient(userId: string, patientId: string): Promise<number> {
+    try {
+      let assigned = 0;
+      for (const collectionName of ['medicalReports', 'reportSummaries', 'titrationPlans']) {
+        assigned += await assignUserDocuments(this.db, collectionName, userId, patientId);
+      }
+      return assigned;
+    } catch (error) {
+      console.error('Error assigning reports to patient:', error);
+      throw new Error('Failed to assign reports to patient');
+    }
+  }
+
+  async deleteAllForUser(userId: string): Promise<void> {
+    try {
+      for (const collectionName of ['medicalReports', 'reportSummaries', 'extractionReviews', 'titrationPlans']) {
+        await deleteUserDocuments(this.db, collectionName, userId);
+      }
+    } catch (error) {
+      console.error('Error deleting user reports:', error);
+      throw new Error('Failed to delete user reports');
+    }
+  }
+}
+
+/** Patient profiles and account documents in Firestore (or the Firestore emulator) */
+export class FirestoreProfileRepository implements ProfileRepository {
+  constructor(private readonly db: Firestore) {}
+
+  newPatientProfileId(): string {
+    return doc(collection(this.db, 'patientProfiles')).id;
+  }
+
+  async savePatientProfile(
+    userId: string, 
+    profile: PatientProfile,
+    profileId?: string,
+    patientId?: string | null
+  ): Promise<string> {
+    try {
+      const profileData: Omit<StoredPatientProfile, 'id'> = {
+        userId,
+        ...(patientId && { patientId }),
+        profile,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now()
+      };
+
+      if (profileId) {
+        await setDoc(doc(this.db, 'patientProfiles', profileId), profileData);
+        return profileId;
+      }
+      const docRef = await addDoc(collection(this.db, 'patientProfiles'), profileData);
+      return docRef.id;
+    } catch (error) {
+      console.error('Error saving patient profile:', error);
+      throw new Error('Failed to save patient profile');
+    }
+  }
+
+  async getPatientProfiles(userId: string): Promise<StoredPatientProfile[]> {
+    try {
+      const q = query(
+        collection(this.db, 'patientProfiles'),
+        where('userId', '==', userId),
+        orderBy('createdAt', 'desc')
+      );
+      
+      const querySnapshot = await getDocs(q);
+      return querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      } as StoredPatientProfile));
+    } catch (error) {
+      console.error('Error getting patient profiles:', error);
+      throw new Error('Failed to get patient profiles');
+    }
+  }
+
+  async updatePatientProfile(
+    profileId: string, 
+    updates: Partial<StoredPatientProfile>
+  ): Promise<void> {
+    try {
+      await updateDoc(doc(this.db, 'patientProfiles', profileId), {
+        ...updates,
+        updatedAt: Timestamp.now()
+      });
+    } catch (error) {
+      console.error('Error updating patient profile:', error);
+      throw new Error('Failed to update patient profile');
+    }
+  }
+
+  async deletePatientProfile(profileId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(this.db, 'patientProfiles', profileId));
+    } catch (error) {
+      console.error('Error deleting patient profile:', error);
+      throw new Error('Failed to delete patient profile');
+    }
+  }
+
+  async assignToPatient(userId: string, patientId: string): Promise<number> {
+    try {
+      return await assignUserDocuments(this.db, 'patientProfiles', userId, patientId);
+    } catch (error) {
+      console.error('Error assigning profiles to patient:', error);
+      throw new Error('Failed to assign profiles to patient');
+    }
+  }
+
+  async deleteAllForUser(userId: string): Promise<void> {
+    try {
+      await deleteUserDocuments(this.db, 'patientProfiles', userId);
+      await deleteDoc(doc(this.db, 'users', userId));
+    } catch (error) {
+      console.error('Error deleting user profiles:', error);
+      throw new Error('Failed to delete user profiles');
+    }
+  }
+}
+
+/** Patients tracked by each account, in Firestore (or the Firestore emulator) */
+export class FirestorePatientRepository implements PatientRepository {
+  constructor(private readonly db: Firestore) {}
+
+  newPatientId(): string {
+    return doc(collection(this.db, 'patients')).id;
+  }
+
+  async savePatient(userId: string, patient: Patient): Promise<void> {
+    try {
+      const patientData: Omit<StoredPatient, 'id'> = {
+        userId,
+        name: patient.name,
+        dateOfBirth: patient.dateOfBirth ?? null,
+        isDefault: patient.isDefault ?? false,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now()
+      };
+      await setDoc(doc(this.db, 'patients', patient.id), patientData);
+    } catch (error) {
+      console.error('Error saving patient:', error);
+      throw new Error('Failed to save patient');
+    }
+  }
+
+  async getPatients(userId: string): Promise<StoredPatient[]> {
+    try {
+      const querySnapshot = await getDocs(query(collection(this.db, 'patients'), where('userId', '==', userId)));
+      return querySnapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as StoredPatient))
+        .sort((a, b) => (a.createdAt?.toMillis() || 0) - (b.createdAt?.toMillis() || 0));
+    } catch (error) {
+      console.error('Error getting patients:', error);
+      throw new Error('Failed to get patients');
+    }
+  }
+
+  async deletePatient(patientId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(this.db, 'patients', patientId));
+    } catch (error) {
+      console.error('Error deleting patient:', error);
+      throw new Error('Failed to delete patient');
+    }
+  }
+
+  async deleteAllForUser(userId: string): Promise<void> {
+    try {
+      await deleteUserDocuments(this.db, 'patients', userId);
+    } catch (error) {
+      console.error('Error deleting patients:', error);
+      throw new Error('Failed to delete patients');
+    }
+  }
+}
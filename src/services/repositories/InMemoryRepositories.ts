@@ -0,0 +1,252 @@
+import { Timestamp } from 'firebase/firestore';
+import { MedicalReport, DosageRecommendation, Patient, PatientProfile, TitrationPlan } from '../../types/medical';
+import { ReportSummaryPayload } from '../../utils/reportSync';
+import {
+  ExtractionReviewRecord,
+  MedicalReportPage,
+  MedicalReportQuery,
+  PatientRepository,
+  ProfileRepository,
+  ReportRepository,
+  StoredMedicalReport,
+  StoredPatient,
+  StoredPatientProfile,
+  StoredTitrationPlan
+} from './types';
+import { StoredDocuments } from './StoredDocuments';
+import { ReportQueries } from './ReportQueries';
+
+type UserRecord = { userId: string; patientId?: string | null };
+
+function newId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function newestFirst<T extends { createdAt: Timestamp }>(records: T[]): T[] {
+  return records.sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+}
+
+function assignWhereUser<T extends UserRecord>(records: Map<string, T>, userId: string, patientId: string): number {
+  let assigned = 0;
+  for (const [id, record] of records) {
+    if (record.userId === userId && !record.patientId) {
+      records.set(id, { ...record, patientId });
+      assigned++;
+    }
+  }
+  return assigned;
+}
+
+function deleteWhereUser<T extends UserRecord>(records: Map<string, T>, userId: string): void {
+  for (const [id, record] of records) {
+    if (record.userId === userId) records.delete(id);
+  }
+}
+
+/**
+ * Reports kept in memory for this page load only. Used for local development without a
+ * Firebase project and for tests; behaves like the Firestore repository (including dedupe).
+ */
+export class InMemoryReportRepository implements ReportRepository {
+  private readonly reports = new Map<string, StoredMedicalReport>();
+  private readonly summaries = new Map<string, ReportSummaryPayload & UserRecord>();
+  private readonly reviews = new Map<string, ExtractionReviewRecord & UserRecord>();
+  private readonly plans = new Map<string, StoredTitrationPlan>();
+
+  newMedicalReportId(): string {
+    return newId('report');
+  }
+
+  async saveMedicalReport(
+    userId: string,
+    report: MedicalReport,
+    recommendation?: DosageRecommendation | null,
+    patientProfile?: PatientProfile,
+    reportId?: string,
+    patientId?: string | null
+  ): Promise<string> {
+    const reportData = StoredDocuments.buildStoredMedicalReport(userId, report, recommendation, patientProfile, patientId);
+    const existing = [...this.reports.values()].find(saved =>
+      saved.userId === userId && saved.uniqueKey === reportData.uniqueKey
+        && (!patientId || !saved.patientId || saved.patientId === patientId)
+    );
+    if (existing?.id) return existing.id;
+
+    const id = reportId ?? this.newMedicalReportId();
+    this.reports.set(id, { ...reportData, id });
+    return id;
+  }
+
+  async getMedicalReports(userId: string): Promise<StoredMedicalReport[]> {
+    return newestFirst([...this.reports.values()].filter(report => report.userId === userId).map(report => ({ ...report })));
+  }
+
+  async queryMedicalReports(userId: string, reportQuery: MedicalReportQuery): Promise<MedicalReportPage> {
+    return ReportQueries.page(await this.getMedicalReports(userId), reportQuery);
+  }
+
+  async getMedicalReport(reportId: string): Promise<StoredMedicalReport | null> {
+    const report = this.reports.get(reportId);
+    return report ? { ...report } : null;
+  }
+
+  async updateMedicalReport(reportId: string, updates: Partial<StoredMedicalReport>): Promise<void> {
+    const report = this.reports.get(reportId);
+    // Matches Firestore's updateDoc, which fails for a missing document
+    if (!report) throw new Error('Failed to update medical report');
+    this.reports.set(reportId, { ...report, ...updates, id: reportId, updatedAt: Timestamp.now() });
+  }
+
+  async deleteMedicalReport(reportId: string): Promise<void> {
+    this.reports.delete(reportId);
+  }
+
+  async saveReportSummary(userId: string, summary: ReportSummaryPayload): Promise<string> {
+    const id = newId('summary');
+    this.summaries.set(id, { ...summary, userId });
+    return id;
+  }
+
+  async saveExtractionReview(userId: string, review: ExtractionReviewRecord): Promise<string> {
+    const id = newId('review');
+    this.reviews.set(id, { ...review, userId });
+    return id;
+  }
+
+  async saveTitrationPlan(userId: string, plan: TitrationPlan, reportIds: string[] = []): Promise<string> {
+    const id = newId('plan');
+    const now = Timestamp.now();
+    this.plans.set(id, {
+      ...StoredDocuments.cleanTitrationPlan(plan),
+      id,
+      userId,
+      reportIds,
+      createdAt: now,
+      updatedAt: now
+    });
+    return id;
+  }
+
+  async getActiveTitrationPlan(userId: string, patientId?: string | null): Promise<StoredTitrationPlan | null> {
+    const plans = [...this.plans.values()]
+      .filter(plan => plan.userId === userId && (!patientId || plan.patientId === patientId))
+      .sort((a, b) => b.updatedAt.toMillis() - a.updatedAt.toMillis());
+    return plans[0] ? { ...plans[0] } : null;
+  }
+
+  async updateTitrationPlan(planId: string, plan: TitrationPlan, reportIds: string[]): Promise<void> {
+    const stored = this.plans.get(planId);
+    if (!stored) throw new Error('Failed to update titration plan');
+    this.plans.set(planId, {
+      ...stored,
+      ...StoredDocuments.cleanTitrationPlan(plan),
+      reportIds,
+      updatedAt: Timestamp.now()
+    });
+  }
+
+  async migrateLegacyDates(userId: string): Promise<number> {
+    let migrated = 0;
+    for (const [id, report] of this.reports) {
+      if (report.userId !== userId) continue;
+      const withISODates = StoredDocuments.withISODates(report);
+      if (JSON.stringify(withISODates.patientInfo) === JSON.stringify(report.patientInfo)
+        && withISODates.uniqueKey === report.uniqueKey) continue;
+      this.reports.set(id, withISODates);
+      migrated++;
+    }
+    return migrated;
+  }
+
+  async assignToPatient(userId: string, patientId: string): Promise<number> {
+    return assignWhereUser(this.reports, userId, patientId)
+      + assignWhereUser(this.summaries, userId, patientId)
+      + assignWhereUser(this.plans, userId, patientId);
+  }
+
+  async deleteAllForUser(userId: string): Promise<void> {
+    deleteWhereUser(this.reports, userId);
+    deleteWhereUser(this.summaries, userId);
+    deleteWhereUser(this.reviews, userId);
+    deleteWhereUser(this.plans, userId);
+  }
+}
+
+/** Patient profiles kept in memory for this page load only (see InMemoryReportRepository) */
+export class InMemoryProfileRepository implements ProfileRepository {
+  private readonly profiles = new Map<string, StoredPatientProfile>();
+
+  newPatientProfileId(): string {
+    return newId('profile');
+  }
+
+  async savePatientProfile(
+    userId: string,
+    profile: PatientProfile,
+    profileId?: string,
+    patientId?: string | null
+  ): Promise<string> {
+    const id = profileId ?? this.newPatientProfileId();
+    const now = Timestamp.now();
+    this.profiles.set(id, { id, userId, ...(patientId && { patientId }), profile, createdAt: now, updatedAt: now });
+    return id;
+  }
+
+  async getPatientProfiles(userId: string): Promise<StoredPatientProfile[]> {
+    return newestFirst([...this.profiles.values()].filter(profile => profile.userId === userId).map(profile => ({ ...profile })));
+  }
+
+  async updatePatientProfile(profileId: string, updates: Partial<StoredPatientProfile>): Promise<void> {
+    const profile = this.profiles.get(profileId);
+    if (!profile) throw new Error('Failed to update patient profile');
+    this.profiles.set(profileId, { ...profile, ...updates, id: profileId, updatedAt: Timestamp.now() });
+  }
+
+  async deletePatientProfile(profileId: string): Promise<void> {
+    this.profiles.delete(profileId);
+  }
+
+  async assignToPatient(userId: string, patientId: string): Promise<number> {
+    return assignWhereUser(this.profiles, userId, patientId);
+  }
+
+  async deleteAllForUser(userId: string): Promise<void> {
+    deleteWhereUser(this.profiles, userId);
+  }
+}
+
+/** Patients kept in memory for this page load only (see InMemoryReportRepository) */
+export class InMemoryPatientRepository implements PatientRepository {
+  private readonly patients = new Map<string, StoredPatient>();
+
+  newPatientId(): string {
+    return newId('patient');
+  }
+
+  async savePatient(userId: string, patient: Patient): Promise<void> {
+    const now = Timestamp.now();
+    this.patients.set(patient.id, {
+      ...patient,
+      dateOfBirth: patient.dateOfBirth ?? null,
+      isDefault: patient.isDefault ?? false,
+      userId,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  async getPatients(userId: string): Promise<StoredPatient[]> {
+    return [...this.patients.values()]
+      .filter(patient => patient.userId === userId)
+      .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis())
+      .map(patient => ({ ...patient }));
+  }
+
+  async deletePatient(patientId: string): Promise<void> {
+    this.patients.delete(patientId);
+  }
+
+  async deleteAllForUser(userId: string): Promise<void> {
+    deleteWhereUser(this.patients, userId);
+  }
+}
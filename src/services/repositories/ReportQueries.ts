@@ -0,0 +1,117 @@
+import {
+  MedicalReportCursor,
+  MedicalReportFilters,
+  MedicalReportPage,
+  MedicalReportQuery,
+  MedicalReportSort,
+  MedicalReportSortField,
+  ReportCondition,
+  StoredMedicalReport,
+  StoredTestResult
+} from './types';
+
+export const DEFAULT_REPORT_SORT: MedicalReportSort = { field: 'createdAt', direction: 'desc' };
+
+export const CONDITION_TSH_STATUS: Record<ReportCondition, StoredTestResult['status']> = {
+  hypothyroid: 'high',
+  hyperthyroid: 'low',
+  euthyroid: 'normal'
+};
+
+type SortValue = string | number | null;
+
+/**
+ * Report queries applied to reports held in memory (the in-memory repository, the device's copy and
+ * the filters Firestore does not run itself). Ordering follows Firestore: nulls first, then by id.
+ */
+export class ReportQueries {
+  static sortValue(report: StoredMedicalReport, field: MedicalReportSortField): SortValue {
+    switch (field) {
+      case 'createdAt':
+        return report.createdAt ? report.createdAt.seconds * 1000 + Math.floor(report.createdAt.nanoseconds / 1e6) : null;
+      case 'reportDate':
+        return report.patientInfo?.date ?? null;
+      case 'tsh':
+        return report.testResults?.TSH?.value ?? null;
+    }
+  }
+
+  static matches(report: StoredMedicalReport, filters: MedicalReportFilters = {}): boolean {
+    const date = report.patientInfo?.date ?? null;
+    if (filters.dateFrom && (!date || date < filters.dateFrom)) return false;
+    if (filters.dateTo && (!date || date > filters.dateTo)) return false;
+
+    const tsh = report.testResults?.TSH;
+    if (filters.condition && tsh?.status !== CONDITION_TSH_STATUS[filters.condition]) return false;
+    if (filters.tshMin != null && (tsh?.value == null || tsh.value < filters.tshMin)) return false;
+    if (filters.tshMax != null && (tsh?.value == null || tsh.value > filters.tshMax)) return false;
+
+    if (filters.medication && report.dosageRecommendation?.medication !== filters.medication) return false;
+    return true;
+  }
+
+  static compare(a: StoredMedicalReport, b: StoredMedicalReport, sort: MedicalReportSort): number {
+    return this.compareKeys(
+      [this.sortValue(a, sort.field), a.id ?? ''],
+      [this.sortValue(b, sort.field), b.id ?? ''],
+      sort.direction
+    );
+  }
+
+  /** Reports matching the filters, in order; sorting by TSH leaves out reports without one (as Firestore does) */
+  static filterAndSort(
+    reports: StoredMedicalReport[],
+    filters: MedicalReportFilters = {},
+    sort: MedicalReportSort = DEFAULT_REPORT_SORT
+  ): StoredMedicalReport[] {
+    return reports
+      .filter(report => this.matches(report, filters) && (sort.field !== 'tsh' || this.sortValue(report, 'tsh') !== null))
+      .sort((a, b) => this.compare(a, b, sort));
+  }
+
+  static page(reports: StoredMedicalReport[], reportQuery: MedicalReportQuery): MedicalReportPage {
+    const sort = reportQuery.sort ?? DEFAULT_REPORT_SORT;
+    const cursor = reportQuery.cursor;
+    const patientReports = reportQuery.patientId
+      ? reports.filter(report => report.patientId === reportQuery.patientId)
+      : reports;
+    const remaining = this.filterAndSort(patientReports, reportQuery.filters, sort)
+      .filter(report => !cursor || this.isAfterCursor(report, cursor, sort));
+    const pageReports = remaining.slice(0, reportQuery.pageSize);
+    const last = pageReports[pageReports.length - 1];
+
+    return {
+      reports: pageReports,
+      nextCursor: remaining.length > pageReports.length && last ? this.cursorAt(last, sort.field) : null
+    };
+  }
+
+  static cursorAt(report: StoredMedicalReport, field: MedicalReportSortField): MedicalReportCursor {
+    return { value: this.sortValue(report, field), id: report.id ?? '' };
+  }
+
+  static isAfterCursor(report: StoredMedicalReport, cursor: MedicalReportCursor, sort: MedicalReportSort): boolean {
+    return this.compareKeys([this.sortValue(report, sort.field), report.id ?? ''], [cursor.value, cursor.id], sort.direction) > 0;
+  }
+
+  static hasFilters(filters: MedicalReportFilters): boolean {
+    return Object.values(filters).some(value => value !== null && value !== undefined && value !== '');
+  }
+
+  private static compareKeys(
+    [aValue, aId]: [SortValue, string],
+    [bValue, bId]: [SortValue, string],
+    direction: MedicalReportSort['direction']
+  ): number {
+    const byValue = this.compareValues(aValue, bValue);
+    const result = byValue !== 0 ? byValue : aId < bId ? -1 : aId > bId ? 1 : 0;
+    return direction === 'asc' ? result : -result;
+  }
+
+  private static compareValues(a: SortValue, b: SortValue): number {
+    if (a === b) return 0;
+    if (a === null) return -1;
+    if (b === null) return 1;
+    return a < b ? -1 : 1;
+  }
+}
@@ -0,0 +1,191 @@
+import { Timestamp } from 'firebase/firestore';
+import { MedicalReport, DosageRecommendation, PatientProfile, TestResult, TitrationPlan, TitrationStep } from '../../types/medical';
+import { UnitConverter } from '../../utils/converters/unitConverter';
+import { DateParser } from '../../utils/dateParser';
+import { StoredMedicalReport, StoredTestResult, StoredTitrationPlan } from './types';
+
+/** Builds and reads the stored document shapes; shared by every repository implementation */
+export class StoredDocuments {
+  /**
+   * The document stored for a report: essential test data, the recommendation and profile without
+   * undefined values (Firestore rejects them) and the uniqueKey used to skip duplicates.
+   */
+  static buildStoredMedicalReport(
+    userId: string,
+    report: MedicalReport,
+    recommendation?: DosageRecommendation | null,
+    patientProfile?: PatientProfile,
+    patientId?: string | null
+  ): Omit<StoredMedicalReport, 'id'> {
+    // Extract only essential test data
+    const testResults: StoredMedicalReport['testResults'] = {};
+    
+    if (report.tests.TSH) {
+      testResults.TSH = this.toStoredTestResult(report.tests.TSH, 'mIU/L');
+    }
+    
+    if (report.tests.T3) {
+      testResults.T3 = this.toStoredTestResult(report.tests.T3, 'ng/dl');
+    }
+    
+    if (report.tests.T4) {
+      testResults.T4 = this.toStoredTestResult(report.tests.T4, 'μg/dl');
+    }
+    
+    if (report.tests.FT3) {
+      testResults.FT3 = this.toStoredTestResult(report.tests.FT3, 'pg/ml');
+    }
+    
+    if (report.tests.FT4) {
+      testResults.FT4 = this.toStoredTestResult(report.tests.FT4, 'ng/dl');
+    }
+
+    if (report.tests.AntiTPO) {
+      testResults.AntiTPO = this.toStoredTestResult(report.tests.AntiTPO, 'IU/mL');
+    }
+
+    if (report.tests.AntiTG) {
+      testResults.AntiTG = this.toStoredTestResult(report.tests.AntiTG, 'IU/mL');
+    }
+
+    // Clean the recommendation data to remove undefined values
+    const cleanRecommendation = recommendation ? {
+      medication: recommendation.medication,
+      // Store nearest integer dosage only
+      dosage: Math.round(recommendation.dosage),
+      unit: recommendation.unit,
+      frequency: recommendation.frequency,
+      reasoning: recommendation.reasoning,
+      severity: recommendation.severity,
+      followUpWeeks: recommendation.followUpWeeks,
+      ...(recommendation.referenceRangesUsed?.length && { referenceRangesUsed: recommendation.referenceRangesUsed }),
+      ...(recommendation.adjunctMedications?.length && { adjunctMedications: recommendation.adjunctMedications }),
+      ...(recommendation.thyroidPattern && { thyroidPattern: recommendation.thyroidPattern }),
+    } : null;
+
+    // Clean patient info to remove undefined values
+    const cleanPatientInfo = {
+      name: report.patientInfo.name || null,
+      age: report.patientInfo.age || null,
+      gender: report.patientInfo.gender || null,
+      date: DateParser.toISO(report.patientInfo.date),
+      weightKg: patientProfile?.weightKg ?? null,
+      reportDate: DateParser.toISO(patientProfile?.reportDate)
+    };
+
+    // Clean patient profile data if provided
+    const cleanPatientProfile = patientProfile ? {
+      weightKg: patientProfile.weightKg ?? null,
+      ...(patientProfile.age === 0 && patientProfile.ageMonths != null && { ageMonths: patientProfile.ageMonths }),
+      isPregnant: patientProfile.isPregnant ?? false,
+      ...(patientProfile.trimester !== undefined && patientProfile.trimester !== null && { trimester: patientProfile.trimester }),
+      hasHighRiskHeartDisease: patientProfile.hasHighRiskHeartDisease ?? false,
+      hasLowRiskHeartDisease: patientProfile.hasLowRiskHeartDisease ?? false,
+      hasOsteoporosis: patientProfile.hasOsteoporosis ?? false,
+      hasAdrenalInsufficiency: patientProfile.hasAdrenalInsufficiency ?? false,
+      hasGIAbsorptionIssues: patientProfile.hasGIAbsorptionIssues ?? false,
+      onEstrogenTherapy: patientProfile.onEstrogenTherapy ?? false,
+      ...(patientProfile.coMedications?.length && { coMedications: patientProfile.coMedications }),
+      hasMethimazoleIntolerance: patientProfile.hasMethimazoleIntolerance ?? false,
+      hasAsthma: patientProfile.hasAsthma ?? false,
+      hasCOPD: patientProfile.hasCOPD ?? false,
+      hasLiverDisease: patientProfile.hasLiverDisease ?? false,
+      ...(patientProfile.liverDiseaseType !== undefined && patientProfile.liverDiseaseType !== null && { liverDiseaseType: patientProfile.liverDiseaseType }),
+      hasKidneyDisease: patientProfile.hasKidneyDisease ?? false,
+      ...(patientProfile.kidneyDiseaseStage !== undefined && patientProfile.kidneyDiseaseStage !== null && { kidneyDiseaseStage: patientProfile.kidneyDiseaseStage }),
+      ...(patientProfile.currentDose !== undefined && patientProfile.currentDose !== null && { currentDose: patientProfile.currentDose }),
+      hasHypothyroidDiagnosis: patientProfile.hasHypothyroidDiagnosis ?? false,
+      ...(patientProfile.symptoms && { symptoms: patientProfile.symptoms }),
+      ...(patientProfile.otherIssues !== undefined && patientProfile.otherIssues !== null && { otherIssues: patientProfile.otherIssues })
+    } : undefined;
+
+    return {
+      userId,
+      ...(patientId && { patientId }),
+      uniqueKey: this.buildUniqueKey(userId, report),
+      patientInfo: cleanPatientInfo,
+      patientProfile: cleanPatientProfile,
+      testResults,
+      dosageRecommendation: cleanRecommendation,
+      // Stop storing condition explicitly to avoid showing it in UI
+      // condition: condition || '',
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now()
+    };
+  }
+
+  // Build a deterministic unique key based on metadata and core values
+  static buildUniqueKey(userId: string, report: MedicalReport): string {
+    const date = DateParser.toISO(report.patientInfo.date) || '';
+    const name = report.patientInfo.name || '';
+    const tsh = report.tests.TSH?.value || '';
+    // Manual entries get a timestamp so each one is kept
+    const isManualEntry = !report.rawText || report.rawText.includes('Manual entry');
+    return isManualEntry
+      ? `${userId}|${date}|${name}|${tsh}|${Date.now()}`
+      : `${userId}|${date}|${name}|${tsh}`;
+  }
+
+  private static toStoredTestResult(test: TestResult, defaultUnits: string): StoredTestResult {
+    return {
+      value: test.value,
+      units: test.units || defaultUnits,
+      status: test.status || 'normal',
+      ...(UnitConverter.wasConverted(test) && test.originalValue != null && {
+        originalValue: test.originalValue,
+        originalUnits: test.originalUnits as string
+      })
+    };
+  }
+
+  // Older reports stored dates as printed or as "Jan 15, 2024"
+  static withISODates(report: StoredMedicalReport): StoredMedicalReport {
+    if (!report.patientInfo) return report;
+    const { date, reportDate } = report.patientInfo;
+    return {
+      ...report,
+      uniqueKey: this.withISOUniqueKey(report.uniqueKey),
+      patientInfo: {
+        ...report.patientInfo,
+        date: DateParser.toISO(date) ?? date ?? null,
+        reportDate: DateParser.toISO(reportDate) ?? reportDate ?? null
+      }
+    };
+  }
+
+  /** Keys saved before ISO dates hold the date as printed, so the same report uploaded again would not match them */
+  static withISOUniqueKey(uniqueKey: string | undefined): string | undefined {
+    if (!uniqueKey) return uniqueKey;
+    const [userId, date, ...rest] = uniqueKey.split('|');
+    if (date === undefined) return uniqueKey;
+    return [userId, DateParser.toISO(date) ?? date, ...rest].join('|');
+  }
+
+  static toTitrationPlan(stored: StoredTitrationPlan): TitrationPlan {
+    return {
+      id: stored.id,
+      ...this.cleanTitrationPlan(stored),
+      createdAt: stored.createdAt?.toDate().toISOString() ?? new Date().toISOString(),
+      updatedAt: stored.updatedAt?.toDate().toISOString() ?? new Date().toISOString()
+    };
+  }
+
+  // Firestore rejects undefined values, so copy only the plan fields that are set
+  static cleanTitrationPlan(plan: Omit<TitrationPlan, 'createdAt' | 'updatedAt'>) {
+    return {
+      ...(plan.patientId && { patientId: plan.patientId }),
+      medication: plan.medication,
+      status: plan.status,
+      targetTSH: { low: plan.targetTSH.low, high: plan.targetTSH.high },
+      maxStepMcg: plan.maxStepMcg,
+      ...(plan.stepLimitReason && { stepLimitReason: plan.stepLimitReason }),
+      goalDose: plan.goalDose,
+      steps: plan.steps.map(step => JSON.parse(JSON.stringify(step)) as TitrationStep),
+      labHistory: plan.labHistory.map(lab => ({
+        date: lab.date,
+        tsh: lab.tsh,
+        reportId: lab.reportId ?? null
+      }))
+    };
+  }
+}
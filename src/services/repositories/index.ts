@@ -0,0 +1,52 @@
+import { APP_CONFIG } from '../../config/app.config';
+import { db } from '../../firebase/config';
+import { connectToEmulators } from '../../firebase/emulators';
+import { FirestorePatientRepository, FirestoreProfileRepository, FirestoreReportRepository } from './FirestoreRepositories';
+import { InMemoryPatientRepository, InMemoryProfileRepository, InMemoryReportRepository } from './InMemoryRepositories';
+import { Repositories } from './types';
+
+export * from './types';
+export { StoredDocuments } from './StoredDocuments';
+export { ReportQueries, DEFAULT_REPORT_SORT, CONDITION_TSH_STATUS } from './ReportQueries';
+export { FirestorePatientRepository, FirestoreProfileRepository, FirestoreReportRepository } from './FirestoreRepositories';
+export { InMemoryPatientRepository, InMemoryProfileRepository, InMemoryReportRepository } from './InMemoryRepositories';
+
+let repositories: Repositories | null = null;
+
+function createFirestoreRepositories(): Repositories {
+  return {
+    reports: new FirestoreReportRepository(db),
+    profiles: new FirestoreProfileRepository(db),
+    patients: new FirestorePatientRepository(db)
+  };
+}
+
+function createRepositories(): Repositories {
+  switch (APP_CONFIG.storage.backend) {
+    case 'memory':
+      console.warn('Using in-memory storage: saved data is lost on reload');
+      return {
+        reports: new InMemoryReportRepository(),
+        profiles: new InMemoryProfileRepository(),
+        patients: new InMemoryPatientRepository()
+      };
+    case 'emulator':
+      connectToEmulators();
+      return createFirestoreRepositories();
+    default:
+      return createFirestoreRepositories();
+  }
+}
+
+/** Repositories for APP_CONFIG.storage.backend, created on first use */
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories = createRepositories();
+  }
+  return repositories;
+}
+
+/** Replace the configured repositories (e.g. with in-memory ones in tests) */
+export function setRepositories(replacement: Repositories): void {
+  repositories = replacement;
+}
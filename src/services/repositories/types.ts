@@ -0,0 +1,240 @@
+import { Timestamp } from 'firebase/firestore';
+import { CoMedication, ExtractionFieldReview, MedicalReport, DosageRecommendation, Patient, PatientProfile, TitrationPlan } from '../../types/medical';
+import { ReportSummaryPayload } from '../../utils/reportSync';
+
+export interface StoredTestResult {
+  value: number;
+  units: string;
+  status: 'normal' | 'high' | 'low';
+  /** Value and units as printed on the report, when they differ from the internal units */
+  originalValue?: number;
+  originalUnits?: string;
+}
+
+export interface StoredMedicalReport {
+  id?: string;
+  userId: string;
+  /** Missing on reports saved before patients were introduced, until they are moved to the default patient */
+  patientId?: string;
+  uniqueKey?: string; // to dedupe same report
+  patientInfo: {
+    name: string | null;
+    age: number | null;
+    gender: 'Male' | 'Female' | null;
+    /** ISO (YYYY-MM-DD); reports saved before ISO dates are converted when read */
+    date: string | null;
+    weightKg?: number | null;
+    /** ISO (YYYY-MM-DD) */
+    reportDate?: string | null;
+  };
+  patientProfile?: {
+    weightKg: number | null;
+    ageMonths?: number;
+    isPregnant: boolean;
+    trimester?: 1 | 2 | 3 | null;
+    hasHighRiskHeartDisease?: boolean;
+    hasLowRiskHeartDisease?: boolean;
+    hasOsteoporosis: boolean;
+    hasAdrenalInsufficiency: boolean;
+    hasGIAbsorptionIssues: boolean;
+    onEstrogenTherapy: boolean;
+    coMedications?: CoMedication[];
+    hasMethimazoleIntolerance?: boolean;
+    hasAsthma?: boolean;
+    hasCOPD?: boolean;
+    hasLiverDisease?: boolean;
+    liverDiseaseType?: 'cirrhosis' | 'cholestatic' | 'nafld' | 'hepatitis' | 'post_transplant' | 'other' | null;
+    hasKidneyDisease?: boolean;
+    kidneyDiseaseStage?: 'Stage 1' | 'Stage 2' | 'Stage 3' | 'Stage 4' | 'Stage 5' | 'ESRD' | 'Post-Transplant' | 'other' | null;
+    currentDose?: number | null;
+    hasHypothyroidDiagnosis?: boolean;
+    symptoms?: {
+      headache?: boolean;
+      anxiousOrRestless?: boolean;
+      palpitations?: boolean;
+      tremor?: boolean;
+    };
+    otherIssues?: string | null;
+  };
+  testResults: {
+    TSH?: StoredTestResult;
+    T3?: StoredTestResult;
+    T4?: StoredTestResult;
+    FT3?: StoredTestResult;
+    FT4?: StoredTestResult;
+    AntiTPO?: StoredTestResult;
+    AntiTG?: StoredTestResult;
+  };
+  dosageRecommendation?: DosageRecommendation | null;
+  condition?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  /** Set on the device's copy while the save is still waiting in the outbox; never stored in Firestore */
+  pendingSync?: boolean;
+}
+
+export interface StoredPatientProfile {
+  id?: string;
+  userId: string;
+  /** Missing on profiles saved before patients were introduced (see StoredMedicalReport) */
+  patientId?: string;
+  profile: PatientProfile;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  /** Set on the device's copy while the save is still waiting in the outbox; never stored in Firestore */
+  pendingSync?: boolean;
+}
+
+export interface StoredTitrationPlan extends Omit<TitrationPlan, 'createdAt' | 'updatedAt'> {
+  id?: string;
+  userId: string;
+  /** Saved medical reports whose TSH results fed into this plan */
+  reportIds: string[];
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface StoredPatient extends Omit<Patient, 'id'> {
+  id?: string;
+  userId: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  /** Set on the device's copy while the save is still waiting in the outbox; never stored in Firestore */
+  pendingSync?: boolean;
+}
+
+/** Extracted vs user-accepted values for one report, to measure extractor accuracy */
+export interface ExtractionReviewRecord {
+  labName: string | null;
+  assay: string | null;
+  templateId: string | null;
+  ocr: boolean;
+  fields: ExtractionFieldReview[];
+}
+
+/** Report condition by TSH status: high TSH = hypothyroid, low = hyperthyroid */
+export type ReportCondition = 'hypothyroid' | 'hyperthyroid' | 'euthyroid';
+
+export interface MedicalReportFilters {
+  /** ISO (YYYY-MM-DD) bounds on the report date (patientInfo.date), inclusive */
+  dateFrom?: string | null;
+  dateTo?: string | null;
+  condition?: ReportCondition | null;
+  /** Recommended medication, e.g. 'Levothyroxine' */
+  medication?: string | null;
+  /** TSH bounds in mIU/L, inclusive */
+  tshMin?: number | null;
+  tshMax?: number | null;
+}
+
+/** createdAt: date saved; reportDate: patientInfo.date; tsh: TSH value (reports without TSH are left out) */
+export type MedicalReportSortField = 'createdAt' | 'reportDate' | 'tsh';
+
+export interface MedicalReportSort {
+  field: MedicalReportSortField;
+  direction: 'asc' | 'desc';
+}
+
+/** Position after the last report read; plain data, so it can be kept in state or a URL */
+export interface MedicalReportCursor {
+  /** Sort value of that report (createdAt in ms) */
+  value: string | number | null;
+  id: string;
+}
+
+export interface MedicalReportQuery {
+  /** Only this patient's reports; all of the user's reports when omitted */
+  patientId?: string | null;
+  filters?: MedicalReportFilters;
+  /** Newest saved first by default */
+  sort?: MedicalReportSort;
+  pageSize: number;
+  /** nextCursor of the previous page; null or omitted for the first page */
+  cursor?: MedicalReportCursor | null;
+}
+
+export interface MedicalReportPage {
+  /** Up to pageSize reports; fewer does not mean the end (see nextCursor) */
+  reports: StoredMedicalReport[];
+  /** Null once there are no more reports to read */
+  nextCursor: MedicalReportCursor | null;
+}
+
+/**
+ * Persistence for medical reports and the records derived from them (summaries, extraction
+ * reviews, titration plans). Implemented for Firestore (also used against the emulator) and in memory.
+ */
+export interface ReportRepository {
+  /** Id for a new report, so a local copy can be kept under the same id before it is saved */
+  newMedicalReportId(): string;
+  /**
+   * Save a report unless the patient already has one with the same uniqueKey; returns the id it is stored under.
+   * @param reportId id from newMedicalReportId; a new id is generated when omitted
+   */
+  saveMedicalReport(
+    userId: string,
+    report: MedicalReport,
+    recommendation?: DosageRecommendation | null,
+    patientProfile?: PatientProfile,
+    reportId?: string,
+    patientId?: string | null
+  ): Promise<string>;
+  /** The user's reports, newest first */
+  getMedicalReports(userId: string): Promise<StoredMedicalReport[]>;
+  /** One page of the user's reports matching the filters, in the requested order */
+  queryMedicalReports(userId: string, reportQuery: MedicalReportQuery): Promise<MedicalReportPage>;
+  getMedicalReport(reportId: string): Promise<StoredMedicalReport | null>;
+  updateMedicalReport(reportId: string, updates: Partial<StoredMedicalReport>): Promise<void>;
+  deleteMedicalReport(reportId: string): Promise<void>;
+
+  saveReportSummary(userId: string, summary: ReportSummaryPayload): Promise<string>;
+  saveExtractionReview(userId: string, review: ExtractionReviewRecord): Promise<string>;
+
+  /** The plan's patientId says who it is for */
+  saveTitrationPlan(userId: string, plan: TitrationPlan, reportIds?: string[]): Promise<string>;
+  /** The patient's most recently updated plan, or null */
+  getActiveTitrationPlan(userId: string, patientId?: string | null): Promise<StoredTitrationPlan | null>;
+  updateTitrationPlan(planId: string, plan: TitrationPlan, reportIds: string[]): Promise<void>;
+
+  /** Rewrite the dates (and uniqueKeys) of the user's reports saved before ISO dates; returns how many */
+  migrateLegacyDates(userId: string): Promise<number>;
+  /** Give the user's reports, summaries and plans saved before patients existed to the patient; returns how many */
+  assignToPatient(userId: string, patientId: string): Promise<number>;
+  /** Delete everything above that belongs to the user (account deletion) */
+  deleteAllForUser(userId: string): Promise<void>;
+}
+
+/** Persistence for saved patient profiles and the user's account document */
+export interface ProfileRepository {
+  /** Id for a new profile, so a local copy can be kept under the same id before it is saved */
+  newPatientProfileId(): string;
+  /** @param profileId id from newPatientProfileId; a new id is generated when omitted */
+  savePatientProfile(userId: string, profile: PatientProfile, profileId?: string, patientId?: string | null): Promise<string>;
+  /** The user's profiles, newest first */
+  getPatientProfiles(userId: string): Promise<StoredPatientProfile[]>;
+  updatePatientProfile(profileId: string, updates: Partial<StoredPatientProfile>): Promise<void>;
+  deletePatientProfile(profileId: string): Promise<void>;
+
+  /** Give the user's profiles saved before patients existed to the patient; returns how many */
+  assignToPatient(userId: string, patientId: string): Promise<number>;
+  /** Delete the user's profiles and account document (account deletion) */
+  deleteAllForUser(userId: string): Promise<void>;
+}
+
+/** Persistence for the patients an account tracks */
+export interface PatientRepository {
+  /** Id for a new patient, so a local copy can be kept under the same id before it is saved */
+  newPatientId(): string;
+  /** Create the patient under patient.id */
+  savePatient(userId: string, patient: Patient): Promise<void>;
+  /** The user's patients, oldest first */
+  getPatients(userId: string): Promise<StoredPatient[]>;
+  deletePatient(patientId: string): Promise<void>;
+  deleteAllForUser(userId: string): Promise<void>;
+}
+
+export interface Repositories {
+  reports: ReportRepository;
+  profiles: ProfileRepository;
+  patients: PatientRepository;
+}
@@ -2,9 +2,28 @@ export interface PatientInfo {
   name: string | null;
   age: number | null;
   gender: 'Male' | 'Female' | null;
+  /** ISO date (YYYY-MM-DD) */
   date: string | null;
 }
 
+/** Order of day, month and year in a numeric date such as 03/04/2025 */
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+/** A report date converted to ISO, with how its day / month order was decided */
+export interface ParsedDate {
+  /** YYYY-MM-DD */
+  iso: string;
+  /**
+   * unambiguous: ISO, month name, equal day and month, or a part above 12
+   * template: the lab template's date order
+   * document: another date on the same report had a part above 12
+   * locale: only the user's date format setting decided it
+   */
+  resolvedBy: 'unambiguous' | 'template' | 'document' | 'locale';
+  /** The day and month could have been swapped; the user should check it */
+  ambiguous: boolean;
+}
+
 export interface TestResult {
   label: string;
   value: number;
@@ -14,6 +33,160 @@ export interface TestResult {
     high: number;
   } | null;
   status?: 'normal' | 'high' | 'low';
+  /** Value as printed on the report, before conversion to internal units */
+  originalValue?: number;
+  /** Units as printed on the report (e.g. pmol/L) */
+  originalUnits?: string | null;
+  /** True when the report gave no units and they were inferred from the value */
+  unitsInferred?: boolean;
+  /** Whether refRange was printed on the report or filled in from defaults */
+  refRangeSource?: 'report' | 'default';
+  /** OCR confidence (0-100) of the printed value when the page was scanned */
+  ocrConfidence?: number;
+  /** True when the OCR reading is uncertain and the user must confirm the value */
+  lowConfidence?: boolean;
+  /** How the value was read and how far it can be trusted */
+  extraction?: FieldExtraction;
+}
+
+/** Confidence and provenance of one field read from a report */
+export interface FieldExtraction {
+  /** 0-1 */
+  confidence: number;
+  /** Report text the value was read from */
+  snippet: string | null;
+  method: 'table' | 'pattern' | 'alternative_pattern';
+  /** Reasons the confidence was lowered */
+  issues: string[];
+}
+
+export type ExtractedFieldName = keyof PatientInfo | ThyroidTestName | AntibodyTestName | 'currentDose';
+
+/** A thyroid medication and dose mentioned in the clinical notes of a report */
+export interface DetectedMedication {
+  medication: 'Levothyroxine' | 'Methimazole';
+  /** Brand as printed (e.g. Thyronorm); null when the generic name was used */
+  brand: string | null;
+  /** Daily dose: mcg for levothyroxine, mg for methimazole */
+  dailyDose: number;
+  unit: 'mcg' | 'mg';
+  extraction: FieldExtraction;
+  /** Set when the user confirmed it on the review screen; only a confirmed dose pre-fills the profile */
+  confirmed?: boolean;
+}
+
+/** One field as extracted and as accepted by the user on the review screen */
+export interface ExtractionFieldReview {
+  field: ExtractedFieldName;
+  extractedValue: string | number | null;
+  finalValue: string | number | null;
+  corrected: boolean;
+  confidence: number | null;
+  method: FieldExtraction['method'] | null;
+}
+
+/** A word recognised by OCR on a scanned page */
+export interface OCRWord {
+  text: string;
+  /** 0-100 */
+  confidence: number;
+  page: number;
+}
+
+/** A test pattern with the capture group of each field */
+export interface TemplateTestPattern {
+  pattern: RegExp;
+  groups: { value: number; units?: number; low?: number; high?: number };
+}
+
+/**
+ * Parsing rules for one laboratory's report format.
+ * Every pattern is optional; fields a template does not cover use the generic patterns.
+ */
+export interface LabReportTemplate {
+  id: string;
+  description: string;
+  /** Detection fingerprint; the template with the most matches is used */
+  fingerprint: {
+    /** Matched case-insensitively against the detected lab name */
+    labNames?: string[];
+    /** Header or body text characteristic of the format */
+    textPatterns?: RegExp[];
+  };
+  patient?: {
+    /** Groups: name, age, gender (M/F/Male/Female) */
+    nameAgeGender?: RegExp;
+    /** Groups: age, gender */
+    ageGender?: RegExp;
+    /** Group 1 holds the value */
+    name?: RegExp;
+    age?: RegExp;
+    gender?: RegExp;
+    date?: RegExp;
+  };
+  tests?: Partial<Record<ThyroidTestName, TemplateTestPattern>>;
+  /** Groups: value, units, upper reference limit */
+  antibodies?: Partial<Record<AntibodyTestName, RegExp>>;
+  /** Order of numeric dates (e.g. 03/04/2025) on this lab's reports */
+  dateFormat?: DateOrder;
+}
+
+/** A positioned text fragment from a PDF page (pdfjs text item, PDF user-space units) */
+export interface LayoutTextItem {
+  str: string;
+  /** Left edge */
+  x: number;
+  /** Baseline; grows towards the top of the page */
+  y: number;
+  width: number;
+  height: number;
+  page: number;
+}
+
+/** A lab table row rebuilt from text positions */
+export interface LayoutTableRow {
+  testName: string;
+  result: string;
+  unit: string | null;
+  referenceRange: string | null;
+  page: number;
+}
+
+/** The results of one collection date in a cumulative (trend) report */
+export interface CumulativeResultSet {
+  /** Collection date as printed */
+  date: string;
+  rows: LayoutTableRow[];
+}
+
+/** Options shared by the PDF and image parsers */
+export interface ParseOptions {
+  /** Progress detail for the upload screen (e.g. "Reading page 3 of 12...") */
+  onProgress?: (message: string) => void;
+  /** Aborting stops the pdf.js worker and any OCR in progress */
+  signal?: AbortSignal;
+}
+
+export interface PDFParseOptions extends ParseOptions {
+  /** Password typed by the user for an encrypted PDF; used once and never stored */
+  password?: string;
+  /** Passwords tried after `password` (e.g. date of birth formats) */
+  passwordCandidates?: string[];
+}
+
+/** Text read from an uploaded report (PDF text layer, OCR'd pages or photos) */
+export interface ExtractedContent {
+  text: string;
+  /** Report date found in the first pages or, failing that, the PDF metadata (ISO) */
+  reportDate?: string | null;
+  /** Positioned text items from pages that have a text layer */
+  layoutItems?: LayoutTextItem[];
+  /** Present when one or more pages were read by OCR */
+  ocr: {
+    pages: number[];
+    averageConfidence: number;
+    words: OCRWord[];
+  } | null;
 }
 
 export interface ThyroidTests {
@@ -22,12 +195,38 @@ export interface ThyroidTests {
   T4?: TestResult;
   FT3?: TestResult;
   FT4?: TestResult;
+  /** Thyroid peroxidase antibodies */
+  AntiTPO?: TestResult;
+  /** Thyroglobulin antibodies */
+  AntiTG?: TestResult;
 }
 
 export interface MedicalReport {
   patientInfo: PatientInfo;
   tests: ThyroidTests;
   rawText?: string;
+  /** Laboratory name detected on the report */
+  labName?: string | null;
+  /** Assay platform detected on the report (e.g. roche_elecsys) */
+  assay?: string | null;
+  /** Lab report template used for parsing, when one matched */
+  templateId?: string | null;
+  /** Confidence and source text of the extracted patient details */
+  patientInfoExtraction?: Partial<Record<keyof PatientInfo, FieldExtraction>>;
+  /** Thyroid medication and dose mentioned on the report (e.g. "On Thyronorm 50 mcg") */
+  medication?: DetectedMedication | null;
+  /** Set once the user has checked the extracted values on the review screen */
+  reviewed?: boolean;
+  /** Set when some pages had no text layer and were read by OCR */
+  ocr?: {
+    pages: number[];
+    averageConfidence: number;
+  };
+  /** Set when the report is one collection date of a cumulative report; index 0 is the latest date when the dates could be read */
+  cumulative?: {
+    index: number;
+    total: number;
+  };
 }
 
 export interface DosageRecommendation {
@@ -38,10 +237,26 @@ export interface DosageRecommendation {
   reasoning: string;
   severity: 'mild' | 'moderate' | 'severe';
   followUpWeeks: number;
+  referenceRangesUsed?: ReferenceRangeUsage[];
+  adjunctMedications?: AdjunctMedication[];
+  /** Set when FT4/FT3 show a pattern where TSH-based dosing does not apply */
+  thyroidPattern?: ThyroidPattern;
+}
+
+/** A person whose reports are tracked; one account can track several (caregivers, clinic staff) */
+export interface Patient {
+  id: string;
+  name: string;
+  /** ISO (YYYY-MM-DD) */
+  dateOfBirth?: string | null;
+  /** Created for the account's existing reports when patients were introduced; reports saved before then belong to it */
+  isDefault?: boolean;
 }
 
 export interface PatientProfile {
   age: number | null;
+  /** Age in months, used when age is 0 (patients under one year) */
+  ageMonths?: number | null;
   weightKg: number | null;
   gender: 'male' | 'female' | null;
   isPregnant: boolean;
@@ -52,6 +267,10 @@ export interface PatientProfile {
   hasAdrenalInsufficiency: boolean;
   hasGIAbsorptionIssues: boolean;
   onEstrogenTherapy: boolean;
+  /** Structured co-medication list checked by the levothyroxine interaction engine */
+  coMedications?: CoMedication[];
+  /** Previous adverse reaction to methimazole; PTU is used instead */
+  hasMethimazoleIntolerance?: boolean;
   hasLiverDisease?: boolean;
   liverDiseaseType?: 'cirrhosis' | 'cholestatic' | 'nafld' | 'hepatitis' | 'post_transplant' | 'other' | null;
   hasKidneyDisease?: boolean;
@@ -61,15 +280,26 @@ export interface PatientProfile {
   currentT4?: number | null;
   currentFT3?: number | null;
   currentFT4?: number | null;
+  currentAntiTPO?: number | null;
+  currentAntiTG?: number | null;
   currentDose?: number | null;
   hasHypothyroidDiagnosis?: boolean;
   symptoms?: {
     headache?: boolean;
     anxiousOrRestless?: boolean;
+    palpitations?: boolean;
+    tremor?: boolean;
   };
+  hasAsthma?: boolean;
+  hasCOPD?: boolean;
   name?: string;
   reportDate?: string | null;
   otherIssues?: string | null;
+  /** Lab / assay the values came from, used to pick reference ranges */
+  labName?: string | null;
+  assay?: string | null;
+  /** Reference ranges printed on the source report; these take precedence */
+  reportReferenceRanges?: Partial<Record<ThyroidTestName | AntibodyTestName, { low: number; high: number }>>;
 }
 
 export interface DataCollectionRecord {
@@ -103,4 +333,148 @@ export interface DosageResult {
   requiresHormoneData?: boolean;
   /** Specific hormone fields that are missing */
   missingHormoneFields?: ('FT3' | 'FT4' | 'T3' | 'T4')[];
-}
\ No newline at end of file
+  /** Reference ranges the dosing decision was based on */
+  referenceRangesUsed?: ReferenceRangeUsage[];
+  /** Why an alternative drug (e.g. PTU instead of methimazole) was chosen */
+  drugSelectionReason?: string;
+  /** Symptom-control medications given alongside the main drug */
+  adjunctMedications?: AdjunctMedication[];
+  /** Atypical TSH/FT4/FT3 pattern that changed or suppressed TSH-based dosing */
+  thyroidPattern?: ThyroidPatternResult;
+  /** Set in maintenance mode: the current dose and how it was changed */
+  doseAdjustment?: DoseAdjustment;
+}
+
+export interface DoseAdjustment {
+  previousDose: number;
+  newDose: number;
+  /** newDose - previousDose in mcg */
+  delta: number;
+  direction: 'increase' | 'decrease' | 'unchanged';
+  explanation: string;
+}
+
+export interface AdjunctMedication {
+  medication: 'Propranolol' | 'Atenolol';
+  dose: number;
+  unit: 'mg';
+  frequency: string;
+  reason: string;
+}
+
+export type AntithyroidMedication = 'Methimazole' | 'Propylthiouracil';
+
+/** TSH/FT4/FT3 patterns that TSH-based dosing cannot handle */
+export type ThyroidPattern =
+  | 'central_hypothyroidism'
+  | 'sick_euthyroid'
+  | 'tsh_secreting_adenoma'
+  | 'assay_interference';
+
+export interface ThyroidPatternResult {
+  pattern: ThyroidPattern;
+  label: string;
+  explanation: string;
+  recommendations: string[];
+}
+
+export type CoMedication =
+  | 'estrogen'
+  | 'calcium'
+  | 'iron'
+  | 'ppi'
+  | 'bile_acid_binder'
+  | 'antacid'
+  | 'phosphate_binder'
+  | 'biotin'
+  | 'amiodarone'
+  | 'lithium'
+  | 'anticonvulsant'
+  | 'rifampin';
+
+export interface DrugInteractionRule {
+  label: string;
+  /** Multiplier applied to the levothyroxine dose */
+  doseMultiplier?: number;
+  /** Hours to keep between levothyroxine and this medication */
+  separationHours?: number;
+  /** Medication can make thyroid lab results falsely abnormal */
+  labInterference?: boolean;
+  alert: string;
+}
+
+export type ReferencePopulation =
+  | 'adult'
+  | 'pregnancy_t1'
+  | 'pregnancy_t2'
+  | 'pregnancy_t3'
+  | 'pediatric_neonatal'
+  | 'pediatric_infant'
+  | 'pediatric_child'
+  | 'pediatric_adolescent';
+
+export type ThyroidTestName = 'TSH' | 'T3' | 'T4' | 'FT3' | 'FT4';
+
+export type AntibodyTestName = 'AntiTPO' | 'AntiTG';
+
+export type PediatricAgeBand = 'neonatal' | 'infant' | 'child' | 'adolescent';
+
+export interface ReferenceRangeEntry {
+  test: ThyroidTestName;
+  low: number;
+  high: number;
+  /** Matched case-insensitively against the detected lab name */
+  labName?: string;
+  assay?: string;
+  population?: ReferencePopulation;
+  description?: string;
+}
+
+export interface ReferenceRangeUsage {
+  test: ThyroidTestName;
+  low: number;
+  high: number;
+  units: string;
+  source: 'report' | 'lab' | 'assay' | 'population' | 'default';
+  description: string;
+}
+
+export interface TitrationLabResult {
+  /** ISO date (YYYY-MM-DD) the lab was drawn */
+  date: string;
+  tsh: number;
+  reportId?: string | null;
+}
+
+export interface TitrationStep {
+  stepNumber: number;
+  /** ISO date (YYYY-MM-DD) the dose for this step starts */
+  startDate: string;
+  /** ISO date (YYYY-MM-DD) TSH should be rechecked on this dose */
+  labRecheckDate: string;
+  dose: number;
+  /** Change from the previous step's dose (mcg); 0 for a hold/maintenance step */
+  doseChange: number;
+  status: 'completed' | 'active' | 'planned';
+  /** TSH measured at the recheck, once entered */
+  observedTSH?: number | null;
+  note?: string;
+}
+
+export interface TitrationPlan {
+  id?: string;
+  /** Patient the plan is for; missing on plans saved before patients were introduced */
+  patientId?: string | null;
+  medication: 'Levothyroxine';
+  status: 'titrating' | 'at_target';
+  targetTSH: { low: number; high: number };
+  /** Largest dose change allowed between steps (12.5 or 25 mcg) */
+  maxStepMcg: number;
+  stepLimitReason?: string;
+  /** Dose the plan is stepping towards */
+  goalDose: number;
+  steps: TitrationStep[];
+  labHistory: TitrationLabResult[];
+  createdAt: string;
+  updatedAt: string;
+}
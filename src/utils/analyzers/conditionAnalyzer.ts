@@ -1,14 +1,28 @@
-import { ThyroidTests } from '../../types/medical';
+import { AntibodyTestName, ThyroidTests } from '../../types/medical';
 import { SEVERITY_THRESHOLDS } from '../../constants/medical.constants';
+import { ReferenceRangeContext, ReferenceRangeRegistry } from '../referenceRanges/referenceRangeRegistry';
+import { ThyroidPatternClassifier } from './thyroidPatternClassifier';
 
 export class ConditionAnalyzer {
-  static getThyroidCondition(tests: ThyroidTests): string {
+  /**
+   * Normal / abnormal is decided by the resolved TSH reference range; severity still uses SEVERITY_THRESHOLDS
+   */
+  static getThyroidCondition(tests: ThyroidTests, rangeContext: ReferenceRangeContext = {}): string {
     const tsh = tests.TSH;
     
     if (!tsh) return 'Insufficient data';
 
+    // Central / non-thyroidal / discordant patterns are not described by TSH alone
+    const pattern = ThyroidPatternClassifier.classify(tests, rangeContext);
+    if (pattern) return pattern.label;
+
+    const tshRef = ReferenceRangeRegistry.resolve('TSH', {
+      ...rangeContext,
+      reportRange: tsh.refRangeSource === 'report' ? tsh.refRange : null
+    });
+
     // Hypothyroidism
-    if (tsh.value > SEVERITY_THRESHOLDS.TSH.mild.min) {
+    if (tsh.value > tshRef.high) {
       if (tsh.value >= SEVERITY_THRESHOLDS.TSH.severe.min) {
         return 'Severe Hypothyroidism';
       }
@@ -19,7 +33,7 @@ export class ConditionAnalyzer {
     }
     
     // Hyperthyroidism
-    if (tsh.value < SEVERITY_THRESHOLDS.hyperthyroid.mild.min) {
+    if (tsh.value < tshRef.low) {
       if (tsh.value <= SEVERITY_THRESHOLDS.hyperthyroid.severe.max) {
         return 'Severe Hyperthyroidism';
       }
@@ -32,15 +46,31 @@ export class ConditionAnalyzer {
     return 'Normal Thyroid Function';
   }
 
-  static getDetailedAnalysis(tests: ThyroidTests): {
+  /**
+   * Anti-TPO / Anti-TG positivity; positive is null when neither antibody was measured
+   */
+  static getAntibodyStatus(tests: ThyroidTests): { positive: boolean | null; positiveTests: AntibodyTestName[] } {
+    const measured = (['AntiTPO', 'AntiTG'] as const).filter(key => tests[key]);
+    if (measured.length === 0) return { positive: null, positiveTests: [] };
+
+    const positiveTests = measured.filter(key => tests[key]!.status === 'high');
+    return { positive: positiveTests.length > 0, positiveTests };
+  }
+
+  static getDetailedAnalysis(tests: ThyroidTests, rangeContext: ReferenceRangeContext = {}): {
     condition: string;
     summary: string;
     recommendations: string[];
+    antibodyPositive: boolean | null;
   } {
-    const condition = this.getThyroidCondition(tests);
+    const condition = this.getThyroidCondition(tests, rangeContext);
     const tsh = tests.TSH;
     const ft4 = tests.FT4 || tests.T4;
     const ft3 = tests.FT3 || tests.T3;
+    const antibodies = this.getAntibodyStatus(tests);
+    const antibodySummary = antibodies.positiveTests
+      .map(key => `${key === 'AntiTPO' ? 'Anti-TPO' : 'Anti-TG'} ${tests[key]!.value} ${tests[key]!.units ?? ''}`.trim())
+      .join(', ');
 
     let summary = '';
     const recommendations: string[] = [];
@@ -49,7 +79,18 @@ export class ConditionAnalyzer {
       return {
         condition: 'Insufficient Data',
         summary: 'TSH value is required for proper thyroid function assessment.',
-        recommendations: ['Obtain TSH measurement', 'Consider complete thyroid panel']
+        recommendations: ['Obtain TSH measurement', 'Consider complete thyroid panel'],
+        antibodyPositive: antibodies.positive
+      };
+    }
+
+    const pattern = ThyroidPatternClassifier.classify(tests, rangeContext);
+    if (pattern) {
+      return {
+        condition: pattern.label,
+        summary: pattern.explanation,
+        recommendations: pattern.recommendations,
+        antibodyPositive: antibodies.positive
       };
     }
 
@@ -65,6 +106,22 @@ export class ConditionAnalyzer {
           'Monitor thyroid function in 6-8 weeks',
           'Check for underlying causes if newly diagnosed'
         );
+
+        if (antibodies.positive) {
+          summary += ` Positive thyroid antibodies (${antibodySummary}) indicate Hashimoto's thyroiditis.`;
+        }
+
+        // Subclinical range: FT4 not low and TSH below the moderate threshold
+        if (tsh.value < SEVERITY_THRESHOLDS.TSH.moderate.min && ft4?.status !== 'low') {
+          if (antibodies.positive) {
+            summary += ' Antibody-positive subclinical hypothyroidism carries a higher risk of progression to overt hypothyroidism (about 4% per year).';
+            recommendations.push('Antibody-positive: treatment with levothyroxine is favoured, especially with symptoms or pregnancy plans');
+          } else if (antibodies.positive === false) {
+            recommendations.push('Antibody-negative subclinical hypothyroidism: observation with repeat TSH in 6-12 months is reasonable');
+          } else {
+            recommendations.push('Check Anti-TPO antibodies to assess the risk of progression');
+          }
+        }
         break;
 
       case condition.includes('Hyperthyroidism'):
@@ -77,6 +134,9 @@ export class ConditionAnalyzer {
           'Evaluate for Graves disease or toxic nodules',
           'Monitor closely for cardiac symptoms'
         );
+        if (antibodies.positive) {
+          summary += ` Positive thyroid antibodies (${antibodySummary}) support an autoimmune cause.`;
+        }
         break;
 
       default:
@@ -85,8 +145,12 @@ export class ConditionAnalyzer {
           'Continue routine monitoring',
           'Reassess if symptoms develop'
         );
+        if (antibodies.positive) {
+          summary += ` Positive thyroid antibodies (${antibodySummary}) suggest Hashimoto's thyroiditis with normal function.`;
+          recommendations.push('Recheck TSH annually - antibody-positive patients may develop hypothyroidism');
+        }
     }
 
-    return { condition, summary, recommendations };
+    return { condition, summary, recommendations, antibodyPositive: antibodies.positive };
   }
 }
\ No newline at end of file
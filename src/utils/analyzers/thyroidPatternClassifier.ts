@@ -0,0 +1,156 @@
+import {
+  PatientProfile,
+  ReferenceRangeUsage,
+  ThyroidPatternResult,
+  ThyroidTestName,
+  ThyroidTests
+} from '../../types/medical';
+import { ReferenceRangeContext, ReferenceRangeRegistry } from '../referenceRanges/referenceRangeRegistry';
+import { getCoMedications } from '../calculators/drugInteractions';
+
+type HormoneReading = ReferenceRangeUsage & { value: number };
+
+export interface PatternClassifierOptions {
+  /** Biotin makes any abnormal result suspect */
+  onBiotin?: boolean;
+  /**
+   * Low FT3 is expected on levothyroxine alone, so it is not read as non-thyroidal illness;
+   * nor is a high FT4 with a normal TSH (common when the dose is taken before the blood draw) read as interference
+   */
+  onLevothyroxine?: boolean;
+}
+
+/**
+ * Detects TSH/FT4/FT3 combinations where TSH does not reflect thyroid status:
+ * central hypothyroidism, sick euthyroid (non-thyroidal illness), TSH-secreting adenoma
+ * and assay interference. Returns null for the usual primary patterns, which are dosed by TSH.
+ */
+export class ThyroidPatternClassifier {
+  static classify(
+    tests: ThyroidTests,
+    rangeContext: ReferenceRangeContext = {},
+    options: PatternClassifierOptions = {}
+  ): ThyroidPatternResult | null {
+    if (!tests.TSH) return null;
+
+    const read = (key: ThyroidTestName): HormoneReading | null => {
+      const test = tests[key];
+      if (!test) return null;
+      const range = ReferenceRangeRegistry.resolve(key, {
+        ...rangeContext,
+        reportRange: test.refRangeSource === 'report' ? test.refRange : null
+      });
+      return { ...range, value: test.value };
+    };
+
+    return this.classifyReadings(
+      read('TSH')!,
+      read('FT4') ?? read('T4'),
+      read('FT3') ?? read('T3'),
+      options
+    );
+  }
+
+  static classifyProfile(profile: PatientProfile): ThyroidPatternResult | null {
+    if (profile.currentTSH == null) return null;
+
+    const read = (key: ThyroidTestName, value: number | null | undefined): HormoneReading | null =>
+      value != null ? { ...ReferenceRangeRegistry.resolveForProfile(key, profile), value } : null;
+
+    return this.classifyReadings(
+      read('TSH', profile.currentTSH)!,
+      read('FT4', profile.currentFT4) ?? read('T4', profile.currentT4),
+      read('FT3', profile.currentFT3) ?? read('T3', profile.currentT3),
+      {
+        onBiotin: getCoMedications(profile).includes('biotin'),
+        onLevothyroxine: (profile.currentDose ?? 0) > 0
+      }
+    );
+  }
+
+  private static classifyReadings(
+    tsh: HormoneReading,
+    t4: HormoneReading | null,
+    t3: HormoneReading | null,
+    options: PatternClassifierOptions
+  ): ThyroidPatternResult | null {
+    const isLow = (reading: HormoneReading | null) => reading != null && reading.value < reading.low;
+    const isHigh = (reading: HormoneReading | null) => reading != null && reading.value > reading.high;
+    const describe = (reading: HormoneReading) => `${reading.test} ${reading.value} ${reading.units} (range ${reading.low}-${reading.high})`;
+
+    const tshNotSuppressed = tsh.value >= tsh.low;
+    const tshNotElevated = tsh.value <= tsh.high;
+    const anyAbnormal = isLow(tsh) || isHigh(tsh) || isLow(t4) || isHigh(t4) || isLow(t3) || isHigh(t3);
+
+    // Biotin skews streptavidin-based immunoassays in either direction
+    if (options.onBiotin && anyAbnormal) {
+      return {
+        pattern: 'assay_interference',
+        label: 'Possible Assay Interference (Biotin)',
+        explanation: 'The patient takes biotin, which can make TSH, FT4 and FT3 results falsely low or high. The results cannot be used for dosing until they are repeated off biotin.',
+        recommendations: [
+          'Stop biotin for at least 2 days and repeat TSH, FT4 and FT3',
+          'Do not start or change thyroid medication based on these results'
+        ]
+      };
+    }
+
+    // High thyroid hormones with a TSH that is not suppressed
+    if (tshNotSuppressed && (isHigh(t4) || isHigh(t3))) {
+      if (isHigh(t4) && isHigh(t3)) {
+        return {
+          pattern: 'tsh_secreting_adenoma',
+          label: 'Inappropriate TSH Secretion (Suspected TSH-secreting Adenoma)',
+          explanation: `${describe(t4!)} and ${describe(t3!)} are high while ${describe(tsh)} is not suppressed. This points to a TSH-secreting pituitary adenoma or thyroid hormone resistance, not primary hyperthyroidism.`,
+          recommendations: [
+            'Repeat the tests on a different assay platform to exclude interference',
+            'Refer to endocrinology: alpha-subunit, SHBG and pituitary MRI',
+            'Do not start antithyroid drugs or radioiodine before the cause is established'
+          ]
+        };
+      }
+      if (!options.onLevothyroxine) {
+        return {
+          pattern: 'assay_interference',
+          label: 'Discordant Results (Possible Assay Interference)',
+          explanation: `${describe(isHigh(t4) ? t4! : t3!)} is high while ${describe(tsh)} is not suppressed and the other hormone is not raised. Heterophile antibodies, biotin or T4 autoantibodies can produce this pattern.`,
+          recommendations: [
+            'Repeat the tests on a different assay platform or after heterophile-blocking treatment',
+            'Ask about biotin and other supplements',
+            'Do not adjust thyroid medication based on these results'
+          ]
+        };
+      }
+    }
+
+    // Low FT4 without the TSH rise expected in primary hypothyroidism
+    if (tshNotElevated && isLow(t4)) {
+      return {
+        pattern: 'central_hypothyroidism',
+        label: 'Central (Secondary) Hypothyroidism',
+        explanation: `${describe(t4!)} is low while ${describe(tsh)} is not elevated. The pituitary is not responding to the low thyroid hormone, so TSH cannot guide the dose; levothyroxine is titrated to FT4 instead.`,
+        recommendations: [
+          'Check morning cortisol before starting levothyroxine (risk of adrenal crisis)',
+          'Refer to endocrinology for pituitary evaluation (other pituitary hormones, MRI)',
+          'Monitor FT4, not TSH, to adjust the dose',
+          'Exclude non-thyroidal illness if the patient is acutely unwell'
+        ]
+      };
+    }
+
+    // Low FT3 alone in a patient with normal or low TSH
+    if (tshNotElevated && isLow(t3) && !isHigh(t4) && !options.onLevothyroxine) {
+      return {
+        pattern: 'sick_euthyroid',
+        label: 'Non-thyroidal Illness (Sick Euthyroid) Pattern',
+        explanation: `${describe(t3!)} is low with ${t4 ? `${describe(t4)} not low` : 'FT4 not measured'} and ${describe(tsh)} not elevated. This is typical of acute illness, fasting or recovery and is not treated with levothyroxine.`,
+        recommendations: [
+          'Repeat thyroid tests 4-6 weeks after recovery from the acute illness',
+          'Do not start levothyroxine based on a low FT3 alone'
+        ]
+      };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,102 @@
+import { AdjunctMedication, PatientProfile } from '../../types/medical';
+import { BETA_BLOCKER_DOSAGE } from '../../constants/medical.constants';
+
+/**
+ * Beta-blocker adjunct therapy for hyperthyroidism
+ * Controls adrenergic symptoms (palpitations, tremor, anxiety) until the antithyroid drug takes effect.
+ * Screens for asthma / COPD before choosing between propranolol and cardioselective atenolol.
+ */
+
+export interface AdjunctTherapyResult {
+  adjuncts: AdjunctMedication[];
+  alerts: string[];
+}
+
+export function recommendAdjunctTherapy(
+  profile: PatientProfile,
+  severity: 'mild' | 'moderate' | 'severe'
+): AdjunctTherapyResult {
+  const alerts: string[] = [];
+  const symptoms = getAdrenergicSymptoms(profile);
+  const hasCardiacIndication = profile.hasHighRiskHeartDisease ?? false;
+
+  if (symptoms.length === 0 && !hasCardiacIndication) {
+    return { adjuncts: [], alerts };
+  }
+
+  const reason = symptoms.length > 0
+    ? `Symptom control (${symptoms.join(', ')}) until the antithyroid drug takes effect`
+    : 'Heart-rate control in a patient with high-risk heart disease';
+
+  // Asthma: beta-blockers can trigger bronchospasm, so none is recommended
+  if (profile.hasAsthma) {
+    alerts.push('Beta-blocker not recommended: asthma. Consider a non-dihydropyridine calcium channel blocker (diltiazem or verapamil) for rate control.');
+    return { adjuncts: [], alerts };
+  }
+
+  // COPD: non-selective propranolol is avoided; atenolol is cardioselective but not advised in pregnancy
+  if (profile.hasCOPD) {
+    if (profile.isPregnant) {
+      alerts.push('Beta-blocker not recommended: COPD in pregnancy (propranolol is non-selective, atenolol is linked to fetal growth restriction). Discuss rate control with a specialist.');
+      return { adjuncts: [], alerts };
+    }
+
+    const atenolol = buildAtenolol(profile, severity, reason);
+    alerts.push('COPD: cardioselective atenolol chosen instead of propranolol. Start low and stop if breathlessness or wheeze worsens.');
+    return { adjuncts: [atenolol], alerts: [...alerts, ...cardiacCautions(profile)] };
+  }
+
+  const dose = BETA_BLOCKER_DOSAGE.propranolol[severity];
+  alerts.push(`Adjunct: Propranolol ${dose} mg ${BETA_BLOCKER_DOSAGE.propranolol.frequency.toLowerCase()} for symptom control. Taper and stop once FT4 normalizes.`);
+  if (profile.isPregnant) {
+    alerts.push('Pregnancy: use propranolol for the shortest time possible; prolonged use is linked to fetal growth restriction.');
+  }
+
+  return {
+    adjuncts: [{
+      medication: 'Propranolol',
+      dose,
+      unit: 'mg',
+      frequency: BETA_BLOCKER_DOSAGE.propranolol.frequency,
+      reason
+    }],
+    alerts: [...alerts, ...cardiacCautions(profile)]
+  };
+}
+
+function getAdrenergicSymptoms(profile: PatientProfile): string[] {
+  const symptoms: string[] = [];
+  if (profile.symptoms?.palpitations) symptoms.push('palpitations');
+  if (profile.symptoms?.tremor) symptoms.push('tremor');
+  if (profile.symptoms?.anxiousOrRestless) symptoms.push('anxiety/restlessness');
+  return symptoms;
+}
+
+function buildAtenolol(
+  profile: PatientProfile,
+  severity: 'mild' | 'moderate' | 'severe',
+  reason: string
+): AdjunctMedication {
+  let dose: number = BETA_BLOCKER_DOSAGE.atenolol[severity];
+
+  // Atenolol is cleared by the kidneys
+  const severeKidneyDisease = profile.hasKidneyDisease &&
+    (profile.kidneyDiseaseStage === 'Stage 4' || profile.kidneyDiseaseStage === 'Stage 5' || profile.kidneyDiseaseStage === 'ESRD');
+  if (severeKidneyDisease) {
+    dose = Math.min(dose, BETA_BLOCKER_DOSAGE.atenolol.renalMaximum);
+  }
+
+  return {
+    medication: 'Atenolol',
+    dose,
+    unit: 'mg',
+    frequency: BETA_BLOCKER_DOSAGE.atenolol.frequency,
+    reason
+  };
+}
+
+function cardiacCautions(profile: PatientProfile): string[] {
+  return profile.hasHighRiskHeartDisease
+    ? ['High-risk heart disease: avoid beta-blockers in decompensated heart failure; confirm with cardiology before starting.']
+    : [];
+}
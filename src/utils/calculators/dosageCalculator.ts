@@ -1,4 +1,10 @@
-import { DosageRecommendation, DosageResult } from '../../types/medical';
+import {
+  AntithyroidMedication,
+  DosageRecommendation,
+  DosageResult,
+  PediatricAgeBand,
+  ReferenceRangeUsage
+} from '../../types/medical';
 import {
   DOSAGE_CONSTANTS,
   SEVERITY_THRESHOLDS,
@@ -7,10 +13,19 @@ import {
   AVAILABLE_DOSES,
   COMMERCIAL_TABLETS,
   SAFETY_LIMITS,
-  THYROID_REFERENCE_RANGES
+  THYROID_REFERENCE_RANGES,
+  ANTIBODY_REFERENCE_RANGES,
+  PEDIATRIC_DOSAGE_PER_KG,
+  PEDIATRIC_FOLLOW_UP_SCHEDULE,
+  PTU_DOSAGE,
+  DRUG_INTERACTION_RULES,
+  CENTRAL_HYPOTHYROID_DOSING
 } from '../../constants/medical.constants';
 import { APP_CONFIG } from '../../config/app.config';
 import { PatientProfile } from '../../types/medical';
+import { ReferenceRangeRegistry } from '../referenceRanges/referenceRangeRegistry';
+import { recommendAdjunctTherapy } from './adjunctTherapy';
+import { checkDrugInteractions, getCoMedications } from './drugInteractions';
 
 /**
  * Simple dosage calculator for initial PDF analysis
@@ -145,6 +160,45 @@ export class DosageCalculator {
       followUpWeeks
     };
   }
+
+  /**
+   * Central hypothyroidism from report values alone - dosed to an FT4 target, not TSH
+   */
+  static calculateCentralHypothyroidDosage(
+    tshValue: number,
+    ft4Value?: number,
+    t4Value?: number,
+    age?: number | null,
+    weight?: number | null,
+    rangeProfile: Pick<PatientProfile, 'labName' | 'assay' | 'reportReferenceRanges'> = {}
+  ): DosageRecommendation {
+    const profile: PatientProfile = {
+      currentTSH: tshValue,
+      currentFT4: ft4Value,
+      currentT4: t4Value,
+      age: age ?? null,
+      weightKg: weight ?? null,
+      gender: null,
+      isPregnant: false,
+      hasOsteoporosis: false,
+      hasAdrenalInsufficiency: false,
+      hasGIAbsorptionIssues: false,
+      onEstrogenTherapy: false,
+      ...rangeProfile
+    };
+
+    const result = calculateCentralHypothyroidDose(profile);
+    return {
+      medication: 'Levothyroxine',
+      dosage: result.dose,
+      unit: 'mcg',
+      frequency: 'Once daily (morning, empty stomach)',
+      reasoning: result.symptomAlert || 'Central hypothyroidism: dose titrated to FT4.',
+      severity: result.severity || 'mild',
+      followUpWeeks: result.followUpWeeks || CENTRAL_HYPOTHYROID_DOSING.followUpWeeks,
+      referenceRangesUsed: result.referenceRangesUsed
+    };
+  }
 }
 
 /**
@@ -155,6 +209,11 @@ export class DosageCalculator {
  * This is separate from DosageCalculator class which is used for simple initial analysis
  */
 export function calculateLevothyroxineDose(profile: PatientProfile): DosageResult {
+  // Patients under 18 use the pediatric mcg/kg bands (pregnant adolescents stay on the pregnancy logic)
+  if (!profile.isPregnant && ReferenceRangeRegistry.getPediatricAgeBand(profile) !== null) {
+    return calculatePediatricLevothyroxineDose(profile);
+  }
+
   if (profile.weightKg == null) throw new Error('Weight is required for dosage calculation.');
   if (profile.currentTSH == null) throw new Error('Current TSH is required for dosage calculation.');
 
@@ -200,6 +259,12 @@ export function calculateLevothyroxineDose(profile: PatientProfile): DosageResul
     // Mild hypothyroidism
     baseDose = DOSAGE_MULTIPLIERS.mild * profile.weightKg;
     alerts.push("TSH 4.5-10 mIU/L - Mild hypothyroidism, partial replacement dose recommended");
+    const antibodyPositive = isAntibodyPositive(profile);
+    if (antibodyPositive) {
+      alerts.push("Anti-TPO/Anti-TG positive - Hashimoto's thyroiditis with higher risk of progression to overt hypothyroidism; treatment is favoured.");
+    } else if (antibodyPositive === false) {
+      alerts.push("Thyroid antibodies negative - lower risk of progression; observation with repeat TSH is a reasonable alternative.");
+    }
   }
 
   // If no treatment needed, return early
@@ -213,7 +278,8 @@ export function calculateLevothyroxineDose(profile: PatientProfile): DosageResul
   let adjustedDose = baseDose;
 
   // Use available FT3/FT4 (and total T3/T4) data to fine-tune the starting dose
-  const hormoneAdjustment = calculateHormoneAdjustmentFactor(profile, alerts);
+  const referenceRangesUsed: ReferenceRangeUsage[] = [];
+  const hormoneAdjustment = calculateHormoneAdjustmentFactor(profile, alerts, referenceRangesUsed);
   adjustedDose *= hormoneAdjustment;
 
   // 2. Pregnancy Adjustment (trimester-specific)
@@ -290,10 +356,10 @@ export function calculateLevothyroxineDose(profile: PatientProfile): DosageResul
     alerts.push("Patient has osteoporosis — dose reduced by 10% to minimize bone loss risk. Avoid TSH suppression below 1.0 mIU/L.");
   }
 
-  if (profile.onEstrogenTherapy) {
-    adjustedDose *= DOSAGE_MULTIPLIERS.estrogenTherapy;
-    alerts.push("On estrogen therapy – increase LT4 dose by ~15% and recheck TSH in 6 weeks.");
-  }
+  // Co-medications (estrogen, binders, enzyme inducers, biotin)
+  const interactions = checkDrugInteractions(profile);
+  adjustedDose *= interactions.multiplier;
+  alerts.push(...interactions.labAlerts, ...interactions.alerts);
 
   if (profile.hasGIAbsorptionIssues) {
     adjustedDose *= DOSAGE_MULTIPLIERS.giAbsorptionIssues;
@@ -373,19 +439,7 @@ export function calculateLevothyroxineDose(profile: PatientProfile): DosageResul
 
   // 7. Gradual Titration Control (heart disease and osteoporosis specific)
   if (profile.currentDose != null) {
-    let maxChange: number = SAFETY_LIMITS.maxDoseChange.standard;
-    let reasonForLimit = '';
-
-    // Adjust maximum change based on medical conditions
-    if (hasHighRiskHeartDisease) {
-      maxChange = SAFETY_LIMITS.maxDoseChange.conservative;
-      reasonForLimit = ' due to high-risk heart disease';
-    } else if (profile.hasOsteoporosis) {
-      maxChange = SAFETY_LIMITS.maxDoseChange.conservative;
-      reasonForLimit = ' due to osteoporosis';
-    } else if (hasLowRiskHeartDisease) {
-      maxChange = SAFETY_LIMITS.maxDoseChange.standard;
-    }
+    const { maxChange, reasonForLimit } = getMaxDoseChange(profile);
 
     if (Math.abs(adjustedDose - profile.currentDose) > maxChange) {
       const changeDirection = Math.sign(adjustedDose - profile.currentDose);
@@ -436,31 +490,148 @@ export function calculateLevothyroxineDose(profile: PatientProfile): DosageResul
     nearestTablet: nearestTablet,
     symptomAlert: alertMessage,
     alerts: alerts, // Also return as array for better UI handling
-    medicalConditionsSummary: medicalConditionsSummary
+    medicalConditionsSummary: medicalConditionsSummary,
+    ...(referenceRangesUsed.length > 0 && { referenceRangesUsed })
   };
 }
 
 /**
- * Comprehensive methimazole dose calculation for hyperthyroidism
- * Implements detailed logic based on TSH, FT4/FT3 or T4/T3 levels, age, cardiac risk, and osteoporosis
+ * Pediatric levothyroxine dose calculation
+ * Uses age-band mcg/kg/day starting doses, age-specific TSH/FT4 reference ranges
+ * and a shorter follow-up cadence than the adult calculation
  */
-export function calculateMethimazoleDose(profile: PatientProfile): DosageResult {
+export function calculatePediatricLevothyroxineDose(profile: PatientProfile): DosageResult {
+  const band = ReferenceRangeRegistry.getPediatricAgeBand(profile);
+  if (profile.age == null || band === null) throw new Error('Age under 18 is required for pediatric dosage calculation.');
+  if (profile.weightKg == null || profile.weightKg <= 0) throw new Error('Weight is required for pediatric dosage calculation.');
+  if (profile.currentTSH == null) throw new Error('Current TSH is required for dosage calculation.');
+
+  const alerts: string[] = [];
+  const bandLabel = PEDIATRIC_BAND_LABELS[band];
+
+  const tshRef = ReferenceRangeRegistry.resolveForProfile('TSH', profile);
+  const referenceRangesUsed: ReferenceRangeUsage[] = [tshRef];
+  let ft4Low = false;
+  if (profile.currentFT4 != null) {
+    const ft4Ref = ReferenceRangeRegistry.resolveForProfile('FT4', profile);
+    referenceRangesUsed.push(ft4Ref);
+    ft4Low = profile.currentFT4 < ft4Ref.low;
+  }
+
+  // 1. Compare against the age-specific range rather than the adult 4.5 mIU/L cut-off
+  if (profile.currentTSH <= tshRef.high && !ft4Low) {
+    alerts.push(`👶 Pediatric (${bandLabel}): TSH ${profile.currentTSH} mIU/L is within the age-specific range (${tshRef.low}-${tshRef.high} mIU/L). No LT4 therapy needed; recheck with routine pediatric follow-up.`);
+    return {
+      dose: 0,
+      symptomAlert: alerts.join("; "),
+      alerts,
+      followUpWeeks: PEDIATRIC_FOLLOW_UP_SCHEDULE[band],
+      referenceRangesUsed
+    };
+  }
+
+  if (profile.hasAdrenalInsufficiency) {
+    alerts.push("👶 Pediatric: Adrenal insufficiency must be treated before starting levothyroxine. Refer to pediatric endocrinology.");
+    return {
+      dose: 0,
+      symptomAlert: alerts.join("; "),
+      alerts,
+      referenceRangesUsed
+    };
+  }
+
+  // 2. Severity picks the point within the band's mcg/kg range
+  let severity: 'mild' | 'moderate' | 'severe' = 'mild';
+  if (profile.currentTSH >= SEVERITY_THRESHOLDS.TSH.severe.min || ft4Low) {
+    severity = 'severe';
+  } else if (profile.currentTSH >= SEVERITY_THRESHOLDS.TSH.moderate.min) {
+    severity = 'moderate';
+  }
+
+  const perKg = PEDIATRIC_DOSAGE_PER_KG[band];
+  const mcgPerKg = severity === 'severe' ? perKg.high : severity === 'moderate' ? (perKg.low + perKg.high) / 2 : perKg.low;
+  alerts.push(`👶 Pediatric (${bandLabel}) dosing: ${profile.weightKg} kg × ${mcgPerKg} mcg/kg/day (band ${perKg.low}-${perKg.high} mcg/kg/day).`);
+  if (ft4Low) {
+    alerts.push(`👶 Pediatric: Free T4 is below the age-specific range - full replacement dose used.`);
+  }
+
+  // 3. Band-specific guidance
+  if (band === 'neonatal') {
+    alerts.push("👶 Neonatal: Start treatment as soon as possible to protect neurodevelopment. Crush the tablet into a small amount of water or breast milk; avoid soy formula.");
+  } else if (band === 'infant') {
+    alerts.push("👶 Infant: Crush the tablet into a small amount of water or breast milk. Avoid soy formula, iron and calcium within 4 hours of the dose.");
+  } else if (band === 'child') {
+    alerts.push("👶 Child: Monitor growth, development and school performance at each visit.");
+  } else {
+    alerts.push("👶 Adolescent: Requirement falls towards the adult 1.6 mcg/kg/day once growth is complete. Review adherence at each visit.");
+  }
+
+  if (profile.hasHighRiskHeartDisease || profile.hasLowRiskHeartDisease) {
+    alerts.push("👶 Pediatric: Cardiac disease present - start at the low end and titrate under pediatric endocrinology and cardiology supervision.");
+  }
+
+  const interactions = checkDrugInteractions(profile);
+  alerts.push(...interactions.labAlerts, ...interactions.alerts);
+
+  // 4. Round to the 12.5 mcg grid (half of a 25 mcg tablet) and keep within safety limits
+  const rawDose = profile.weightKg * mcgPerKg * interactions.multiplier;
+  const clamped = Math.max(SAFETY_LIMITS.pediatricMinimumDose, Math.min(rawDose, SAFETY_LIMITS.maximumDose));
+  const finalDose = Math.round(clamped / SAFETY_LIMITS.pediatricMinimumDose) * SAFETY_LIMITS.pediatricMinimumDose;
+  const followUpWeeks = PEDIATRIC_FOLLOW_UP_SCHEDULE[band];
+  alerts.push(`👶 Pediatric: Recheck TSH and FT4 in ${followUpWeeks} weeks.`);
+
+  return {
+    dose: finalDose,
+    ...(finalDose >= COMMERCIAL_TABLETS[0] && { nearestTablet: getNearestCommercialTablet(finalDose) }),
+    symptomAlert: alerts.join("; "),
+    alerts,
+    severity,
+    followUpWeeks,
+    medicalConditionsSummary: generateMedicalConditionsSummary(profile),
+    referenceRangesUsed
+  };
+}
+
+const PEDIATRIC_BAND_LABELS: Record<PediatricAgeBand, string> = {
+  neonatal: 'neonate',
+  infant: 'infant',
+  child: 'child',
+  adolescent: 'adolescent'
+};
+
+type HyperthyroidAssessment =
+  | { result: DosageResult }
+  | {
+      subclinical: boolean;
+      severity: 'mild' | 'moderate' | 'severe';
+      ft3Elevated: boolean;
+      ft3Disproportionate: boolean;
+      alerts: string[];
+      referenceRangesUsed: ReferenceRangeUsage[];
+    };
+
+/**
+ * Shared hyperthyroidism assessment for the antithyroid drug calculators
+ * Returns a final result when no antithyroid dose should be calculated, otherwise the severity classification
+ */
+function assessHyperthyroidism(profile: PatientProfile, drugName: string): HyperthyroidAssessment {
   if (profile.currentTSH == null) {
-    throw new Error('Current TSH is required for methimazole dosage calculation.');
+    throw new Error(`Current TSH is required for ${drugName} dosage calculation.`);
   }
 
-  const alerts: string[] = [];
-  let dose = 0;
+  // Biotin can produce a falsely low TSH and high FT4 that mimic hyperthyroidism
+  const alerts: string[] = [...checkDrugInteractions(profile).labAlerts];
   let severity: 'mild' | 'moderate' | 'severe' = 'mild';
-  let followUpWeeks = 4;
 
   // Step 1: Check if TSH ≤ 0.1
   if (profile.currentTSH > 0.1) {
-    alerts.push(`TSH (${profile.currentTSH} mIU/L) is not suppressed enough to indicate hyperthyroidism requiring methimazole.`);
+    alerts.push(`TSH (${profile.currentTSH} mIU/L) is not suppressed enough to indicate hyperthyroidism requiring ${drugName}.`);
     return {
-      dose: 0,
-      symptomAlert: alerts.join("; "),
-      alerts
+      result: {
+        dose: 0,
+        symptomAlert: alerts.join("; "),
+        alerts
+      }
     };
   }
 
@@ -476,13 +647,15 @@ export function calculateMethimazoleDose(profile: PatientProfile): DosageResult
     if (profile.currentT3 == null) missingFields.push('T3');
     if (profile.currentT4 == null) missingFields.push('T4');
 
-    alerts.push('⚠️ Missing hormone values. Please enter either Free FT3 & Free FT4, OR Total T3 & Total T4 to calculate methimazole dose.');
+    alerts.push(`⚠️ Missing hormone values. Please enter either Free FT3 & Free FT4, OR Total T3 & Total T4 to calculate ${drugName} dose.`);
     return {
-      dose: 0,
-      symptomAlert: alerts.join("; "),
-      alerts,
-      requiresHormoneData: true,
-      missingHormoneFields: missingFields
+      result: {
+        dose: 0,
+        symptomAlert: alerts.join("; "),
+        alerts,
+        requiresHormoneData: true,
+        missingHormoneFields: missingFields
+      }
     };
   }
 
@@ -494,10 +667,10 @@ export function calculateMethimazoleDose(profile: PatientProfile): DosageResult
   const t4Value = profile.currentT4;
   const t3Value = profile.currentT3;
 
-  const ft4Ref = THYROID_REFERENCE_RANGES.FT4;
-  const ft3Ref = THYROID_REFERENCE_RANGES.FT3;
-  const t4Ref = THYROID_REFERENCE_RANGES.T4;
-  const t3Ref = THYROID_REFERENCE_RANGES.T3;
+  // Lab / population-specific ranges (T4/T3 for total hormones); a printed report range wins
+  const ft4Ref = ReferenceRangeRegistry.resolveForProfile(useFreeHormones ? 'FT4' : 'T4', profile);
+  const ft3Ref = ReferenceRangeRegistry.resolveForProfile(useFreeHormones ? 'FT3' : 'T3', profile);
+  const referenceRangesUsed = [ft4Ref, ft3Ref];
 
   // Step 4: Determine if hyperthyroidism is present
   let isHyperthyroid = false;
@@ -513,8 +686,8 @@ export function calculateMethimazoleDose(profile: PatientProfile): DosageResult
     currentFT3 = ft3Value ?? null;
     isHyperthyroid = (currentFT4 != null && currentFT4 > ft4ULN) || (currentFT3 != null && currentFT3 > ft3ULN);
   } else {
-    ft4ULN = t4Ref.high; // Using T4 as "FT4" for total hormones
-    ft3ULN = t3Ref.high; // Using T3 as "FT3" for total hormones
+    ft4ULN = ft4Ref.high; // Using T4 as "FT4" for total hormones
+    ft3ULN = ft3Ref.high; // Using T3 as "FT3" for total hormones
     currentFT4 = t4Value ?? null;
     currentFT3 = t3Value ?? null;
     isHyperthyroid = (currentFT4 != null && currentFT4 > ft4ULN) || (currentFT3 != null && currentFT3 > ft3ULN);
@@ -528,58 +701,97 @@ export function calculateMethimazoleDose(profile: PatientProfile): DosageResult
 
     if (age >= 65 || hasCardiac || hasOsteoporosis) {
       alerts.push('Subclinical hyperthyroidism detected. Treatment indicated due to age ≥ 65, cardiac disease, or osteoporosis.');
-      // Use mild dosing for subclinical
-      severity = 'mild';
-      dose = 5;
-      followUpWeeks = 6;
-    } else {
-      alerts.push('Subclinical hyperthyroidism detected (TSH ≤ 0.1 but FT4/FT3 normal). No methimazole treatment needed unless age ≥ 65, cardiac disease, or osteoporosis present.');
       return {
+        subclinical: true,
+        severity: 'mild',
+        ft3Elevated: false,
+        ft3Disproportionate: false,
+        alerts,
+        referenceRangesUsed
+      };
+    }
+
+    alerts.push(`Subclinical hyperthyroidism detected (TSH ≤ 0.1 but FT4/FT3 normal). No ${drugName} treatment needed unless age ≥ 65, cardiac disease, or osteoporosis present.`);
+    return {
+      result: {
         dose: 0,
         symptomAlert: alerts.join("; "),
         alerts,
         severity: 'mild',
-        followUpWeeks: 12
-      };
-    }
-  } else {
-    // Overt hyperthyroidism confirmed
-    alerts.push('Overt hyperthyroidism confirmed based on elevated hormone levels.');
+        followUpWeeks: 12,
+        referenceRangesUsed
+      }
+    };
+  }
 
-    // Step 5: Calculate severity based on FT4 (or T4 if using total hormones)
-    if (currentFT4 == null) {
-      alerts.push('⚠️ Cannot determine severity without FT4 or T4 value.');
-      return {
+  // Overt hyperthyroidism confirmed
+  alerts.push('Overt hyperthyroidism confirmed based on elevated hormone levels.');
+
+  // Step 5: Calculate severity based on FT4 (or T4 if using total hormones)
+  if (currentFT4 == null) {
+    alerts.push('⚠️ Cannot determine severity without FT4 or T4 value.');
+    return {
+      result: {
         dose: 0,
         symptomAlert: alerts.join("; "),
         alerts
-      };
-    }
+      }
+    };
+  }
 
-    const ft4Ratio = currentFT4 / ft4ULN;
+  const ft4Ratio = currentFT4 / ft4ULN;
+
+  // Check if FT3 is elevated or disproportionately high (needed for severity classification)
+  const ft3Elevated = currentFT3 != null && currentFT3 > ft3ULN;
+  const ft3Disproportionate = currentFT3 != null && currentFT3 > ft3ULN * 1.5;
+  const ft3VeryHigh = currentFT3 != null && currentFT3 > ft3ULN * 1.8; // Very high FT3 can upgrade severity
+
+  // Classify severity based on FT4 ratio
+  // Values very close to 2.0× (≥1.9×) with very high FT3 may be classified as severe
+  if (ft4Ratio >= 2.0 && ft4Ratio <= 3.0) {
+    severity = 'severe';
+  } else if (ft4Ratio >= 1.9 && ft4Ratio < 2.0 && ft3VeryHigh) {
+    // Borderline moderate-severe: upgrade to severe if FT3 is very high
+    severity = 'severe';
+    alerts.push('Moderate-severe hyperthyroidism: FT4 ratio near severe threshold with very high FT3 - classified as severe.');
+  } else if (ft4Ratio >= 1.5 && ft4Ratio < 2.0) {
+    severity = 'moderate';
+  } else if (ft4Ratio >= 1.0 && ft4Ratio < 1.5) {
+    severity = 'mild';
+  } else if (ft4Ratio > 3.0) {
+    severity = 'severe';
+    alerts.push('⚠️ Very severe hyperthyroidism (FT4 > 3× ULN). Consider specialist consultation.');
+  }
 
-    // Check if FT3 is elevated or disproportionately high (needed for severity classification)
-    const ft3Elevated = currentFT3 != null && currentFT3 > ft3ULN;
-    const ft3Disproportionate = currentFT3 != null && currentFT3 > ft3ULN * 1.5;
-    const ft3VeryHigh = currentFT3 != null && currentFT3 > ft3ULN * 1.8; // Very high FT3 can upgrade severity
+  return {
+    subclinical: false,
+    severity,
+    ft3Elevated,
+    ft3Disproportionate,
+    alerts,
+    referenceRangesUsed
+  };
+}
 
-    // Classify severity based on FT4 ratio
-    // Values very close to 2.0× (≥1.9×) with very high FT3 may be classified as severe
-    if (ft4Ratio >= 2.0 && ft4Ratio <= 3.0) {
-      severity = 'severe';
-    } else if (ft4Ratio >= 1.9 && ft4Ratio < 2.0 && ft3VeryHigh) {
-      // Borderline moderate-severe: upgrade to severe if FT3 is very high
-      severity = 'severe';
-      alerts.push('Moderate-severe hyperthyroidism: FT4 ratio near severe threshold with very high FT3 - classified as severe.');
-    } else if (ft4Ratio >= 1.5 && ft4Ratio < 2.0) {
-      severity = 'moderate';
-    } else if (ft4Ratio >= 1.0 && ft4Ratio < 1.5) {
-      severity = 'mild';
-    } else if (ft4Ratio > 3.0) {
-      severity = 'severe';
-      alerts.push('⚠️ Very severe hyperthyroidism (FT4 > 3× ULN). Consider specialist consultation.');
-    }
+/**
+ * Comprehensive methimazole dose calculation for hyperthyroidism
+ * Implements detailed logic based on TSH, FT4/FT3 or T4/T3 levels, age, cardiac risk, and osteoporosis
+ */
+export function calculateMethimazoleDose(profile: PatientProfile): DosageResult {
+  const assessment = assessHyperthyroidism(profile, 'methimazole');
+  if ('result' in assessment) {
+    return assessment.result;
+  }
 
+  const { alerts, severity, ft3Elevated, ft3Disproportionate, referenceRangesUsed } = assessment;
+  let dose = 0;
+  let followUpWeeks = 4;
+
+  if (assessment.subclinical) {
+    // Use mild dosing for subclinical
+    dose = 5;
+    followUpWeeks = 6;
+  } else {
     // Step 6: Calculate dose based on severity, age, and cardiac risk
     const age = profile.age ?? 0;
     const hasCardiac = profile.hasHighRiskHeartDisease ?? profile.hasLowRiskHeartDisease ?? false;
@@ -646,6 +858,10 @@ export function calculateMethimazoleDose(profile: PatientProfile): DosageResult
     dose = Math.max(5, Math.min(dose, 40)); // Clamp between 5-40 mg
   }
 
+  // Beta-blocker for adrenergic symptoms while methimazole takes effect
+  const adjunct = recommendAdjunctTherapy(profile, severity);
+  alerts.push(...adjunct.alerts);
+
   // Step 7: Add titration guidance
   alerts.push('Titration: Recheck FT4 (± FT3) at 4-6 weeks. If FT4 normalizes, reduce dose by ~50%. Do NOT titrate early using TSH (TSH remains suppressed for months).');
 
@@ -654,11 +870,244 @@ export function calculateMethimazoleDose(profile: PatientProfile): DosageResult
     symptomAlert: alerts.join("; "),
     alerts,
     severity,
-    followUpWeeks
+    followUpWeeks,
+    referenceRangesUsed,
+    ...(adjunct.adjuncts.length > 0 && { adjunctMedications: adjunct.adjuncts })
+  };
+}
+
+/**
+ * Pick the antithyroid drug for a hyperthyroid patient.
+ * PTU is preferred in the first trimester (methimazole embryopathy) and when methimazole is not tolerated.
+ */
+export function selectAntithyroidDrug(profile: PatientProfile): { medication: AntithyroidMedication; reason: string | null } {
+  if (profile.isPregnant && profile.trimester === 1) {
+    return {
+      medication: 'Propylthiouracil',
+      reason: 'First-trimester pregnancy: methimazole is linked to birth defects when taken during organ development, so PTU is preferred until the end of the first trimester.'
+    };
+  }
+  if (profile.hasMethimazoleIntolerance) {
+    return {
+      medication: 'Propylthiouracil',
+      reason: 'Methimazole intolerance recorded: PTU is used as the alternative antithyroid drug.'
+    };
+  }
+  return { medication: 'Methimazole', reason: null };
+}
+
+/**
+ * Propylthiouracil (PTU) dose calculation
+ * Same severity assessment as methimazole; used for first-trimester pregnancy and methimazole intolerance
+ */
+export function calculatePropylthiouracilDose(profile: PatientProfile): DosageResult {
+  const assessment = assessHyperthyroidism(profile, 'PTU');
+  const { reason } = selectAntithyroidDrug(profile);
+  if ('result' in assessment) {
+    return reason ? { ...assessment.result, drugSelectionReason: reason } : assessment.result;
+  }
+
+  const { alerts, severity, referenceRangesUsed } = assessment;
+
+  // Boxed warning: PTU is not used under 18 because of fatal liver failure (pregnant adolescents stay on the pregnancy logic)
+  if (!profile.isPregnant && ReferenceRangeRegistry.getPediatricAgeBand(profile) !== null) {
+    alerts.push('⚠️ PTU is not recommended under 18: it can cause severe, sometimes fatal, liver failure in children. No PTU dose is given.');
+    alerts.push(profile.hasMethimazoleIntolerance
+      ? '👶 Pediatric: Methimazole intolerance recorded - refer to pediatric endocrinology to discuss radioiodine or surgery; PTU only as a short bridge under specialist supervision.'
+      : '👶 Pediatric: Use methimazole and refer to pediatric endocrinology.');
+    return {
+      dose: 0,
+      symptomAlert: alerts.join("; "),
+      alerts,
+      severity,
+      followUpWeeks: severity === 'severe' ? 2 : 4,
+      referenceRangesUsed,
+      ...(reason && { drugSelectionReason: reason })
+    };
+  }
+
+  const isFirstTrimester = profile.isPregnant && profile.trimester === 1;
+  let dose: number;
+  let followUpWeeks: number;
+
+  if (assessment.subclinical) {
+    dose = PTU_DOSAGE.subclinical;
+    followUpWeeks = 6;
+  } else {
+    dose = PTU_DOSAGE[severity];
+    followUpWeeks = severity === 'severe' ? 2 : 4;
+    alerts.push(`${severity.charAt(0).toUpperCase() + severity.slice(1)} hyperthyroidism - PTU ${dose} mg/day divided into 3 doses (every 8 hours).`);
+  }
+
+  if (isFirstTrimester) {
+    // Lowest effective dose; aim for FT4 at or slightly above the upper limit of normal
+    dose = Math.min(dose, PTU_DOSAGE.pregnancyMaximum);
+    followUpWeeks = Math.min(followUpWeeks, 4);
+    alerts.push(`Pregnancy: use the lowest effective PTU dose (max ${PTU_DOSAGE.pregnancyMaximum} mg/day here) and aim for FT4 at or just above the upper reference limit to avoid fetal hypothyroidism.`);
+    alerts.push('Switch to methimazole at the start of the second trimester to limit PTU liver exposure.');
+  }
+
+  if (profile.hasMethimazoleIntolerance) {
+    alerts.push('Methimazole intolerance: do not use PTU if the reaction was agranulocytosis or hepatotoxicity (cross-reactivity) - consider radioiodine or surgery instead.');
+  }
+
+  // Liver-toxicity monitoring (boxed warning)
+  alerts.push('⚠️ PTU liver toxicity: check baseline liver function tests (ALT, AST, bilirubin) before starting and monitor them during treatment.');
+  alerts.push('⚠️ Stop PTU and seek urgent care for jaundice, dark urine, pale stools, right upper abdominal pain, nausea or unusual fatigue.');
+  if (profile.hasLiverDisease) {
+    alerts.push('⚠️ Existing liver disease - PTU carries a higher risk of hepatotoxicity. Specialist review required before starting.');
+  }
+
+  // Round to whole 50 mg tablets
+  dose = Math.round(dose / PTU_DOSAGE.tabletSize) * PTU_DOSAGE.tabletSize;
+  dose = Math.max(PTU_DOSAGE.tabletSize, Math.min(dose, PTU_DOSAGE.maximum));
+
+  const adjunct = recommendAdjunctTherapy(profile, severity);
+  alerts.push(...adjunct.alerts);
+
+  alerts.push('Titration: Recheck FT4 (± FT3) at 4 weeks and reduce the dose as FT4 normalizes. Do NOT titrate early using TSH.');
+
+  return {
+    dose,
+    symptomAlert: alerts.join("; "),
+    alerts,
+    severity,
+    followUpWeeks,
+    referenceRangesUsed,
+    ...(reason && { drugSelectionReason: reason }),
+    ...(adjunct.adjuncts.length > 0 && { adjunctMedications: adjunct.adjuncts })
+  };
+}
+
+/**
+ * Levothyroxine for central (secondary) hypothyroidism.
+ * TSH does not reflect thyroid status, so the dose is set by weight and titrated to keep
+ * FT4 in the upper half of its reference range.
+ */
+export function calculateCentralHypothyroidDose(profile: PatientProfile): DosageResult {
+  const useFreeT4 = profile.currentFT4 != null;
+  const t4Value = useFreeT4 ? profile.currentFT4 : profile.currentT4;
+  if (t4Value == null) {
+    throw new Error('Free T4 (or total T4) is required for central hypothyroidism dosage calculation.');
+  }
+
+  const alerts: string[] = [];
+  const t4Name = useFreeT4 ? 'FT4' : 'T4';
+  const t4Ref = ReferenceRangeRegistry.resolveForProfile(t4Name, profile);
+  const referenceRangesUsed: ReferenceRangeUsage[] = [ReferenceRangeRegistry.resolveForProfile('TSH', profile), t4Ref];
+  const target = getCentralT4Target(t4Ref);
+
+  alerts.push(`🧠 Central hypothyroidism: TSH cannot guide the dose. Levothyroxine is titrated to keep ${t4Name} in the upper half of the reference range (${target.low}-${target.high} ${t4Ref.units}).`);
+
+  if (profile.hasAdrenalInsufficiency) {
+    alerts.push("Critical: Adrenal insufficiency must be treated with hydrocortisone before giving levothyroxine.");
+    return {
+      dose: 0,
+      symptomAlert: alerts.join("; "),
+      alerts,
+      referenceRangesUsed
+    };
+  }
+  alerts.push("⚠️ Check morning cortisol before starting - levothyroxine can precipitate adrenal crisis when ACTH deficiency is untreated.");
+
+  // Severity from how far T4 is below the lower limit
+  let severity: 'mild' | 'moderate' | 'severe' = 'mild';
+  if (t4Value < t4Ref.low * 0.5) {
+    severity = 'severe';
+  } else if (t4Value < t4Ref.low) {
+    severity = 'moderate';
+  }
+
+  let dose: number;
+  if (profile.currentDose != null && profile.currentDose > 0) {
+    // Already treated - step towards the T4 target
+    const { maxChange, reasonForLimit } = getMaxDoseChange(profile);
+    if (t4Value < target.low) {
+      dose = profile.currentDose + maxChange;
+      alerts.push(`${t4Name} ${t4Value} is below target - increase by ${maxChange} mcg from ${profile.currentDose} mcg${reasonForLimit}.`);
+    } else if (t4Value > target.high) {
+      dose = profile.currentDose - maxChange;
+      alerts.push(`${t4Name} ${t4Value} is above target - reduce by ${maxChange} mcg from ${profile.currentDose} mcg${reasonForLimit}.`);
+    } else {
+      dose = profile.currentDose;
+      alerts.push(`${t4Name} ${t4Value} is on target - continue ${profile.currentDose} mcg.`);
+    }
+  } else {
+    const isElderly = profile.age != null && profile.age >= SAFETY_LIMITS.elderlyAgeThreshold;
+    if (isElderly || profile.hasHighRiskHeartDisease) {
+      dose = CENTRAL_HYPOTHYROID_DOSING.cautiousStartDose;
+      alerts.push(`${isElderly ? 'Elderly patient' : 'High-risk heart disease'} - start at ${dose} mcg and increase slowly against ${t4Name}.`);
+    } else {
+      const weight = profile.weightKg ?? APP_CONFIG.medical.defaultWeight;
+      dose = weight * CENTRAL_HYPOTHYROID_DOSING.fullReplacementPerKg;
+      alerts.push(`Full replacement: ${weight} kg × ${CENTRAL_HYPOTHYROID_DOSING.fullReplacementPerKg} mcg/kg/day${profile.weightKg == null ? ' (default weight - enter weight for accuracy)' : ''}.`);
+    }
+  }
+
+  const interactions = checkDrugInteractions(profile);
+  dose *= interactions.multiplier;
+  alerts.push(...interactions.labAlerts, ...interactions.alerts);
+
+  if (profile.isPregnant) {
+    alerts.push("Pregnancy: requirement rises - recheck FT4 every 4 weeks and keep it in the upper half of the range.");
+  }
+
+  dose = Math.max(SAFETY_LIMITS.minimumDose, Math.min(dose, profile.hasHighRiskHeartDisease ? SAFETY_LIMITS.cardiacMaximumDose : SAFETY_LIMITS.maximumDose));
+  const finalDose = getNearestSafeDose(dose);
+  alerts.push(`Recheck ${t4Name} (not TSH) in ${CENTRAL_HYPOTHYROID_DOSING.followUpWeeks} weeks, with blood drawn before the morning dose.`);
+
+  return {
+    dose: finalDose,
+    nearestTablet: getNearestCommercialTablet(finalDose),
+    symptomAlert: alerts.join("; "),
+    alerts,
+    severity,
+    followUpWeeks: CENTRAL_HYPOTHYROID_DOSING.followUpWeeks,
+    medicalConditionsSummary: generateMedicalConditionsSummary(profile),
+    referenceRangesUsed
   };
 }
 
-function calculateHormoneAdjustmentFactor(profile: PatientProfile, alerts: string[]): number {
+function getCentralT4Target(range: ReferenceRangeUsage): { low: number; high: number } {
+  const low = range.low + (range.high - range.low) * CENTRAL_HYPOTHYROID_DOSING.ft4TargetPosition;
+  return { low: Math.round(low * 100) / 100, high: range.high };
+}
+
+/**
+ * Maximum allowed change (mcg) between consecutive levothyroxine doses.
+ * High-risk heart disease and osteoporosis use the conservative 12.5 mcg step.
+ */
+export function getMaxDoseChange(profile: PatientProfile): { maxChange: number; reasonForLimit: string } {
+  if (profile.hasHighRiskHeartDisease) {
+    return { maxChange: SAFETY_LIMITS.maxDoseChange.conservative, reasonForLimit: ' due to high-risk heart disease' };
+  }
+  if (profile.hasOsteoporosis) {
+    return { maxChange: SAFETY_LIMITS.maxDoseChange.conservative, reasonForLimit: ' due to osteoporosis' };
+  }
+  return { maxChange: SAFETY_LIMITS.maxDoseChange.standard, reasonForLimit: '' };
+}
+
+/**
+ * Anti-TPO / Anti-TG positivity from the profile; null when neither was measured
+ */
+function isAntibodyPositive(profile: PatientProfile): boolean | null {
+  const values = [
+    { value: profile.currentAntiTPO, key: 'AntiTPO' as const },
+    { value: profile.currentAntiTG, key: 'AntiTG' as const }
+  ].filter(entry => entry.value != null);
+  if (values.length === 0) return null;
+
+  return values.some(({ value, key }) => {
+    const limit = profile.reportReferenceRanges?.[key]?.high ?? ANTIBODY_REFERENCE_RANGES[key].high;
+    return value! > limit;
+  });
+}
+
+function calculateHormoneAdjustmentFactor(
+  profile: PatientProfile,
+  alerts: string[],
+  referenceRangesUsed: ReferenceRangeUsage[]
+): number {
   let factor = 1;
 
   const applyLowValueAdjustment = (
@@ -668,7 +1117,8 @@ function calculateHormoneAdjustmentFactor(profile: PatientProfile, alerts: strin
     label: string
   ) => {
     if (value == null) return;
-    const ref = THYROID_REFERENCE_RANGES[key];
+    const ref = ReferenceRangeRegistry.resolveForProfile(key, profile);
+    referenceRangesUsed.push(ref);
     if (value < ref.low) {
       factor *= (1 + increasePercent);
       alerts.push(`${label} (${value} ${ref.units}) is below the reference range (${ref.low}-${ref.high} ${ref.units}) — increasing LT4 dose by ${Math.round(increasePercent * 100)}%.`);
@@ -746,9 +1196,10 @@ export function generateMedicalConditionsSummary(profile: PatientProfile): strin
     conditions.push("GI absorption issues");
   }
 
-  // Estrogen therapy
-  if (profile.onEstrogenTherapy) {
-    conditions.push("Estrogen therapy");
+  // Co-medications
+  const coMedications = getCoMedications(profile);
+  if (coMedications.length > 0) {
+    conditions.push(`Co-medications: ${coMedications.map(medication => DRUG_INTERACTION_RULES[medication].label).join(', ')}`);
   }
 
   // Age-related conditions
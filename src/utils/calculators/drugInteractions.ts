@@ -0,0 +1,59 @@
+import { CoMedication, PatientProfile } from '../../types/medical';
+import { DRUG_INTERACTION_RULES } from '../../constants/medical.constants';
+
+/**
+ * Levothyroxine drug-interaction checker
+ * Applies DRUG_INTERACTION_RULES to the patient's co-medications: dose multipliers,
+ * timing-separation advice and lab-interference warnings.
+ */
+
+export interface DrugInteractionResult {
+  /** Combined multiplier for every co-medication that changes the LT4 requirement */
+  multiplier: number;
+  alerts: string[];
+  /** Warnings that the lab results themselves may be unreliable */
+  labAlerts: string[];
+}
+
+/**
+ * Co-medications from the structured list, plus the legacy onEstrogenTherapy flag
+ */
+export function getCoMedications(profile: Pick<PatientProfile, 'coMedications' | 'onEstrogenTherapy'>): CoMedication[] {
+  const medications = new Set<CoMedication>(profile.coMedications ?? []);
+  if (profile.onEstrogenTherapy) {
+    medications.add('estrogen');
+  }
+  return [...medications];
+}
+
+export function checkDrugInteractions(profile: PatientProfile): DrugInteractionResult {
+  let multiplier = 1;
+  const alerts: string[] = [];
+  const labAlerts: string[] = [];
+  const separated: string[] = [];
+
+  for (const medication of getCoMedications(profile)) {
+    const rule = DRUG_INTERACTION_RULES[medication];
+    if (!rule) continue;
+
+    if (rule.labInterference) {
+      labAlerts.push(rule.alert);
+      continue;
+    }
+
+    if (rule.doseMultiplier) {
+      multiplier *= rule.doseMultiplier;
+    }
+    if (rule.separationHours) {
+      separated.push(rule.label.toLowerCase());
+    }
+    alerts.push(rule.alert);
+  }
+
+  // One reminder covering every binder the patient takes
+  if (separated.length > 1) {
+    alerts.push(`Several absorption-reducing medications (${separated.join(', ')}) – take LT4 alone on an empty stomach and recheck TSH in 6-8 weeks.`);
+  }
+
+  return { multiplier, alerts, labAlerts };
+}
@@ -0,0 +1,113 @@
+import { DoseAdjustment, DosageResult, PatientProfile } from '../../types/medical';
+import {
+  MAINTENANCE_ADJUSTMENT,
+  SAFETY_LIMITS,
+  SEVERITY_THRESHOLDS
+} from '../../constants/medical.constants';
+import { generateMedicalConditionsSummary, getMaxDoseChange, getNearestCommercialTablet } from './dosageCalculator';
+import { checkDrugInteractions } from './drugInteractions';
+import { getRecheckWeeks, getTitrationTargetRange } from './titrationPlanner';
+
+/**
+ * Maintenance adjustment for patients already taking levothyroxine.
+ * The next dose is derived from the current dose and how far TSH is from target,
+ * instead of the weight-based starting dose used for new patients.
+ */
+export function calculateMaintenanceAdjustment(profile: PatientProfile): DosageResult {
+  if (profile.currentDose == null || profile.currentDose <= 0) {
+    throw new Error('Current levothyroxine dose is required for a maintenance adjustment.');
+  }
+  if (profile.currentTSH == null) throw new Error('Current TSH is required for dosage calculation.');
+
+  const alerts: string[] = [];
+  const previousDose = profile.currentDose;
+  const tsh = profile.currentTSH;
+  const target = getTitrationTargetRange(profile);
+  const { maxChange, reasonForLimit } = getMaxDoseChange(profile);
+
+  let delta = 0;
+  let severity: 'mild' | 'moderate' | 'severe' = 'mild';
+  let reason: string;
+
+  if (tsh > target.high) {
+    // Under-replaced
+    if (profile.isPregnant) {
+      delta = Math.max(MAINTENANCE_ADJUSTMENT.smallStep, previousDose * MAINTENANCE_ADJUSTMENT.pregnancyIncrease);
+      reason = `above the pregnancy target (${target.low}-${target.high} mIU/L) - increase by ~${MAINTENANCE_ADJUSTMENT.pregnancyIncrease * 100}%`;
+    } else if (tsh >= SEVERITY_THRESHOLDS.TSH.moderate.min) {
+      delta = maxChange;
+      reason = `well above target (${target.low}-${target.high} mIU/L) - increase by ${maxChange} mcg${reasonForLimit}`;
+    } else {
+      delta = Math.min(MAINTENANCE_ADJUSTMENT.smallStep, maxChange);
+      reason = `slightly above target (${target.low}-${target.high} mIU/L) - small increase`;
+    }
+    severity = tsh >= SEVERITY_THRESHOLDS.TSH.severe.min ? 'severe' : tsh >= SEVERITY_THRESHOLDS.TSH.moderate.min ? 'moderate' : 'mild';
+    alerts.push('Under-replaced: check adherence, timing (empty stomach, 30-60 minutes before breakfast) and new co-medications before increasing.');
+  } else if (tsh < target.low) {
+    // Over-replaced
+    if (tsh < SAFETY_LIMITS.lowTSHThreshold) {
+      delta = -maxChange;
+      reason = `suppressed below target (${target.low}-${target.high} mIU/L) - reduce by ${maxChange} mcg${reasonForLimit}`;
+      severity = 'moderate';
+    } else {
+      delta = -Math.min(MAINTENANCE_ADJUSTMENT.smallStep, maxChange);
+      reason = `below target (${target.low}-${target.high} mIU/L) - small reduction`;
+    }
+    if (profile.hasHighRiskHeartDisease || profile.hasOsteoporosis || (profile.age != null && profile.age >= SAFETY_LIMITS.elderlyAgeThreshold)) {
+      alerts.push('⚠️ Over-replacement raises the risk of atrial fibrillation and bone loss in this patient - do not delay the reduction.');
+    }
+  } else {
+    reason = `within target (${target.low}-${target.high} mIU/L) - continue the current dose`;
+  }
+
+  const grid = MAINTENANCE_ADJUSTMENT.doseGrid;
+  const maximum = profile.hasHighRiskHeartDisease ? SAFETY_LIMITS.cardiacMaximumDose : SAFETY_LIMITS.maximumDose;
+  let newDose = delta === 0
+    ? previousDose
+    : Math.round(Math.max(SAFETY_LIMITS.minimumDose, Math.min(previousDose + delta, maximum)) / grid) * grid;
+
+  // Rounding an off-grid current dose (e.g. 88 mcg) must not reverse the direction
+  if ((delta > 0 && newDose < previousDose) || (delta < 0 && newDose > previousDose)) {
+    newDose = previousDose;
+  }
+
+  if (delta < 0 && newDose === previousDose) {
+    alerts.push(`Already at the minimum dose (${previousDose} mcg) - consider alternate-day dosing or stopping, and confirm the diagnosis.`);
+  }
+  if (delta > 0 && newDose === previousDose) {
+    alerts.push(`Dose is at the safety maximum (${previousDose} mcg) - check absorption and adherence rather than increasing further.`);
+  }
+
+  const change = Math.round((newDose - previousDose) * 10) / 10;
+  const direction: DoseAdjustment['direction'] = change > 0 ? 'increase' : change < 0 ? 'decrease' : 'unchanged';
+  const explanation = direction === 'unchanged'
+    ? `TSH ${tsh} mIU/L is ${delta === 0 ? reason : `${reason}, but ${previousDose} mcg is already at the dose limit`}: stay on ${previousDose} mcg.`
+    : `TSH ${tsh} mIU/L is ${reason}: ${previousDose} mcg → ${newDose} mcg (${change > 0 ? '+' : ''}${change} mcg).`;
+  alerts.unshift(explanation);
+
+  // The current dose already reflects co-medications; only timing and lab warnings apply
+  const interactions = checkDrugInteractions(profile);
+  alerts.push(...interactions.labAlerts, ...interactions.alerts);
+
+  const followUpWeeks = getRecheckWeeks(tsh, target);
+  alerts.push(direction === 'unchanged'
+    ? `Recheck TSH in ${followUpWeeks} weeks.`
+    : `Recheck TSH ${followUpWeeks} weeks after the change (levothyroxine takes ~6 weeks to reach steady state).`);
+
+  return {
+    dose: newDose,
+    nearestTablet: getNearestCommercialTablet(newDose),
+    symptomAlert: alerts.join("; "),
+    alerts,
+    severity,
+    followUpWeeks,
+    medicalConditionsSummary: generateMedicalConditionsSummary(profile),
+    doseAdjustment: {
+      previousDose,
+      newDose,
+      delta: change,
+      direction,
+      explanation
+    }
+  };
+}
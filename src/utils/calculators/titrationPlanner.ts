@@ -0,0 +1,238 @@
+import { DosageResult, PatientProfile, TitrationLabResult, TitrationPlan, TitrationStep } from '../../types/medical';
+import {
+  FOLLOW_UP_SCHEDULE,
+  SAFETY_LIMITS,
+  SEVERITY_THRESHOLDS,
+  TITRATION_TARGETS
+} from '../../constants/medical.constants';
+import { getMaxDoseChange } from './dosageCalculator';
+
+/**
+ * Multi-visit levothyroxine titration planner
+ * Turns a single DosageResult into a dated sequence of dose steps and TSH rechecks,
+ * never changing the dose by more than SAFETY_LIMITS.maxDoseChange between visits.
+ */
+
+export interface TitrationPlanInput {
+  /** Dose the patient is taking today (mcg); null for a patient starting therapy */
+  currentDose: number | null;
+  latestTSH: number;
+  /** Defaults to getTitrationTargetRange(profile) */
+  targetTSH?: { low: number; high: number };
+  /** Calculator output; its dose is used as the goal dose */
+  dosageResult?: DosageResult | null;
+  /** ISO date (YYYY-MM-DD) of the latest lab; defaults to today */
+  labDate?: string | null;
+}
+
+const MAX_PLANNED_STEPS = 8;
+
+export function getTitrationTargetRange(profile: PatientProfile): { low: number; high: number } {
+  let range: { low: number; high: number } = { ...TITRATION_TARGETS.default };
+
+  if (profile.isPregnant) {
+    range = profile.trimester === 1
+      ? { ...TITRATION_TARGETS.pregnancy.trimester1 }
+      : { ...TITRATION_TARGETS.pregnancy.other };
+  }
+
+  if (profile.hasOsteoporosis) {
+    range.low = Math.max(range.low, TITRATION_TARGETS.osteoporosisMinimum);
+  }
+
+  return range;
+}
+
+/**
+ * Weeks to wait before rechecking TSH, based on how far the TSH is from target
+ */
+export function getRecheckWeeks(tsh: number, target: { low: number; high: number }): number {
+  if (tsh >= target.low && tsh <= target.high) return FOLLOW_UP_SCHEDULE.normal;
+  if (tsh >= SEVERITY_THRESHOLDS.TSH.severe.min) return FOLLOW_UP_SCHEDULE.severe;
+  if (tsh >= SEVERITY_THRESHOLDS.TSH.moderate.min) return FOLLOW_UP_SCHEDULE.moderate;
+  return FOLLOW_UP_SCHEDULE.mild;
+}
+
+export function createTitrationPlan(profile: PatientProfile, input: TitrationPlanInput): TitrationPlan {
+  const targetTSH = input.targetTSH ?? getTitrationTargetRange(profile);
+  const { maxChange, reasonForLimit } = getMaxDoseChange(profile);
+  const labDate = input.labDate || toISODate(new Date());
+  const startDose = input.currentDose ?? input.dosageResult?.dose ?? SAFETY_LIMITS.minimumDose;
+
+  const goalDose = input.dosageResult?.dose
+    ? clampDose(input.dosageResult.dose, profile)
+    : estimateGoalDose(startDose, input.latestTSH, targetTSH, maxChange, profile);
+
+  const now = new Date().toISOString();
+  const plan: TitrationPlan = {
+    medication: 'Levothyroxine',
+    status: isWithinTarget(input.latestTSH, targetTSH) ? 'at_target' : 'titrating',
+    targetTSH,
+    maxStepMcg: maxChange,
+    stepLimitReason: reasonForLimit ? reasonForLimit.trim() : undefined,
+    goalDose,
+    steps: [],
+    labHistory: [{ date: labDate, tsh: input.latestTSH }],
+    createdAt: now,
+    updatedAt: now
+  };
+
+  plan.steps = buildSteps(startDose, goalDose, input.latestTSH, labDate, plan, profile, 1);
+
+  // New patients start directly on the calculated dose
+  if (input.currentDose == null && plan.steps.length > 0) {
+    const first = plan.steps[0];
+    const recheckWeeks = getRecheckWeeks(input.latestTSH, targetTSH);
+    plan.steps[0] = {
+      ...first,
+      doseChange: first.dose,
+      note: `Start ${first.dose} mcg daily. Recheck TSH in ${recheckWeeks} weeks.`
+    };
+  }
+  return plan;
+}
+
+/**
+ * Record a new TSH result against the plan and re-plan the remaining steps.
+ * Completed steps are kept; the active and planned steps are regenerated from the new result.
+ */
+export function updateTitrationPlan(
+  plan: TitrationPlan,
+  profile: PatientProfile,
+  lab: TitrationLabResult
+): TitrationPlan {
+  const completed = plan.steps.filter(step => step.status === 'completed');
+  const active = plan.steps.find(step => step.status === 'active');
+  const currentDose = active?.dose ?? completed[completed.length - 1]?.dose ?? plan.goalDose;
+
+  if (active) {
+    completed.push({ ...active, status: 'completed', observedTSH: lab.tsh });
+  }
+
+  let goalDose = plan.goalDose;
+  if (lab.tsh > plan.targetTSH.high && goalDose <= currentDose) {
+    // Goal reached but TSH still above target - allow one more increase
+    goalDose = clampDose(currentDose + plan.maxStepMcg, profile);
+  } else if (lab.tsh < plan.targetTSH.low && goalDose >= currentDose) {
+    // Over-replaced - step back down
+    goalDose = clampDose(currentDose - plan.maxStepMcg, profile);
+  } else if (isWithinTarget(lab.tsh, plan.targetTSH)) {
+    goalDose = currentDose;
+  }
+
+  const updated: TitrationPlan = {
+    ...plan,
+    status: isWithinTarget(lab.tsh, plan.targetTSH) ? 'at_target' : 'titrating',
+    goalDose,
+    labHistory: [...plan.labHistory, lab].sort((a, b) => a.date.localeCompare(b.date)),
+    updatedAt: new Date().toISOString()
+  };
+
+  updated.steps = [
+    ...completed,
+    ...buildSteps(currentDose, goalDose, lab.tsh, lab.date, updated, profile, completed.length + 1)
+  ];
+  return updated;
+}
+
+export function getActiveTitrationStep(plan: TitrationPlan): TitrationStep | null {
+  return plan.steps.find(step => step.status === 'active') ?? null;
+}
+
+function buildSteps(
+  fromDose: number,
+  goalDose: number,
+  latestTSH: number,
+  labDate: string,
+  plan: TitrationPlan,
+  profile: PatientProfile,
+  firstStepNumber: number
+): TitrationStep[] {
+  const steps: TitrationStep[] = [];
+  let dose = fromDose;
+  let startDate = labDate;
+  let recheckWeeks = getRecheckWeeks(latestTSH, plan.targetTSH);
+
+  if (isWithinTarget(latestTSH, plan.targetTSH) || dose === goalDose) {
+    steps.push({
+      stepNumber: firstStepNumber,
+      startDate,
+      labRecheckDate: addWeeks(startDate, recheckWeeks),
+      dose,
+      doseChange: 0,
+      status: 'active',
+      note: isWithinTarget(latestTSH, plan.targetTSH)
+        ? `TSH ${latestTSH} mIU/L is within target (${plan.targetTSH.low}-${plan.targetTSH.high}). Continue current dose.`
+        : `Hold ${dose} mcg and recheck TSH before further changes.`
+    });
+    return steps;
+  }
+
+  while (dose !== goalDose && steps.length < MAX_PLANNED_STEPS) {
+    const remaining = goalDose - dose;
+    const change = Math.sign(remaining) * Math.min(Math.abs(remaining), plan.maxStepMcg);
+    const nextDose = clampDose(dose + change, profile);
+    if (nextDose === dose) break;
+
+    steps.push({
+      stepNumber: firstStepNumber + steps.length,
+      startDate,
+      labRecheckDate: addWeeks(startDate, recheckWeeks),
+      dose: nextDose,
+      doseChange: nextDose - dose,
+      status: steps.length === 0 ? 'active' : 'planned',
+      note: `${nextDose > dose ? 'Increase' : 'Reduce'} by ${Math.abs(nextDose - dose)} mcg${plan.stepLimitReason ? ` (step limited ${plan.stepLimitReason})` : ''}. Recheck TSH in ${recheckWeeks} weeks.`
+    });
+
+    dose = nextDose;
+    startDate = addWeeks(startDate, recheckWeeks);
+    // Later steps are closer to target; levothyroxine needs ~6 weeks to reach steady state
+    recheckWeeks = FOLLOW_UP_SCHEDULE.mild;
+  }
+
+  return steps;
+}
+
+function estimateGoalDose(
+  startDose: number,
+  tsh: number,
+  target: { low: number; high: number },
+  maxChange: number,
+  profile: PatientProfile
+): number {
+  if (isWithinTarget(tsh, target)) return clampDose(startDose, profile);
+  if (tsh < target.low) return clampDose(startDose - maxChange, profile);
+
+  // Rough estimate: one step for mild, two for moderate, three for severe elevation
+  let stepsNeeded = 1;
+  if (tsh >= SEVERITY_THRESHOLDS.TSH.severe.min) {
+    stepsNeeded = 3;
+  } else if (tsh >= SEVERITY_THRESHOLDS.TSH.moderate.min) {
+    stepsNeeded = 2;
+  }
+  return clampDose(startDose + stepsNeeded * maxChange, profile);
+}
+
+function clampDose(dose: number, profile: PatientProfile): number {
+  const maximum = profile.hasHighRiskHeartDisease ? SAFETY_LIMITS.cardiacMaximumDose : SAFETY_LIMITS.maximumDose;
+  const clamped = Math.max(SAFETY_LIMITS.minimumDose, Math.min(dose, maximum));
+  // Keep doses on the 12.5 mcg grid
+  return Math.round(clamped / SAFETY_LIMITS.maxDoseChange.conservative) * SAFETY_LIMITS.maxDoseChange.conservative;
+}
+
+function isWithinTarget(tsh: number, target: { low: number; high: number }): boolean {
+  return tsh >= target.low && tsh <= target.high;
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addWeeks(isoDate: string, weeks: number): string {
+  let date = new Date(`${isoDate}T00:00:00Z`);
+  if (isNaN(date.getTime())) {
+    date = new Date();
+  }
+  date.setUTCDate(date.getUTCDate() + weeks * 7);
+  return toISODate(date);
+}
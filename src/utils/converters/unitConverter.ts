@@ -0,0 +1,83 @@
+import { TestResult } from '../../types/medical';
+import { THYROID_REFERENCE_RANGES, UNIT_CONVERSION_FACTORS } from '../../constants/medical.constants';
+
+export type ThyroidTestKey = keyof typeof THYROID_REFERENCE_RANGES;
+
+export class UnitConverter {
+  /**
+   * Convert a test result to the internal units used by THYROID_REFERENCE_RANGES,
+   * keeping the reported value and units in originalValue/originalUnits
+   */
+  static normalizeTestResult(testKey: ThyroidTestKey, result: TestResult): TestResult {
+    let reportedUnits = result.units;
+    let unitsInferred = false;
+
+    if (!reportedUnits) {
+      reportedUnits = this.inferUnits(testKey, result.value);
+      unitsInferred = reportedUnits !== null;
+    }
+
+    const factor = reportedUnits ? this.getConversionFactor(testKey, reportedUnits) : 1;
+    if (factor === null) {
+      // Unknown unit - keep the value as reported rather than guessing
+      console.warn(`Unrecognized ${testKey} units "${reportedUnits}", value left unconverted`);
+      return {
+        ...result,
+        originalValue: result.value,
+        originalUnits: reportedUnits
+      };
+    }
+
+    return {
+      ...result,
+      value: this.round(result.value * factor),
+      units: THYROID_REFERENCE_RANGES[testKey].units,
+      refRange: result.refRange ? {
+        low: this.round(result.refRange.low * factor),
+        high: this.round(result.refRange.high * factor)
+      } : null,
+      originalValue: result.value,
+      originalUnits: reportedUnits ?? THYROID_REFERENCE_RANGES[testKey].units,
+      ...(unitsInferred && { unitsInferred: true })
+    };
+  }
+
+  /**
+   * Convert a single value; returns null when the units are not recognized
+   */
+  static convertValue(testKey: ThyroidTestKey, value: number, units: string): number | null {
+    const factor = this.getConversionFactor(testKey, units);
+    return factor === null ? null : this.round(value * factor);
+  }
+
+  static getConversionFactor(testKey: ThyroidTestKey, units: string): number | null {
+    const factors: Record<string, number> = UNIT_CONVERSION_FACTORS[testKey];
+    const factor = factors[this.normalizeUnitKey(units)];
+    return factor ?? null;
+  }
+
+  /**
+   * True when the result was converted from units other than the internal ones
+   */
+  static wasConverted(result: { units?: string | null; originalUnits?: string | null }): boolean {
+    if (!result.originalUnits || !result.units) return false;
+    return this.normalizeUnitKey(result.originalUnits) !== this.normalizeUnitKey(result.units);
+  }
+
+  // Lower-case, strip spaces and write both micro signs (µ U+00B5, μ U+03BC) as "u"
+  static normalizeUnitKey(units: string): string {
+    return units.toLowerCase().replace(/\s+/g, '').replace(/[µμ]/g, 'u');
+  }
+
+  // Only for tests whose SI and conventional ranges do not overlap
+  private static inferUnits(testKey: ThyroidTestKey, value: number): string | null {
+    if (testKey === 'FT4' && value > 6) return 'pmol/L';
+    if (testKey === 'T4' && value > 30) return 'nmol/L';
+    if (testKey === 'T3' && value < 10) return 'nmol/L';
+    return null;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
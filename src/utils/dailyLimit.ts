@@ -1,9 +1,11 @@
+import { APP_CONFIG } from '../config/app.config';
+
 /**
- * Monthly limit utilities with per-user tracking
+ * Monthly limit utilities with per-user (or per-patient, see APP_CONFIG.limits.scope) tracking
  */
 
 const MONTHLY_LIMIT_KEY = 'thyroid_monthly_manual_entries_v1';
-const MAX_ENTRIES_PER_MONTH = 10;
+const MAX_ENTRIES_PER_MONTH = APP_CONFIG.limits.monthlyEntries;
 
 interface MonthlyEntryInfo {
   count: number;
@@ -29,8 +31,9 @@ type StoredMonthlyMap = Record<string, StoredUserMonthlyData>;
 export class DailyLimitManager {
   /**
    * Check if a user can create another entry in the current month
+   * @param patientId counted separately when limits are per patient; ignored otherwise
    */
-  static canMakeEntry(userId?: string | null, registrationDate?: string | null): MonthlyLimitStatus {
+  static canMakeEntry(userId?: string | null, registrationDate?: string | null, patientId?: string | null): MonthlyLimitStatus {
     if (!userId) {
       return {
         allowed: false,
@@ -46,14 +49,15 @@ export class DailyLimitManager {
     const cycleStart = new Date(now.getFullYear(), now.getMonth(), 1);
     const cycleEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
 
-    const userData: StoredUserMonthlyData = storage[userId] || { entries: {} };
+    const limitKey = this.buildLimitKey(userId, patientId);
+    const userData: StoredUserMonthlyData = storage[limitKey] || { entries: {} };
 
     if (!userData.registrationDate) {
       const normalizedRegistration = registrationDate
         ? new Date(registrationDate).toISOString()
         : new Date().toISOString();
       userData.registrationDate = normalizedRegistration;
-      storage[userId] = userData;
+      storage[limitKey] = userData;
       this.saveMonthlyMap(storage);
     }
 
@@ -74,19 +78,20 @@ export class DailyLimitManager {
   /**
    * Record a new manual entry for the current month
    */
-  static recordEntry(userId?: string | null): void {
+  static recordEntry(userId?: string | null, patientId?: string | null): void {
     if (!userId) return;
 
     const storage = this.getStoredMonthlyMap();
     const now = new Date();
     const monthKey = this.buildMonthKey(now);
 
-    const userData: StoredUserMonthlyData = storage[userId] || { entries: {} };
+    const limitKey = this.buildLimitKey(userId, patientId);
+    const userData: StoredUserMonthlyData = storage[limitKey] || { entries: {} };
     const entry = userData.entries[monthKey] || { count: 0 };
     entry.count += 1;
     entry.lastEntryTime = now.toISOString();
     userData.entries[monthKey] = entry;
-    storage[userId] = userData;
+    storage[limitKey] = userData;
 
     this.saveMonthlyMap(storage);
   }
@@ -100,10 +105,17 @@ export class DailyLimitManager {
       return;
     }
     const storage = this.getStoredMonthlyMap();
-    delete storage[userId];
+    Object.keys(storage)
+      .filter(key => key === userId || key.startsWith(`${userId}:`))
+      .forEach(key => delete storage[key]);
     this.saveMonthlyMap(storage);
   }
 
+  // Entries are counted under the user id, or `userId:patientId` when limits are per patient
+  private static buildLimitKey(userId: string, patientId?: string | null): string {
+    return APP_CONFIG.limits.scope === 'patient' && patientId ? `${userId}:${patientId}` : userId;
+  }
+
   private static buildMonthKey(date: Date): string {
     return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
   }
@@ -3,6 +3,8 @@ import { PatientProfile } from '../types/medical';
 export interface LoggedCalculation {
   id: string;
   timestamp: string;
+  /** Patient the calculation was for; missing on calculations logged before patients (the default patient's) */
+  patientId?: string | null;
   input: {
     weightKg: number | null;
     age: number | null;
@@ -54,23 +56,29 @@ export class DataLogger {
 
   private static isDuplicateTSHSameDay(
     calculations: LoggedCalculation[],
-    profile: PatientProfile
+    profile: PatientProfile,
+    patientId: string | null
   ): boolean {
     if (profile.currentTSH == null) return false;
     const todayKey = new Date().toISOString().split('T')[0];
     return calculations.some(calc => {
-      if (calc.input.currentTSH == null) return false;
+      if (calc.input.currentTSH == null || (calc.patientId ?? null) !== patientId) return false;
       const calcDate = new Date(calc.timestamp).toISOString().split('T')[0];
       return calcDate === todayKey && calc.input.currentTSH === profile.currentTSH;
     });
   }
 
   // Log calculation to localStorage
-  static logCalculation(profile: PatientProfile, doseResult: { dose: number; symptomAlert?: string }): void {
+  static logCalculation(
+    profile: PatientProfile,
+    doseResult: { dose: number; symptomAlert?: string },
+    patientId: string | null = null
+  ): void {
     try {
       const calculation: LoggedCalculation = {
         id: `calc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         timestamp: new Date().toISOString(),
+        patientId,
         input: {
           weightKg: profile.weightKg,
           age: profile.age,
@@ -107,7 +115,7 @@ export class DataLogger {
       const calculations: LoggedCalculation[] = existingData ? JSON.parse(existingData) : [];
 
       // Prevent duplicates with same-day identical TSH
-      if (this.isDuplicateTSHSameDay(calculations, profile)) {
+      if (this.isDuplicateTSHSameDay(calculations, profile, patientId)) {
         console.info('Skipping duplicate TSH entry for the same day.');
         return;
       }
@@ -213,7 +221,8 @@ export class DataLogger {
   static async logToFirestore(
     userId: string,
     profile: PatientProfile,
-    doseResult: { dose: number; symptomAlert?: string }
+    doseResult: { dose: number; symptomAlert?: string },
+    patientId: string | null = null
   ): Promise<void> {
     try {
       // Respect user consent flag; if not granted, skip cloud logging
@@ -223,7 +232,7 @@ export class DataLogger {
       }
       // Skip cloud logging if this TSH was already recorded today
       const localCalculations = this.getLoggedCalculations();
-      if (this.isDuplicateTSHSameDay(localCalculations, profile)) {
+      if (this.isDuplicateTSHSameDay(localCalculations, profile, patientId)) {
         console.info('Skipping Firestore logging for duplicate same-day TSH entry.');
         return;
       }
@@ -231,6 +240,7 @@ export class DataLogger {
       const calculation: LoggedCalculation = {
         id: `calc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         timestamp: new Date().toISOString(),
+        patientId,
         input: {
           weightKg: profile.weightKg,
           age: profile.age,
@@ -262,11 +272,11 @@ export class DataLogger {
         sessionId: this.getSessionId(),
       };
 
-      // Import FirestoreService dynamically to avoid circular dependencies
-      const { FirestoreService } = await import('../services/FirestoreService');
+      // Import LocalFirstStore dynamically to avoid circular dependencies
+      const { LocalFirstStore } = await import('../services/LocalFirstStore');
       
-      // Save as a patient profile calculation
-      await FirestoreService.savePatientProfile(userId, profile);
+      // Save as a patient profile calculation (kept on this device until it reaches Firestore)
+      await LocalFirstStore.savePatientProfile(userId, profile, patientId);
       
       console.log('Calculation logged to Firestore:', calculation);
     } catch (error) {
@@ -0,0 +1,172 @@
+import { DateOrder, ParsedDate } from '../types/medical';
+
+type DayMonthOrder = Extract<DateOrder, 'DMY' | 'MDY'>;
+
+/** 'auto' follows the browser's locale */
+export type DateOrderSetting = DayMonthOrder | 'auto';
+
+const DATE_ORDER_KEY = 'report_date_order_v1';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const YEAR_FIRST = /^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})(?!\d)/;
+const DAY_MONTH_NAME = /^(\d{1,2})(?:st|nd|rd|th)?[\s/.-]+([A-Za-z]{3,9})\.?[\s/.,-]+(\d{2,4})(?!\d)/;
+const MONTH_NAME_DAY = /^([A-Za-z]{3,9})\.?[\s-]+(\d{1,2})(?:st|nd|rd|th)?,?[\s-]+(\d{2,4})(?!\d)/;
+const NUMERIC = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})(?!\d)/;
+const NUMERIC_IN_TEXT = /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})\b/g;
+
+export interface DateHints {
+  /** Date order of the matched lab template */
+  templateOrder?: DateOrder | null;
+  /** Order shown by other dates on the same report (see inferOrder) */
+  documentOrder?: DateOrder | null;
+}
+
+/**
+ * Converts report dates to ISO (YYYY-MM-DD). Numeric dates such as 03/04/2025 are
+ * read using, in order: the lab template, a day above 12, other dates on the report,
+ * then the user's date format setting; a date decided by the setting alone is flagged as ambiguous.
+ */
+export class DateParser {
+  static parse(raw: string | null | undefined, hints: DateHints = {}): ParsedDate | null {
+    const text = raw?.trim();
+    if (!text) return null;
+
+    const yearFirst = text.match(YEAR_FIRST);
+    if (yearFirst) {
+      return this.build(+yearFirst[1], +yearFirst[2], +yearFirst[3], 'unambiguous');
+    }
+
+    const dayMonthName = text.match(DAY_MONTH_NAME);
+    if (dayMonthName) {
+      return this.build(+dayMonthName[3], this.monthFromName(dayMonthName[2]), +dayMonthName[1], 'unambiguous');
+    }
+
+    const monthNameDay = text.match(MONTH_NAME_DAY);
+    if (monthNameDay) {
+      return this.build(+monthNameDay[3], this.monthFromName(monthNameDay[1]), +monthNameDay[2], 'unambiguous');
+    }
+
+    const numeric = text.match(NUMERIC);
+    if (!numeric) return null;
+
+    const [first, second, year] = [+numeric[1], +numeric[2], +numeric[3]];
+    if (first === second) return this.build(year, second, first, 'unambiguous');
+    if (first > 12) return this.build(year, second, first, 'unambiguous');
+    if (second > 12) return this.build(year, first, second, 'unambiguous');
+
+    const { templateOrder, documentOrder } = hints;
+    let order: DayMonthOrder = this.getPreferredOrder();
+    let resolvedBy: ParsedDate['resolvedBy'] = 'locale';
+    if (this.isDayMonthOrder(templateOrder)) {
+      [order, resolvedBy] = [templateOrder, 'template'];
+    } else if (this.isDayMonthOrder(documentOrder)) {
+      [order, resolvedBy] = [documentOrder, 'document'];
+    }
+    return order === 'MDY'
+      ? this.build(year, first, second, resolvedBy)
+      : this.build(year, second, first, resolvedBy);
+  }
+
+  /** Review note for a date whose day / month order came from the setting alone */
+  static ambiguityNote(): string {
+    const order = this.getPreferredOrder() === 'MDY' ? 'MM/DD' : 'DD/MM';
+    return `Day and month could not be told apart - read as ${order} from your date format setting`;
+  }
+
+  /** ISO date, or null when the text is not a readable date */
+  static toISO(raw: string | null | undefined, hints: DateHints = {}): string | null {
+    return this.parse(raw, hints)?.iso ?? null;
+  }
+
+  /**
+   * Date order shown by the numeric dates in a report: one with a first part above 12
+   * means DD/MM, a second part above 12 means MM/DD. Null when none decide it or they disagree.
+   */
+  static inferOrder(text: string): DateOrder | null {
+    let dayFirst = false;
+    let monthFirst = false;
+    for (const match of text.matchAll(NUMERIC_IN_TEXT)) {
+      const [first, second] = [+match[1], +match[2]];
+      if (first > 12 && second <= 12) dayFirst = true;
+      if (second > 12 && first <= 12) monthFirst = true;
+    }
+    if (dayFirst === monthFirst) return null;
+    return dayFirst ? 'DMY' : 'MDY';
+  }
+
+  /** Today's local date as ISO */
+  static today(): string {
+    return this.formatISO(new Date());
+  }
+
+  static formatISO(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  /** The user's date format setting; 'auto' unless they chose one in Settings */
+  static getOrderSetting(): DateOrderSetting {
+    try {
+      const stored = localStorage.getItem(DATE_ORDER_KEY);
+      return stored === 'DMY' || stored === 'MDY' ? stored : 'auto';
+    } catch {
+      return 'auto';
+    }
+  }
+
+  static setOrderSetting(setting: DateOrderSetting): void {
+    try {
+      if (setting === 'auto') {
+        localStorage.removeItem(DATE_ORDER_KEY);
+      } else {
+        localStorage.setItem(DATE_ORDER_KEY, setting);
+      }
+    } catch (error) {
+      console.warn('Failed to save date format setting:', error);
+    }
+  }
+
+  /** Order used for ambiguous numeric dates: the user's setting, else the browser locale's */
+  static getPreferredOrder(): DayMonthOrder {
+    const setting = this.getOrderSetting();
+    return setting === 'auto' ? this.getLocaleOrder() : setting;
+  }
+
+  // Year-first locales (e.g. ja-JP) still write day-first when the year comes last
+  static getLocaleOrder(): DayMonthOrder {
+    try {
+      const parts = new Intl.DateTimeFormat().formatToParts(new Date(2000, 10, 22));
+      const order = parts
+        .filter(part => part.type === 'day' || part.type === 'month' || part.type === 'year')
+        .map(part => part.type[0].toUpperCase())
+        .join('');
+      return order === 'MDY' ? 'MDY' : 'DMY';
+    } catch {
+      return 'DMY';
+    }
+  }
+
+  // A year-first order says nothing about dates written with the year last
+  private static isDayMonthOrder(order: DateOrder | null | undefined): order is DayMonthOrder {
+    return order === 'DMY' || order === 'MDY';
+  }
+
+  private static monthFromName(name: string): number {
+    return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+  }
+
+  private static build(
+    year: number,
+    month: number,
+    day: number,
+    resolvedBy: ParsedDate['resolvedBy']
+  ): ParsedDate | null {
+    // Two-digit years: up to next year is this century, later ones are the previous (birth dates)
+    const nextYear = (new Date().getFullYear() + 1) % 100;
+    const fullYear = year >= 100 ? year : year <= nextYear ? 2000 + year : 1900 + year;
+    const date = new Date(fullYear, month - 1, day);
+    if (month < 1 || month > 12 || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+
+    return { iso: this.formatISO(date), resolvedBy, ambiguous: resolvedBy === 'locale' };
+  }
+}
@@ -0,0 +1,62 @@
+import { CumulativeResultSet, LayoutTableRow, LayoutTextItem } from '../../types/medical';
+import { CUMULATIVE_PATTERNS, TABLE_ROW_PATTERNS } from '../regex/patterns';
+import { TableLayoutExtractor } from './tableLayoutExtractor';
+
+export class CumulativeExtractor {
+  /**
+   * Results of each collection date of a cumulative (trend) report, in printed order.
+   * Empty when the report only holds one date. Layout tables are read first, then the flattened text.
+   */
+  static extractResultSets(text: string, layoutItems: LayoutTextItem[] = []): CumulativeResultSet[] {
+    const fromLayout = TableLayoutExtractor.extractCumulativeResults(layoutItems)
+      .filter(set => set.rows.length > 0);
+    if (fromLayout.length >= 2) return fromLayout;
+
+    const fromText = this.extractFromText(text);
+    return fromText.length >= 2 ? fromText : [];
+  }
+
+  // Flattened trend table: a run of dates, then each test name followed by one value per date
+  private static extractFromText(text: string): CumulativeResultSet[] {
+    const header = [...text.matchAll(CUMULATIVE_PATTERNS.dateRun)]
+      .map(match => ({ match, dates: match[0].match(CUMULATIVE_PATTERNS.date) ?? [] }))
+      .sort((a, b) => b.dates.length - a.dates.length)[0];
+    if (!header || header.match.index === undefined) return [];
+
+    const { dates } = header;
+    const body = text.slice(header.match.index + header.match[0].length);
+    const valuesPattern = CUMULATIVE_PATTERNS.values(dates.length);
+    const rowsByDate: LayoutTableRow[][] = dates.map(() => []);
+    // Text already read as another test, so "T4" is not found again inside "Free T4"
+    const claimed: [number, number][] = [];
+
+    for (const [, namePattern] of CUMULATIVE_PATTERNS.testNames) {
+      for (const nameMatch of body.matchAll(namePattern)) {
+        const start = nameMatch.index ?? 0;
+        const nameEnd = start + nameMatch[0].length;
+        if (claimed.some(([from, to]) => start < to && nameEnd > from)) continue;
+
+        const valuesMatch = body.slice(nameEnd).match(valuesPattern);
+        if (!valuesMatch) continue;
+        claimed.push([start, nameEnd + valuesMatch[0].length]);
+
+        const unit = [valuesMatch[1], valuesMatch[3]]
+          .map(candidate => candidate?.trim())
+          .find(candidate => candidate && TABLE_ROW_PATTERNS.unit.test(candidate)) ?? null;
+        const values = valuesMatch[2].match(CUMULATIVE_PATTERNS.value) ?? [];
+        values.forEach((value, index) => rowsByDate[index]?.push({
+          testName: nameMatch[0],
+          result: value.trim(),
+          unit,
+          referenceRange: valuesMatch[4] ?? null,
+          page: 0
+        }));
+        break;
+      }
+    }
+
+    return dates
+      .map((date, index) => ({ date, rows: rowsByDate[index] }))
+      .filter(set => set.rows.length > 0);
+  }
+}
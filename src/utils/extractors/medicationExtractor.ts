@@ -0,0 +1,121 @@
+import { DetectedMedication } from '../../types/medical';
+import { MEDICATION_PATTERNS } from '../regex/patterns';
+import { DETECTED_MEDICATION_LIMITS, EXTRACTION_CONFIDENCE } from '../../constants/medical.constants';
+
+interface MedicationMention {
+  medication: DetectedMedication['medication'];
+  brand: string | null;
+  dailyDose: number;
+  hasUnit: boolean;
+  index: number;
+  snippet: string;
+}
+
+const DOSES_PER_DAY: [RegExp, number][] = [
+  [/^(?:BD|BID|twice)/i, 2],
+  [/^(?:TDS|TID|thrice|three)/i, 3]
+];
+
+export class MedicationExtractor {
+  /**
+   * Current thyroid medication mentioned on the report (e.g. "On Thyronorm 50 mcg", "Tab Eltroxin 75").
+   * The first mention wins; different doses elsewhere on the report lower the confidence.
+   */
+  static extractMedication(text: string): DetectedMedication | null {
+    const mentions = this.findMentions(text).sort((a, b) => a.index - b.index);
+    if (mentions.length === 0) return null;
+
+    const [first] = mentions;
+    const limits = DETECTED_MEDICATION_LIMITS[first.medication];
+    const { withUnit, withoutUnit, conflictingDoses } = EXTRACTION_CONFIDENCE.medication;
+    const issues: string[] = [];
+    let confidence: number = first.hasUnit ? withUnit : withoutUnit;
+
+    if (!first.hasUnit) {
+      issues.push(`No unit printed - read as ${limits.unit}`);
+    }
+    const otherDoses = [...new Set(mentions
+      .filter(mention => mention.medication !== first.medication || mention.dailyDose !== first.dailyDose)
+      .map(mention => `${mention.medication} ${mention.dailyDose} ${DETECTED_MEDICATION_LIMITS[mention.medication].unit}`))];
+    if (otherDoses.length > 0) {
+      issues.push(`Also mentioned: ${otherDoses.join(', ')} - check which is the current dose`);
+      confidence -= conflictingDoses;
+    }
+
+    return {
+      medication: first.medication,
+      brand: first.brand,
+      dailyDose: first.dailyDose,
+      unit: limits.unit,
+      extraction: {
+        confidence: Math.round(confidence * 100) / 100,
+        snippet: first.snippet,
+        method: 'pattern',
+        issues
+      }
+    };
+  }
+
+  private static findMentions(text: string): MedicationMention[] {
+    const mentions: MedicationMention[] = [];
+
+    for (const [medication, namePattern, kind] of MEDICATION_PATTERNS.names) {
+      for (const nameMatch of text.matchAll(namePattern)) {
+        const start = nameMatch.index ?? 0;
+        const before = text.slice(Math.max(0, start - 20), start);
+        if (MEDICATION_PATTERNS.testPrefix.test(before)) continue;
+
+        const afterName = text.slice(start + nameMatch[0].length);
+        const strengthMatch = afterName.match(MEDICATION_PATTERNS.strength);
+        if (!strengthMatch) continue;
+
+        const prefixed = MEDICATION_PATTERNS.prefix.test(before);
+        const unit = strengthMatch[2]?.toLowerCase() ?? null;
+        // "Thyroxine 8.5" is more likely a total T4 result than a prescription
+        if (kind === 'generic' && !prefixed && !unit) continue;
+
+        const strength = this.toDailyUnit(medication, parseFloat(strengthMatch[1]), unit);
+        if (strength === null) continue;
+
+        const afterStrength = afterName.slice(strengthMatch[0].length);
+        const frequencyMatch = afterStrength.match(MEDICATION_PATTERNS.frequency);
+        const dosesPerDay = frequencyMatch
+          ? DOSES_PER_DAY.find(([pattern]) => pattern.test(frequencyMatch[1]))?.[1] ?? 1
+          : 1;
+        const dailyDose = strength * dosesPerDay;
+
+        const limits = DETECTED_MEDICATION_LIMITS[medication];
+        if (dailyDose < limits.min || dailyDose > limits.max) continue;
+
+        const prefixMatch = prefixed ? before.match(MEDICATION_PATTERNS.prefix) : null;
+        const snippetStart = start - (prefixMatch?.[0].length ?? 0);
+        const snippetEnd = start + nameMatch[0].length + strengthMatch[0].length + (frequencyMatch?.[0].length ?? 0);
+        mentions.push({
+          medication,
+          brand: kind === 'brand' ? nameMatch[0] : null,
+          dailyDose,
+          hasUnit: unit !== null,
+          index: start,
+          snippet: text.slice(snippetStart, snippetEnd).trim()
+        });
+      }
+    }
+
+    return mentions;
+  }
+
+  // Strength in the unit the dose is kept in: mcg for levothyroxine ("0.05 mg" = 50 mcg), mg for methimazole
+  private static toDailyUnit(
+    medication: DetectedMedication['medication'],
+    value: number,
+    unit: string | null
+  ): number | null {
+    if (isNaN(value) || value <= 0) return null;
+    const isMg = unit === 'mg';
+    if (medication === 'Levothyroxine') {
+      if (!isMg) return value;
+      return value < 1 ? Math.round(value * 1000 * 10) / 10 : null;
+    }
+    return unit === null || isMg ? value : null;
+  }
+}
@@ -1,8 +1,28 @@
-import { PatientInfo } from '../../types/medical';
+import { FieldExtraction, LabReportTemplate, PatientInfo } from '../../types/medical';
 import { PATIENT_PATTERNS } from '../regex/patterns';
+import { EXTRACTION_CONFIDENCE } from '../../constants/medical.constants';
+import { DateParser } from '../dateParser';
 
 export class PatientExtractor {
-  static extractPatientInfo(text: string): PatientInfo {
+  static extractPatientInfo(text: string, template: LabReportTemplate | null = null): PatientInfo {
+    return this.extractWithConfidence(text, template).patientInfo;
+  }
+
+  /**
+   * Patient details plus the confidence and source text of each field found.
+   * Patterns of the matched lab template are tried first, then the generic ones.
+   */
+  static extractWithConfidence(text: string, template: LabReportTemplate | null = null): {
+    patientInfo: PatientInfo;
+    extraction: Partial<Record<keyof PatientInfo, FieldExtraction>>;
+  } {
+    const extraction: Partial<Record<keyof PatientInfo, FieldExtraction>> = {};
+    const { combinedPattern, labelledPattern, unlabelledDate } = EXTRACTION_CONFIDENCE.patientInfo;
+    const record = (field: keyof PatientInfo, confidence: number, snippet: string, issues: string[] = []) => {
+      extraction[field] = { confidence, snippet: snippet.trim(), method: 'pattern', issues };
+    };
+    const patterns = template?.patient ?? {};
+
     const patientInfo: PatientInfo = {
       name: null,
       age: null,
@@ -10,47 +30,92 @@ export class PatientExtractor {
       date: null
     };
 
-    // Extract Name + Age + Gender (pattern: "Mr/Mrs/Ms NAME (44Y/F)")
-    const nameMatch = text.match(PATIENT_PATTERNS.nameAgeGender);
+    // Template: name + age + gender in one match (e.g. "Mr/Mrs/Ms NAME (44Y/F)")
+    const nameMatch = patterns.nameAgeGender && text.match(patterns.nameAgeGender);
     if (nameMatch) {
       patientInfo.name = nameMatch[1].trim();
       patientInfo.age = parseInt(nameMatch[2]);
-      patientInfo.gender = nameMatch[3] === "F" ? "Female" : "Male";
+      patientInfo.gender = this.parseGender(nameMatch[3]);
+      (['name', 'age', 'gender'] as const).forEach(field => record(field, combinedPattern, nameMatch[0]));
+    }
+
+    // Template: age + gender in one match (e.g. "Age/Sex : 44 Y / M")
+    const ageGenderMatch = !patientInfo.age && patterns.ageGender && text.match(patterns.ageGender);
+    if (ageGenderMatch) {
+      patientInfo.age = parseInt(ageGenderMatch[1]);
+      patientInfo.gender = this.parseGender(ageGenderMatch[2]);
+      (['age', 'gender'] as const).forEach(field => record(field, combinedPattern, ageGenderMatch[0]));
     }
 
     // Alternative name extraction if not found
     if (!patientInfo.name) {
-      const altNameMatch = text.match(PATIENT_PATTERNS.nameOnly);
+      const altNameMatch = this.matchFirst(text, patterns.name, PATIENT_PATTERNS.nameOnly);
       if (altNameMatch) {
         patientInfo.name = altNameMatch[1].trim();
+        record('name', labelledPattern, altNameMatch[0]);
       }
     }
 
     // Extract age separately if not found
     if (!patientInfo.age) {
-      const ageMatch = text.match(PATIENT_PATTERNS.agePattern);
+      const ageMatch = this.matchFirst(text, patterns.age, PATIENT_PATTERNS.agePattern);
       if (ageMatch) {
         patientInfo.age = parseInt(ageMatch[1]);
+        record('age', labelledPattern, ageMatch[0]);
       }
     }
 
     // Extract gender separately if not found
     if (!patientInfo.gender) {
-      const genderMatch = text.match(PATIENT_PATTERNS.genderPattern);
+      const genderMatch = this.matchFirst(text, patterns.gender, PATIENT_PATTERNS.genderPattern);
       if (genderMatch) {
-        const gender = genderMatch[1].toLowerCase();
-        patientInfo.gender = gender === 'f' || gender === 'female' ? 'Female' : 'Male';
+        patientInfo.gender = this.parseGender(genderMatch[1]);
+        record('gender', labelledPattern, genderMatch[0]);
       }
     }
 
+    // Template date pattern is labelled (e.g. "Reported On"), so it is trusted over the first date found
+    const templateDate = patterns.date && text.match(patterns.date);
     // Extract Date (various report formats)
-    const dateMatch = text.match(PATIENT_PATTERNS.datePattern) 
-      || text.match(PATIENT_PATTERNS.dateNumeric) 
+    const dateMatch = templateDate
+      || text.match(PATIENT_PATTERNS.datePattern)
+      || text.match(PATIENT_PATTERNS.dateNumeric)
       || text.match(PATIENT_PATTERNS.dateDmySlashes);
     if (dateMatch) {
-      patientInfo.date = dateMatch[1];
+      const parsed = DateParser.parse(dateMatch[1], {
+        templateOrder: template?.dateFormat,
+        documentOrder: DateParser.inferOrder(text)
+      });
+      const issues: string[] = [];
+      let confidence: number = templateDate ? labelledPattern : unlabelledDate;
+      if (!templateDate) {
+        // First date on the report; could be the birth or collection date
+        issues.push('Date was not labelled - check it is the report date');
+      }
+      if (!parsed) {
+        issues.push(`"${dateMatch[1]}" could not be read as a date`);
+        confidence = 0;
+      } else if (parsed.ambiguous) {
+        issues.push(DateParser.ambiguityNote());
+        confidence -= EXTRACTION_CONFIDENCE.penalties.ambiguousDate;
+      }
+      patientInfo.date = parsed?.iso ?? null;
+      record('date', Math.round(confidence * 100) / 100, dateMatch[0], issues);
+    }
+
+    return { patientInfo, extraction };
+  }
+
+  private static matchFirst(text: string, ...patterns: (RegExp | undefined)[]): RegExpMatchArray | null {
+    for (const pattern of patterns) {
+      const match = pattern && text.match(pattern);
+      if (match) return match;
     }
+    return null;
+  }
 
-    return patientInfo;
+  private static parseGender(raw: string): 'Male' | 'Female' {
+    const gender = raw.trim().toLowerCase();
+    return gender === 'f' || gender === 'female' ? 'Female' : 'Male';
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,317 @@
+import { CumulativeResultSet, LayoutTableRow, LayoutTextItem } from '../../types/medical';
+import { CUMULATIVE_PATTERNS, TABLE_ROW_PATTERNS } from '../regex/patterns';
+
+type ColumnKind = 'name' | 'result' | 'unit' | 'range';
+
+interface Cell {
+  text: string;
+  x: number;
+  right: number;
+}
+
+interface Line {
+  page: number;
+  y: number;
+  cells: Cell[];
+}
+
+interface HeaderColumn {
+  kind: ColumnKind;
+  x: number;
+  centre: number;
+}
+
+// Cumulative report header: a column per collection date (plus unit / range columns)
+interface DateColumn {
+  kind: 'date' | 'unit' | 'range';
+  date: string | null;
+  x: number;
+  centre: number;
+}
+
+// Cumulative report header: a column per test, one row per collection date
+interface TestColumn {
+  testName: string;
+  unit: string | null;
+  centre: number;
+}
+
+interface DatedRow {
+  date: string;
+  row: LayoutTableRow;
+}
+
+// Items on the same line may sit this fraction of the text height apart vertically
+const LINE_TOLERANCE = 0.5;
+// A horizontal gap wider than this many text heights starts a new cell
+const CELL_GAP = 1.0;
+
+/**
+ * Rebuilds lab result tables from the positions of PDF text items.
+ * Rows come from items sharing a baseline, cells from horizontal gaps, and
+ * columns from the table header when one is found (otherwise from cell contents).
+ */
+export class TableLayoutExtractor {
+  static extractRows(items: LayoutTextItem[]): LayoutTableRow[] {
+    const rows: LayoutTableRow[] = [];
+    let columns: HeaderColumn[] | null = null;
+    let currentPage = 0;
+
+    for (const line of this.buildLines(items)) {
+      // Header columns do not carry over to the next page
+      if (line.page !== currentPage) {
+        currentPage = line.page;
+        columns = null;
+      }
+
+      const header = this.detectHeader(line);
+      if (header) {
+        columns = header;
+        continue;
+      }
+
+      const row = (columns && this.readRowByColumns(line, columns)) || this.readRowByContent(line);
+      if (row) rows.push(row);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Cumulative reports print the results of several collection dates side by side:
+   * either a column per date or a row per date. Returns each date's rows in printed order.
+   */
+  static extractCumulativeResults(items: LayoutTextItem[]): CumulativeResultSet[] {
+    const byDate = new Map<string, LayoutTableRow[]>();
+    let dateColumns: DateColumn[] | null = null;
+    let testColumns: TestColumn[] | null = null;
+    let currentPage = 0;
+
+    for (const line of this.buildLines(items)) {
+      if (line.page !== currentPage) {
+        currentPage = line.page;
+        dateColumns = null;
+        testColumns = null;
+      }
+
+      const dateHeader = this.detectDateHeader(line);
+      const testHeader = dateHeader ? null : this.detectTestHeader(line);
+      if (dateHeader || testHeader) {
+        dateColumns = dateHeader;
+        testColumns = testHeader;
+        continue;
+      }
+
+      const datedRows = dateColumns ? this.readRowAcrossDates(line, dateColumns)
+        : testColumns ? this.readDateRow(line, testColumns)
+        : [];
+      datedRows.forEach(({ date, row }) => byDate.set(date, [...(byDate.get(date) ?? []), row]));
+    }
+
+    return [...byDate].map(([date, rows]) => ({ date, rows }));
+  }
+
+  private static buildLines(items: LayoutTextItem[]): Line[] {
+    const lines: Line[] = [];
+    const byPage = new Map<number, LayoutTextItem[]>();
+    items
+      .filter(item => item.str.trim().length > 0)
+      .forEach(item => byPage.set(item.page, [...(byPage.get(item.page) ?? []), item]));
+
+    [...byPage.keys()].sort((a, b) => a - b).forEach(page => {
+      // Top of the page first
+      const pageItems = byPage.get(page)!.sort((a, b) => b.y - a.y || a.x - b.x);
+      let group: LayoutTextItem[] = [];
+
+      const flush = () => {
+        if (group.length > 0) {
+          lines.push({ page, y: group[0].y, cells: this.buildCells(group) });
+          group = [];
+        }
+      };
+
+      pageItems.forEach(item => {
+        const tolerance = Math.max(1, item.height * LINE_TOLERANCE);
+        if (group.length > 0 && Math.abs(group[0].y - item.y) > tolerance) {
+          flush();
+        }
+        group.push(item);
+      });
+      flush();
+    });
+
+    return lines;
+  }
+
+  private static buildCells(items: LayoutTextItem[]): Cell[] {
+    const cells: Cell[] = [];
+    [...items].sort((a, b) => a.x - b.x).forEach(item => {
+      const last = cells[cells.length - 1];
+      const gap = last ? item.x - last.right : Infinity;
+      if (last && gap <= Math.max(item.height, 1) * CELL_GAP) {
+        last.text = `${last.text}${gap > 0.5 ? ' ' : ''}${item.str.trim()}`;
+        last.right = Math.max(last.right, item.x + item.width);
+      } else {
+        cells.push({ text: item.str.trim(), x: item.x, right: item.x + item.width });
+      }
+    });
+    return cells.map(cell => ({ ...cell, text: cell.text.replace(/\s+/g, ' ').trim() }));
+  }
+
+  // A header row names the result column and at least one of unit / reference range
+  private static detectHeader(line: Line): HeaderColumn[] | null {
+    const { header } = TABLE_ROW_PATTERNS;
+    const columns: HeaderColumn[] = [];
+
+    line.cells.forEach(cell => {
+      const kind: ColumnKind | null = header.result.test(cell.text) ? 'result'
+        : header.unit.test(cell.text) ? 'unit'
+        : header.range.test(cell.text) ? 'range'
+        : header.name.test(cell.text) ? 'name'
+        : null;
+      if (kind && !columns.some(column => column.kind === kind)) {
+        columns.push({ kind, x: cell.x, centre: (cell.x + cell.right) / 2 });
+      }
+    });
+
+    const hasResult = columns.some(column => column.kind === 'result');
+    const hasDetail = columns.some(column => column.kind === 'unit' || column.kind === 'range');
+    return hasResult && hasDetail ? columns : null;
+  }
+
+  private static readRowByColumns(line: Line, columns: HeaderColumn[]): LayoutTableRow | null {
+    const valueColumns = columns.filter(column => column.kind !== 'name');
+    const firstValueX = Math.min(...valueColumns.map(column => column.x));
+    const values: Partial<Record<ColumnKind, string>> = {};
+
+    line.cells.forEach(cell => {
+      // Test names are left-aligned and may be wider than their header
+      let kind: ColumnKind = 'name';
+      if (cell.right > firstValueX) {
+        const centre = (cell.x + cell.right) / 2;
+        kind = valueColumns.reduce((nearest, column) =>
+          Math.abs(column.centre - centre) < Math.abs(nearest.centre - centre) ? column : nearest
+        ).kind;
+      }
+      values[kind] = values[kind] ? `${values[kind]} ${cell.text}` : cell.text;
+    });
+
+    const result = values.result?.trim();
+    if (!values.name || !result || !TABLE_ROW_PATTERNS.number.test(result)) return null;
+
+    return {
+      testName: values.name,
+      result,
+      unit: values.unit ?? null,
+      referenceRange: values.range ?? null,
+      page: line.page
+    };
+  }
+
+  // No header: the first cell is the name and the rest are classified by what they contain
+  private static readRowByContent(line: Line): LayoutTableRow | null {
+    const [nameCell, ...rest] = line.cells;
+    if (!nameCell || !/[a-z]/i.test(nameCell.text) || rest.length === 0) return null;
+
+    let result: string | null = null;
+    let unit: string | null = null;
+    let referenceRange: string | null = null;
+
+    for (const { text } of rest) {
+      if (!unit && TABLE_ROW_PATTERNS.unit.test(text)) {
+        unit = text;
+      } else if (!result && TABLE_ROW_PATTERNS.number.test(text)) {
+        result = text;
+      } else if (!referenceRange && TABLE_ROW_PATTERNS.range.test(text)) {
+        referenceRange = text;
+      } else if (!result) {
+        // Value and unit printed together, e.g. "2.45 uIU/mL"
+        const [value, ...unitParts] = text.split(' ');
+        if (TABLE_ROW_PATTERNS.number.test(value) && TABLE_ROW_PATTERNS.unit.test(unitParts.join(' '))) {
+          result = value;
+          unit = unit ?? unitParts.join(' ');
+        }
+      }
+    }
+
+    if (!result) return null;
+    return { testName: nameCell.text, result, unit, referenceRange, page: line.page };
+  }
+
+  // Two or more date cells on one line, e.g. "Test | 12/01/2024 | 03/05/2024 | Units | Range"
+  private static detectDateHeader(line: Line): DateColumn[] | null {
+    const { header } = TABLE_ROW_PATTERNS;
+    const columns: DateColumn[] = line.cells.flatMap((cell): DateColumn[] => {
+      const centre = (cell.x + cell.right) / 2;
+      if (CUMULATIVE_PATTERNS.dateCell.test(cell.text)) return [{ kind: 'date', date: cell.text, x: cell.x, centre }];
+      if (header.unit.test(cell.text)) return [{ kind: 'unit', date: null, x: cell.x, centre }];
+      if (header.range.test(cell.text)) return [{ kind: 'range', date: null, x: cell.x, centre }];
+      return [];
+    });
+    return columns.filter(column => column.kind === 'date').length >= 2 ? columns : null;
+  }
+
+  // Two or more test name cells on one line, e.g. "Date | TSH (mIU/L) | FT4 (ng/dL)"
+  private static detectTestHeader(line: Line): TestColumn[] | null {
+    const columns: TestColumn[] = line.cells.flatMap(cell => {
+      const unitMatch = cell.text.match(/\(([^)]+)\)/);
+      const testName = cell.text.replace(/\([^)]*\)/, '').trim();
+      if (!TABLE_ROW_PATTERNS.testNames.some(([, pattern]) => pattern.test(testName))) return [];
+      return [{
+        testName,
+        unit: unitMatch && TABLE_ROW_PATTERNS.unit.test(unitMatch[1].trim()) ? unitMatch[1].trim() : null,
+        centre: (cell.x + cell.right) / 2
+      }];
+    });
+    return columns.length >= 2 ? columns : null;
+  }
+
+  // A test row under a date header: the name, then one result per date column
+  private static readRowAcrossDates(line: Line, columns: DateColumn[]): DatedRow[] {
+    const [nameCell, ...rest] = line.cells;
+    const firstDateX = Math.min(...columns.filter(column => column.kind === 'date').map(column => column.x));
+    if (!nameCell || !/[a-z]/i.test(nameCell.text) || nameCell.right > firstDateX) return [];
+
+    const results = new Map<string, string>();
+    let unit: string | null = null;
+    let referenceRange: string | null = null;
+
+    for (const cell of rest) {
+      const centre = (cell.x + cell.right) / 2;
+      const column = columns.reduce((nearest, candidate) =>
+        Math.abs(candidate.centre - centre) < Math.abs(nearest.centre - centre) ? candidate : nearest
+      );
+      if (column.kind === 'date' && column.date && TABLE_ROW_PATTERNS.number.test(cell.text)) {
+        results.set(column.date, cell.text);
+      } else if (TABLE_ROW_PATTERNS.unit.test(cell.text)) {
+        unit = cell.text;
+      } else if (TABLE_ROW_PATTERNS.range.test(cell.text)) {
+        referenceRange = cell.text;
+      }
+    }
+
+    return [...results].map(([date, result]) => ({
+      date,
+      row: { testName: nameCell.text, result, unit, referenceRange, page: line.page }
+    }));
+  }
+
+  // A date row under a test header: the date, then one result per test column
+  private static readDateRow(line: Line, columns: TestColumn[]): DatedRow[] {
+    const [dateCell, ...rest] = line.cells;
+    if (!dateCell || !CUMULATIVE_PATTERNS.dateCell.test(dateCell.text)) return [];
+
+    return rest
+      .filter(cell => TABLE_ROW_PATTERNS.number.test(cell.text))
+      .map(cell => {
+        const centre = (cell.x + cell.right) / 2;
+        const column = columns.reduce((nearest, candidate) =>
+          Math.abs(candidate.centre - centre) < Math.abs(nearest.centre - centre) ? candidate : nearest
+        );
+        return {
+          date: dateCell.text,
+          row: { testName: column.testName, result: cell.text, unit: column.unit, referenceRange: null, page: line.page }
+        };
+      });
+  }
+}
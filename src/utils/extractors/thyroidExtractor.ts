@@ -1,27 +1,162 @@
-import { ThyroidTests, TestResult } from '../../types/medical';
-import { THYROID_TEST_PATTERNS } from '../regex/patterns';
-import { THYROID_REFERENCE_RANGES } from '../../constants/medical.constants';
+import {
+  AntibodyTestName,
+  LabReportTemplate,
+  LayoutTableRow,
+  TemplateTestPattern,
+  ThyroidTests,
+  TestResult
+} from '../../types/medical';
+import { ADDITIONAL_PATTERNS, TABLE_ROW_PATTERNS, THYROID_TEST_PATTERNS } from '../regex/patterns';
+import { ANTIBODY_REFERENCE_RANGES, THYROID_REFERENCE_RANGES } from '../../constants/medical.constants';
+import { UnitConverter, ThyroidTestKey } from '../converters/unitConverter';
+import { ReferenceRangeContext, ReferenceRangeRegistry } from '../referenceRanges/referenceRangeRegistry';
+import { ExtractionValidator } from '../validators/extractionValidator';
 
 export class ThyroidExtractor {
-  static extractThyroidTests(text: string): ThyroidTests {
+  /**
+   * @param rangeContext lab / assay / population used for tests without a printed reference range
+   * @param rows table rows rebuilt from the PDF layout; pattern matching fills in the tests not found in them
+   * @param template matched lab template; its test patterns are tried before the generic ones
+   */
+  static extractThyroidTests(
+    text: string,
+    rangeContext: ReferenceRangeContext = {},
+    rows: LayoutTableRow[] = [],
+    template: LabReportTemplate | null = null
+  ): ThyroidTests {
     console.log('DEBUG: ENTIRE EXTRACTED TEXT:', text);
-    const tests: ThyroidTests = {};
+    const tests: ThyroidTests = this.extractFromRows(rows, rangeContext);
+    const tableRead = Object.keys(tests).length > 0;
 
-    // Extract each thyroid test
+    // Extract each thyroid test the table did not have
     Object.entries(THYROID_TEST_PATTERNS).forEach(([testKey, config]) => {
-      const testResult = this.extractSingleTest(text, config, testKey);
+      if (tests[testKey as keyof ThyroidTests]) return;
+      // The flattened text cannot tell "Free T4" apart from "T4", so a bare T3 / T4 must not add to a table that was read
+      if (tableRead && (testKey === 'T3' || testKey === 'T4')) return;
+      const templatePattern = template?.tests?.[testKey as ThyroidTestKey];
+      const testResult = (templatePattern && this.extractTemplateTest(text, templatePattern, testKey as ThyroidTestKey, rangeContext))
+        || this.extractSingleTest(text, config, testKey, rangeContext);
       if (testResult) {
         tests[testKey as keyof ThyroidTests] = testResult;
       }
     });
 
+    if (!tests.AntiTPO) {
+      const antiTPO = this.extractAntibody(text, template?.antibodies?.AntiTPO ?? ADDITIONAL_PATTERNS.antiTPO, 'AntiTPO');
+      if (antiTPO) tests.AntiTPO = antiTPO;
+    }
+    if (!tests.AntiTG) {
+      const antiTG = this.extractAntibody(text, template?.antibodies?.AntiTG ?? ADDITIONAL_PATTERNS.antiTG, 'AntiTG');
+      if (antiTG) tests.AntiTG = antiTG;
+    }
+
+    return tests;
+  }
+
+  /**
+   * Structured rows: the test name, result, unit and range columns are already separated.
+   * Also used for each collection date of a cumulative report.
+   */
+  static extractFromRows(rows: LayoutTableRow[], rangeContext: ReferenceRangeContext): ThyroidTests {
+    const tests: ThyroidTests = {};
+
+    rows.forEach(row => {
+      const entry = TABLE_ROW_PATTERNS.testNames.find(([, pattern]) => pattern.test(row.testName));
+      if (!entry) return;
+      const testKey = entry[0];
+      if (tests[testKey]) return;
+
+      const valueMatch = row.result.match(TABLE_ROW_PATTERNS.number);
+      const value = valueMatch ? parseFloat(valueMatch[1].replace(',', '.')) : NaN;
+      if (isNaN(value)) return;
+
+      const bounds = row.referenceRange?.match(TABLE_ROW_PATTERNS.rangeBounds);
+      const upperLimit = row.referenceRange?.match(TABLE_ROW_PATTERNS.upperLimit);
+      const refRange = bounds
+        ? { low: parseFloat(bounds[1]), high: parseFloat(bounds[2]) }
+        : upperLimit ? { low: 0, high: parseFloat(upperLimit[1]) } : null;
+
+      let testResult: TestResult;
+      if (testKey === 'AntiTPO' || testKey === 'AntiTG') {
+        const defaults = ANTIBODY_REFERENCE_RANGES[testKey];
+        const range = refRange ?? { low: 0, high: defaults.high };
+        testResult = {
+          label: row.testName,
+          value,
+          units: row.unit || defaults.units,
+          refRange: range,
+          refRangeSource: refRange ? 'report' : 'default',
+          status: this.determineStatus(value, range)
+        };
+      } else {
+        testResult = this.finalizeTestResult(testKey, {
+          label: row.testName,
+          value,
+          units: row.unit,
+          refRange
+        }, rangeContext);
+      }
+
+      const snippet = [row.testName, row.result, row.unit, row.referenceRange].filter(Boolean).join('  ');
+      tests[testKey] = { ...testResult, extraction: ExtractionValidator.scoreTest(testKey, testResult, 'table', snippet) };
+    });
+
     return tests;
   }
 
+  private static extractAntibody(text: string, pattern: RegExp, testKey: AntibodyTestName): TestResult | null {
+    const match = text.match(pattern);
+    if (!match) return null;
+
+    const value = parseFloat(match[1]);
+    if (isNaN(value)) return null;
+
+    // Antibodies only have an upper limit; reports print it as "< 34" or "0 - 34"
+    const defaults = ANTIBODY_REFERENCE_RANGES[testKey];
+    const printedHigh = match[3] ? parseFloat(match[3]) : NaN;
+    const refRange = { low: 0, high: isNaN(printedHigh) ? defaults.high : printedHigh };
+
+    const testResult: TestResult = {
+      label: testKey,
+      value,
+      units: match[2] || defaults.units,
+      refRange,
+      refRangeSource: isNaN(printedHigh) ? 'default' : 'report',
+      status: this.determineStatus(value, refRange)
+    };
+    return { ...testResult, extraction: ExtractionValidator.scoreTest(testKey, testResult, 'pattern', match[0]) };
+  }
+
+  // Lab template pattern: capture groups are declared by the template instead of fixed per test
+  private static extractTemplateTest(
+    text: string,
+    templatePattern: TemplateTestPattern,
+    testKey: ThyroidTestKey,
+    rangeContext: ReferenceRangeContext
+  ): TestResult | null {
+    const match = text.match(templatePattern.pattern);
+    if (!match) return null;
+
+    const { groups } = templatePattern;
+    const value = parseFloat(match[groups.value]);
+    if (isNaN(value)) return null;
+    const low = groups.low ? parseFloat(match[groups.low]) : NaN;
+    const high = groups.high ? parseFloat(match[groups.high]) : NaN;
+
+    const testResult = this.finalizeTestResult(testKey, {
+      label: testKey,
+      value,
+      units: (groups.units && match[groups.units]) || null,
+      refRange: !isNaN(low) && !isNaN(high) ? { low, high } : null
+    }, rangeContext);
+    return { ...testResult, extraction: ExtractionValidator.scoreTest(testKey, testResult, 'pattern', match[0]) };
+  }
+
   private static extractSingleTest(
     text: string, 
     config: { pattern: RegExp; alternativePatterns: readonly RegExp[] }, 
-    testKey: string
+    testKey: string,
+    rangeContext: ReferenceRangeContext
   ): TestResult | null {
     if (testKey === 'TSH') {
       console.log('DEBUG: Extracting TSH from text:', text.slice(0, 200));
@@ -32,6 +167,8 @@ export class ThyroidExtractor {
       console.log('DEBUG: TSH regex match:', match);
     }
     
+    let method: 'pattern' | 'alternative_pattern' = 'pattern';
+    
     // If no match, try alternative patterns
     if (!match && config.alternativePatterns) {
       for (const altPattern of [...config.alternativePatterns]) {
@@ -39,6 +176,7 @@ export class ThyroidExtractor {
         if (altMatch) {
           // Convert alternative pattern match to main pattern format
           match = [altMatch[0], testKey, altMatch[1], '', '', ''];
+          method = 'alternative_pattern';
           break;
         }
       }
@@ -52,24 +190,47 @@ export class ThyroidExtractor {
       testResult = {
         label: match[1]?.trim() || testKey,
         value: parseFloat(match[5]),
-        units: match[2] ? (match[2] === 'μIU/mL' ? 'mIU/L' : match[2]) : this.getDefaultUnits(testKey),
+        units: match[2] || null,
         refRange: match[3] && match[4] ? {
           low: parseFloat(match[3]),
           high: parseFloat(match[4])
-        } : this.getDefaultRefRange(testKey)
+        } : null
       };
     } else {
       testResult = {
         label: match[1]?.trim() || testKey,
         value: parseFloat(match[2]),
-        units: match[3] ? (match[3] === 'μIU/mL' ? 'mIU/L' : match[3]) : this.getDefaultUnits(testKey),
+        units: match[3] || null,
         refRange: match[4] && match[5] ? {
           low: parseFloat(match[4]),
           high: parseFloat(match[5])
-        } : this.getDefaultRefRange(testKey)
+        } : null
       };
     }
 
+    testResult = this.finalizeTestResult(testKey as ThyroidTestKey, testResult, rangeContext);
+    return { ...testResult, extraction: ExtractionValidator.scoreTest(testKey as ThyroidTestKey, testResult, method, match[0]) };
+  }
+
+  // Unit conversion, default units / reference range and status shared by both extraction paths
+  private static finalizeTestResult(
+    testKey: ThyroidTestKey,
+    testResult: TestResult,
+    rangeContext: ReferenceRangeContext
+  ): TestResult {
+    // Convert SI / alternate units to the internal units used by the calculators
+    testResult = UnitConverter.normalizeTestResult(testKey, testResult);
+    if (!testResult.units) {
+      testResult.units = this.getDefaultUnits(testKey);
+    }
+    if (testResult.refRange) {
+      testResult.refRangeSource = 'report';
+    } else {
+      const resolved = ReferenceRangeRegistry.resolve(testKey, rangeContext);
+      testResult.refRange = { low: resolved.low, high: resolved.high };
+      testResult.refRangeSource = 'default';
+    }
+
     // Determine status based on reference range
     if (testResult.refRange) {
       testResult.status = this.determineStatus(testResult.value, testResult.refRange);
@@ -83,11 +244,6 @@ export class ThyroidExtractor {
     return refRange?.units || '';
   }
 
-  private static getDefaultRefRange(testKey: string): { low: number; high: number } | null {
-    const refRange = THYROID_REFERENCE_RANGES[testKey as keyof typeof THYROID_REFERENCE_RANGES];
-    return refRange ? { low: refRange.low, high: refRange.high } : null;
-  }
-
   private static determineStatus(value: number, refRange: { low: number; high: number }): 'normal' | 'high' | 'low' {
     if (value < refRange.low) return 'low';
     if (value > refRange.high) return 'high';
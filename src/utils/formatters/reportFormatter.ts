@@ -1,4 +1,5 @@
 import { MedicalReport, DosageRecommendation } from '../../types/medical';
+import { UnitConverter } from '../converters/unitConverter';
 
 export class ReportFormatter {
   static generateSummaryText(
@@ -28,6 +29,9 @@ export class ReportFormatter {
     Object.entries(tests).forEach(([testName, test]) => {
       if (test) {
         summary += `${testName}: ${test.value} ${test.units || ''} `;
+        if (UnitConverter.wasConverted(test)) {
+          summary += `(reported as ${test.originalValue} ${test.originalUnits}) `;
+        }
         if (test.status) {
           summary += `(${test.status.toUpperCase()})`;
         }
@@ -55,7 +59,17 @@ export class ReportFormatter {
         summary += `Frequency: ${recommendation.frequency}\n`;
         summary += `Follow-up: ${recommendation.followUpWeeks} weeks\n\n`;
       }
-      
+
+      if (recommendation.adjunctMedications?.length) {
+        summary += `ADJUNCT THERAPY\n`;
+        summary += `${'-'.repeat(15)}\n`;
+        recommendation.adjunctMedications.forEach(adjunct => {
+          summary += `${adjunct.medication}: ${adjunct.dose} ${adjunct.unit}, ${adjunct.frequency}\n`;
+          summary += `  Reason: ${adjunct.reason}\n`;
+        });
+        summary += `\n`;
+      }
+
       summary += `CLINICAL REASONING\n`;
       summary += `${'-'.repeat(18)}\n`;
       summary += `${recommendation.reasoning}\n\n`;
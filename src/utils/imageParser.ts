@@ -0,0 +1,112 @@
+import { FileValidator } from './validators/fileValidator';
+import type { OCREngine } from './ocr/ocrEngine';
+import { APP_CONFIG } from '../config/app.config';
+import { ExtractedContent, OCRWord, ParseOptions } from '../types/medical';
+
+export class ImageParser {
+  // OCR one or more photos of a report; each image is treated as a page, in upload order
+  static async extractContent(files: File[], options: ParseOptions = {}): Promise<ExtractedContent> {
+    const { onProgress, signal } = options;
+    if (files.length === 0) {
+      throw new Error('No images selected');
+    }
+    if (files.length > APP_CONFIG.upload.maxImageCount) {
+      throw new Error(`Please upload at most ${APP_CONFIG.upload.maxImageCount} images per report`);
+    }
+
+    // Loaded on first use rather than with the app
+    let ocrEngine: typeof OCREngine | null = null;
+    const cancel = () => {
+      void ocrEngine?.terminate();
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+
+    try {
+      for (const file of files) {
+        await FileValidator.validateImageFile(file);
+      }
+      ocrEngine = (await import('./ocr/ocrEngine')).OCREngine;
+
+      let fullText = '';
+      const pages: number[] = [];
+      const words: OCRWord[] = [];
+      const pageConfidences: number[] = [];
+
+      for (let index = 0; index < files.length; index++) {
+        signal?.throwIfAborted();
+        const pageNum = index + 1;
+        onProgress?.(files.length > 1
+          ? `Reading image ${pageNum} of ${files.length}...`
+          : 'Reading image...');
+
+        const canvas = await ImageParser.loadImageToCanvas(files[index]);
+        const result = await ocrEngine.recognize(canvas, pageNum);
+
+        fullText += result.text + '\n';
+        pages.push(pageNum);
+        words.push(...result.words);
+        pageConfidences.push(result.confidence);
+      }
+
+      // Validate extracted content
+      FileValidator.validateFileContent(fullText);
+
+      return {
+        text: fullText,
+        ocr: {
+          pages,
+          averageConfidence: Math.round(pageConfidences.reduce((sum, c) => sum + c, 0) / pageConfidences.length),
+          words
+        }
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      console.error('Error reading report images:', error);
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('Failed to read report images');
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+      await ocrEngine?.terminate();
+    }
+  }
+
+  private static async loadImageToCanvas(file: File): Promise<HTMLCanvasElement> {
+    const blob = FileValidator.isHeicFile(file) ? await ImageParser.convertHeic(file) : file;
+
+    let bitmap: ImageBitmap;
+    try {
+      bitmap = await createImageBitmap(blob);
+    } catch {
+      throw new Error(`Could not read image ${file.name}`);
+    }
+
+    // Phone photos are far larger than OCR needs
+    const scale = Math.min(1, APP_CONFIG.upload.maxImageDimension / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      bitmap.close();
+      throw new Error('Canvas is not available for OCR');
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas;
+  }
+
+  // Browsers other than Safari cannot decode HEIC, so convert to JPEG on the device
+  private static async convertHeic(file: File): Promise<Blob> {
+    try {
+      const { default: heic2any } = await import('heic2any');
+      const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+      return Array.isArray(converted) ? converted[0] : converted;
+    } catch {
+      throw new Error(`Could not convert HEIC image ${file.name}`);
+    }
+  }
+}
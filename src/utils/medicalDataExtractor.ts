@@ -1,9 +1,30 @@
-import { MedicalReport, PatientInfo, ThyroidTests, TestResult } from '../types/medical';
+import {
+  AntibodyTestName,
+  DetectedMedication,
+  ExtractionFieldReview,
+  LayoutTextItem,
+  MedicalReport,
+  OCRWord,
+  PatientInfo,
+  TestResult,
+  ThyroidTestName
+} from '../types/medical';
 import { PatientExtractor } from './extractors/patientExtractor';
 import { ThyroidExtractor } from './extractors/thyroidExtractor';
+import { TableLayoutExtractor } from './extractors/tableLayoutExtractor';
+import { CumulativeExtractor } from './extractors/cumulativeExtractor';
+import { MedicationExtractor } from './extractors/medicationExtractor';
+import { ReferenceRangeRegistry } from './referenceRanges/referenceRangeRegistry';
+import { LabTemplateRegistry } from './templates/labTemplateRegistry';
+import { UnitConverter } from './converters/unitConverter';
+import { EXTRACTION_CONFIDENCE } from '../constants/medical.constants';
+import { DateParser } from './dateParser';
 
 export class MedicalDataExtractor {
-  static extractMedicalReportData(text: string): MedicalReport {
+  /**
+   * @param layoutItems positioned PDF text items; when present, lab tables are read row by row
+   */
+  static extractMedicalReportData(text: string, layoutItems: LayoutTextItem[] = []): MedicalReport {
     const result: MedicalReport = {
       patientInfo: {
         name: null,
@@ -18,20 +39,213 @@ export class MedicalDataExtractor {
     // Normalize text
     const cleanText = text.replace(/\s+/g, " ").replace(/[\r\n]+/g, "\n");
 
+    // Detect lab / assay so unprinted reference ranges come from the right registry entry
+    result.labName = ReferenceRangeRegistry.detectLabName(cleanText);
+    result.assay = ReferenceRangeRegistry.detectAssay(cleanText);
+
+    // Known lab formats get their own patterns; everything else uses the generic ones
+    const template = LabTemplateRegistry.detect(cleanText, result.labName);
+    result.templateId = template?.id ?? null;
+
     // Extract patient information
-    result.patientInfo = PatientExtractor.extractPatientInfo(cleanText);
-    
-    // Extract test results
-    result.tests = ThyroidExtractor.extractThyroidTests(cleanText);
+    const patient = PatientExtractor.extractWithConfidence(cleanText, template);
+    result.patientInfo = patient.patientInfo;
+    result.patientInfoExtraction = patient.extraction;
+
+    // Extract test results (layout rows first, pattern matching as fallback)
+    result.tests = ThyroidExtractor.extractThyroidTests(cleanText, {
+      labName: result.labName,
+      assay: result.assay,
+      population: ReferenceRangeRegistry.getPopulation({ age: result.patientInfo.age, isPregnant: false })
+    }, TableLayoutExtractor.extractRows(layoutItems), template);
+
+    // Current medication from clinical notes; only pre-fills the profile once the user confirms it
+    result.medication = MedicationExtractor.extractMedication(cleanText);
 
     // Fallback: if date still missing, try to find a standalone date-like token near 'Report' or 'Date'
     if (!result.patientInfo.date) {
       const quick = text.match(/Report\s*(?:Date|Dt\.?)[\s:]+([\w\/-]+)/i) || text.match(/Date[\s:]+([\w\/-]+)/i);
-      if (quick) {
-        result.patientInfo.date = quick[1];
+      const parsed = quick && DateParser.parse(quick[1], {
+        templateOrder: template?.dateFormat,
+        documentOrder: DateParser.inferOrder(cleanText)
+      });
+      if (quick && parsed) {
+        result.patientInfo.date = parsed.iso;
+        result.patientInfoExtraction.date = {
+          confidence: parsed.ambiguous
+            ? EXTRACTION_CONFIDENCE.patientInfo.labelledPattern - EXTRACTION_CONFIDENCE.penalties.ambiguousDate
+            : EXTRACTION_CONFIDENCE.patientInfo.labelledPattern,
+          snippet: quick[0].trim(),
+          method: 'pattern',
+          issues: parsed.ambiguous ? [DateParser.ambiguityNote()] : []
+        };
       }
     }
 
     return result;
   }
-}
\ No newline at end of file
+
+  /**
+   * One report per collection date for cumulative (trend) reports, latest date first
+   * (printed order if a date cannot be read); a single report otherwise.
+   * Patient and lab details are shared by every date.
+   */
+  static extractMedicalReports(text: string, layoutItems: LayoutTextItem[] = []): MedicalReport[] {
+    const report = this.extractMedicalReportData(text, layoutItems);
+    const cleanText = text.replace(/\s+/g, " ").replace(/[\r\n]+/g, "\n");
+
+    const resultSets = CumulativeExtractor.extractResultSets(cleanText, layoutItems);
+    if (resultSets.length < 2) return [report];
+
+    // Dates of one column share an order, so a day above 12 in any of them settles the rest
+    const dateHints = {
+      templateOrder: LabTemplateRegistry.getById(report.templateId)?.dateFormat,
+      documentOrder: DateParser.inferOrder(resultSets.map(set => set.date).join(' ')) ?? DateParser.inferOrder(cleanText)
+    };
+    const rangeContext = {
+      labName: report.labName,
+      assay: report.assay,
+      population: ReferenceRangeRegistry.getPopulation({ age: report.patientInfo.age, isPregnant: false })
+    };
+    const dated = resultSets
+      .map(set => ({
+        printedDate: set.date,
+        parsed: DateParser.parse(set.date, dateHints),
+        tests: ThyroidExtractor.extractFromRows(set.rows, rangeContext)
+      }))
+      .filter(entry => Object.keys(entry.tests).length > 0);
+    if (dated.length < 2) return [report];
+
+    // ISO dates sort as text; keep the printed order when a date cannot be read
+    if (dated.every(entry => entry.parsed)) {
+      dated.sort((a, b) => b.parsed!.iso.localeCompare(a.parsed!.iso));
+    }
+
+    const { labelledPattern } = EXTRACTION_CONFIDENCE.patientInfo;
+    return dated.map(({ printedDate, parsed, tests }, index) => ({
+      ...report,
+      patientInfo: { ...report.patientInfo, date: parsed?.iso ?? null },
+      patientInfoExtraction: {
+        ...report.patientInfoExtraction,
+        date: {
+          confidence: !parsed ? 0
+            : parsed.ambiguous ? labelledPattern - EXTRACTION_CONFIDENCE.penalties.ambiguousDate
+            : labelledPattern,
+          snippet: printedDate,
+          method: 'table',
+          issues: !parsed ? [`"${printedDate}" could not be read as a date`]
+            : parsed.ambiguous ? [DateParser.ambiguityNote()]
+            : []
+        }
+      },
+      tests,
+      cumulative: { index, total: dated.length }
+    }));
+  }
+
+  // Mark test values read from OCR'd pages whose digits were recognised with low confidence
+  static flagLowConfidenceValues(report: MedicalReport, words: OCRWord[], threshold: number): void {
+    const numericWords = words
+      .map(word => ({ ...word, number: parseFloat(word.text.replace(',', '.').replace(/[^0-9.]/g, '')) }))
+      .filter(word => !isNaN(word.number));
+
+    Object.values(report.tests).forEach((test: TestResult | undefined) => {
+      if (!test) return;
+      const printed = test.originalValue ?? test.value;
+      const matches = numericWords.filter(word => word.number === printed);
+
+      // A value that cannot be traced to a recognised word is treated as uncertain
+      const confidence = matches.length > 0 ? Math.min(...matches.map(word => word.confidence)) : 0;
+      test.ocrConfidence = confidence;
+      test.lowConfidence = confidence < threshold;
+      if (test.extraction && test.lowConfidence) {
+        test.extraction = {
+          ...test.extraction,
+          confidence: Math.min(test.extraction.confidence, confidence / 100),
+          issues: [...test.extraction.issues, `Read from a scanned page with ${confidence}% OCR confidence`]
+        };
+      }
+    });
+  }
+
+  /**
+   * Apply the values the user accepted on the review screen.
+   * Test values are entered as printed on the report and converted like extracted ones;
+   * a cleared value removes the test. `medication` is the detected medication as accepted by the user
+   * (confirmed or not). Returns the per-field record used to measure extractor accuracy.
+   */
+  static applyReview(
+    report: MedicalReport,
+    patientInfo: PatientInfo,
+    printedValues: Partial<Record<ThyroidTestName | AntibodyTestName, number | null>>,
+    medication: DetectedMedication | null = report.medication ?? null
+  ): { report: MedicalReport; fields: ExtractionFieldReview[] } {
+    const fields: ExtractionFieldReview[] = [];
+    const tests: MedicalReport['tests'] = {};
+
+    (Object.keys(report.tests) as (ThyroidTestName | AntibodyTestName)[]).forEach(key => {
+      const test = report.tests[key];
+      if (!test) return;
+      const extracted = test.originalValue ?? test.value;
+      const accepted = printedValues[key] === undefined ? extracted : printedValues[key];
+      const corrected = accepted !== extracted;
+
+      fields.push({
+        field: key,
+        extractedValue: extracted,
+        finalValue: accepted ?? null,
+        corrected,
+        confidence: test.extraction?.confidence ?? null,
+        method: test.extraction?.method ?? null
+      });
+
+      if (accepted == null || isNaN(accepted)) return;
+
+      let value = accepted;
+      if (corrected && key !== 'AntiTPO' && key !== 'AntiTG' && test.originalUnits) {
+        value = UnitConverter.convertValue(key, accepted, test.originalUnits) ?? accepted;
+      }
+      const range = test.refRange;
+      tests[key] = {
+        ...test,
+        value,
+        ...(corrected && { originalValue: accepted }),
+        ...(range && { status: value < range.low ? 'low' : value > range.high ? 'high' : 'normal' }),
+        lowConfidence: false
+      };
+    });
+
+    (Object.keys(patientInfo) as (keyof PatientInfo)[]).forEach(field => {
+      const extracted = report.patientInfo[field];
+      const accepted = patientInfo[field];
+      if (extracted == null && accepted == null) return;
+      // Names are personal data and are not kept in the accuracy record
+      const recordValue = (value: string | number | null) => (field === 'name' ? null : value);
+      fields.push({
+        field,
+        extractedValue: recordValue(extracted),
+        finalValue: recordValue(accepted),
+        corrected: extracted !== accepted,
+        confidence: report.patientInfoExtraction?.[field]?.confidence ?? null,
+        method: report.patientInfoExtraction?.[field]?.method ?? null
+      });
+    });
+
+    if (report.medication) {
+      const finalDose = medication?.confirmed ? medication.dailyDose : null;
+      fields.push({
+        field: 'currentDose',
+        extractedValue: report.medication.dailyDose,
+        finalValue: finalDose,
+        corrected: finalDose !== report.medication.dailyDose,
+        confidence: report.medication.extraction.confidence,
+        method: report.medication.extraction.method
+      });
+    }
+
+    return {
+      report: { ...report, patientInfo, tests, medication, reviewed: true },
+      fields
+    };
+  }
+}
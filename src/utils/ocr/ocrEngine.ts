@@ -0,0 +1,71 @@
+import { createWorker, Worker } from 'tesseract.js';
+import workerPath from 'tesseract.js/dist/worker.min.js?url';
+import corePath from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import engTrainedDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { OCRWord } from '../../types/medical';
+
+export interface OCRPageResult {
+  text: string;
+  /** Mean word confidence for the page (0-100) */
+  confidence: number;
+  words: OCRWord[];
+}
+
+/**
+ * In-browser OCR for scanned report pages.
+ * The worker, WASM core and English language data are bundled with the app,
+ * so page images never leave the device.
+ */
+export class OCREngine {
+  private static workerPromise: Promise<Worker> | null = null;
+
+  private static getWorker(): Promise<Worker> {
+    if (!this.workerPromise) {
+      // The worker fetches `${langPath}/eng.traineddata.gz` itself; the build keeps that file name unhashed
+      const langPath = engTrainedDataUrl.slice(0, engTrainedDataUrl.lastIndexOf('/'));
+      this.workerPromise = createWorker('eng', 1, {
+        workerPath,
+        corePath,
+        langPath,
+        gzip: true,
+        workerBlobURL: false,
+        cacheMethod: 'none'
+      });
+
+      // Allow a retry if initialisation failed
+      this.workerPromise.catch(() => {
+        this.workerPromise = null;
+      });
+    }
+    return this.workerPromise;
+  }
+
+  static async recognize(canvas: HTMLCanvasElement, page: number): Promise<OCRPageResult> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(canvas, {}, { text: true, blocks: true });
+
+    const words: OCRWord[] = (data.blocks ?? [])
+      .flatMap(block => block.paragraphs)
+      .flatMap(paragraph => paragraph.lines)
+      .flatMap(line => line.words)
+      .map(word => ({ text: word.text, confidence: Math.round(word.confidence), page }));
+
+    const confidence = words.length > 0
+      ? Math.round(words.reduce((sum, word) => sum + word.confidence, 0) / words.length)
+      : 0;
+
+    return { text: data.text, confidence, words };
+  }
+
+  static async terminate(): Promise<void> {
+    if (!this.workerPromise) return;
+    const pending = this.workerPromise;
+    this.workerPromise = null;
+    try {
+      const worker = await pending;
+      await worker.terminate();
+    } catch {
+      // Worker never started; nothing to release
+    }
+  }
+}
@@ -1,181 +1,282 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import type {
+  PDFDocumentLoadingTask,
+  PDFDocumentProxy,
+  PDFPageProxy,
+  TextItem,
+  TextMarkedContent
+} from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
 import { FileValidator } from './validators/fileValidator';
+import type { OCREngine } from './ocr/ocrEngine';
+import { APP_CONFIG } from '../config/app.config';
+import { DateParser } from './dateParser';
+import { DateOrder, ExtractedContent, LayoutTextItem, OCRWord, PDFParseOptions } from '../types/medical';
 
-// Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
+// The pdf.js worker is bundled with the app, so parsing works offline and where CDNs are blocked
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Report details (and the report date) are usually on the first pages
+const DATE_SEARCH_PAGES = 3;
+
+const MONTH_ABBREVIATIONS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/** The PDF is encrypted and no password tried so far opened it */
+export class PDFPasswordError extends Error {
+  constructor(public readonly reason: 'required' | 'incorrect') {
+    super(reason === 'required'
+      ? 'This PDF is password protected'
+      : 'The password did not open this PDF');
+    this.name = 'PDFPasswordError';
+  }
+}
 
 export class PDFParser {
   static async extractTextFromPDF(file: File): Promise<string> {
+    const { text } = await PDFParser.extractContent(file);
+    return text;
+  }
+
+  /**
+   * Parse the PDF once for its text, positioned items and report date.
+   * Text layer first; pages without one (scanned reports) fall back to local OCR.
+   */
+  static async extractContent(file: File, options: PDFParseOptions = {}): Promise<ExtractedContent> {
+    const { onProgress, signal } = options;
+    // Validate file first
+    await FileValidator.validatePDFFile(file);
+    signal?.throwIfAborted();
+
+    const data = await file.arrayBuffer();
+    // One loading task per password attempt
+    const loadingTasks: PDFDocumentLoadingTask[] = [];
+    // Loaded on the first scanned page, so PDFs with a text layer never download the OCR engine
+    let ocrEngine: typeof OCREngine | null = null;
+    const cancel = () => {
+      loadingTasks.forEach(task => void task.destroy());
+      void ocrEngine?.terminate();
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+
     try {
-      // Validate file first
-      await FileValidator.validatePDFFile(file);
-      
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+      onProgress?.('Opening PDF...');
+      const pdf = await PDFParser.openDocument(data, options, task => {
+        loadingTasks.push(task);
+      });
       
-      let fullText = '';
+      const pageTexts: string[] = [];
+      const layoutItems: LayoutTextItem[] = [];
+      const ocrPages: number[] = [];
+      const ocrWords: OCRWord[] = [];
+      const pageConfidences: number[] = [];
       
       for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        signal?.throwIfAborted();
+        if (pdf.numPages > 1) {
+          onProgress?.(`Reading page ${pageNum} of ${pdf.numPages}...`);
+        }
         const page = await pdf.getPage(pageNum);
         const textContent = await page.getTextContent();
         
-        const pageText = textContent.items
-          .map((item: any) => item.str)
+        let pageText = textContent.items
+          .map(item => ('str' in item ? item.str : ''))
           .join(' ');
         
-        fullText += pageText + '\n';
+        if (pageText.trim().length < APP_CONFIG.ocr.minPageTextLength) {
+          onProgress?.(`Running OCR on page ${pageNum} of ${pdf.numPages}...`);
+          const canvas = await PDFParser.renderPageToCanvas(page);
+          ocrEngine ??= (await import('./ocr/ocrEngine')).OCREngine;
+          const result = await ocrEngine.recognize(canvas, pageNum);
+          pageText = result.text;
+          ocrPages.push(pageNum);
+          ocrWords.push(...result.words);
+          pageConfidences.push(result.confidence);
+        } else {
+          layoutItems.push(...PDFParser.toLayoutItems(textContent.items, pageNum));
+        }
+        
+        pageTexts.push(pageText);
+        page.cleanup();
       }
       
+      const fullText = pageTexts.map(pageText => pageText + '\n').join('');
+      
       // Validate extracted content
       FileValidator.validateFileContent(fullText);
       
-      return fullText;
+      const reportDate = PDFParser.findReportDate(pageTexts.slice(0, DATE_SEARCH_PAGES).join('\n'))
+        ?? await PDFParser.getMetadataDate(pdf);
+      
+      return {
+        text: fullText,
+        reportDate,
+        // OCR'd pages have no positions, so mixed documents use pattern matching throughout
+        layoutItems: ocrPages.length > 0 ? [] : layoutItems,
+        ocr: ocrPages.length > 0
+          ? {
+              pages: ocrPages,
+              averageConfidence: Math.round(pageConfidences.reduce((sum, c) => sum + c, 0) / pageConfidences.length),
+              words: ocrWords
+            }
+          : null
+      };
     } catch (error) {
+      // Destroying the document rejects pending pdf.js calls; report the cancellation instead
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      if (error instanceof PDFPasswordError) {
+        throw error;
+      }
       console.error('Error parsing PDF:', error);
       if (error instanceof Error) {
         throw error;
       }
       throw new Error('Failed to parse PDF file');
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+      await ocrEngine?.terminate();
+      await Promise.all(loadingTasks.map(task => task.destroy()));
     }
   }
 
-  static async validatePDFFile(file: File): Promise<boolean> {
-    return FileValidator.validatePDFFile(file);
+  /**
+   * Passwords lab portals commonly derive from a date of birth (ISO), e.g. 15031980, 150380, 15MAR1980.
+   * Day-first formats are listed first as they are the most common.
+   */
+  static dateOfBirthPasswords(dateOfBirth: string): string[] {
+    const match = dateOfBirth.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return [];
+    const [, yyyy, mm, dd] = match;
+    const yy = yyyy.slice(2);
+    const mon = MONTH_ABBREVIATIONS[parseInt(mm, 10) - 1] ?? '';
+
+    return [...new Set([
+      `${dd}${mm}${yyyy}`, `${dd}${mm}${yy}`, `${dd}-${mm}-${yyyy}`, `${dd}/${mm}/${yyyy}`, `${dd}.${mm}.${yyyy}`,
+      `${mm}${dd}${yyyy}`, `${mm}${dd}${yy}`, `${mm}-${dd}-${yyyy}`, `${mm}/${dd}/${yyyy}`,
+      `${yyyy}${mm}${dd}`, `${yyyy}-${mm}-${dd}`,
+      `${dd}${mon}${yyyy}`, `${dd}${mon.toLowerCase()}${yyyy}`, `${dd}${mm}`, yyyy
+    ])];
   }
 
-  // Try to read a meaningful date from PDF metadata and content
-  static async extractReportDateFromPDF(file: File): Promise<string | null> {
-    try {
-      const arrayBuffer = await file.arrayBuffer();
-      const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-      
-      // First try to extract date from PDF content
-      const contentDate = await PDFParser.extractDateFromContent(pdf);
-      if (contentDate) {
-        console.log('Found date in PDF content:', contentDate);
-        return contentDate;
-      }
-      
-      // Fallback to metadata
+  /**
+   * Open the document, trying the typed password and then each candidate when it is encrypted.
+   * pdf.js hands the buffer to its worker, so every attempt gets its own copy.
+   */
+  private static async openDocument(
+    data: ArrayBuffer,
+    options: PDFParseOptions,
+    onTask: (task: PDFDocumentLoadingTask) => void
+  ): Promise<PDFDocumentProxy> {
+    const candidates = options.passwordCandidates ?? [];
+    const passwords: (string | undefined)[] = options.password
+      ? [options.password, ...candidates]
+      : [undefined, ...candidates];
+
+    for (const password of passwords) {
+      options.signal?.throwIfAborted();
+      const task = pdfjsLib.getDocument({ data: data.slice(0), password });
+      onTask(task);
       try {
-        // @ts-ignore - pdfjs types may not include getMetadata in some builds
-        const meta = await pdf.getMetadata?.();
-        const info = meta?.info || {};
-        const raw = info.CreationDate || info.ModDate || null;
-        if (!raw) return null;
-
-        // Common PDF date format: D:YYYYMMDDHHmmSS... or plain ISO
-        const parsed = PDFParser.parsePdfDate(raw);
-        if (parsed) {
-          console.log('Found date in PDF metadata:', parsed);
+        return await task.promise;
+      } catch (error) {
+        if (!(error instanceof Error && error.name === 'PasswordException')) {
+          throw error;
         }
-        return parsed;
-      } catch {
-        return null;
+        await task.destroy();
       }
-    } catch {
-      return null;
     }
+
+    throw new PDFPasswordError(options.password || candidates.length > 0 ? 'incorrect' : 'required');
+  }
+
+  // Keep the position of each text item so table rows and columns can be rebuilt
+  private static toLayoutItems(items: (TextItem | TextMarkedContent)[], page: number): LayoutTextItem[] {
+    return items
+      .filter((item): item is TextItem => 'str' in item && Array.isArray(item.transform))
+      .map(item => ({
+        str: item.str,
+        x: item.transform[4],
+        y: item.transform[5],
+        width: item.width ?? 0,
+        // Fall back to the font scale when pdfjs reports no height
+        height: item.height || Math.hypot(item.transform[2], item.transform[3]),
+        page
+      }));
   }
 
-  // Extract date from PDF content by searching for common date patterns
-  private static async extractDateFromContent(pdf: any): Promise<string | null> {
+  private static async renderPageToCanvas(page: PDFPageProxy): Promise<HTMLCanvasElement> {
+    const viewport = page.getViewport({ scale: APP_CONFIG.ocr.renderScale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not available for OCR');
+    }
+    await page.render({ canvasContext: context, viewport }).promise;
+    return canvas;
+  }
+
+  static async validatePDFFile(file: File): Promise<boolean> {
+    return FileValidator.validatePDFFile(file);
+  }
+
+  // Metadata dates are when the PDF was written, so they only stand in when the text has no date
+  private static async getMetadataDate(pdf: PDFDocumentProxy): Promise<string | null> {
     try {
-      let fullText = '';
-      
-      // Extract text from first few pages (usually contains report info)
-      const maxPages = Math.min(3, pdf.numPages);
-      for (let pageNum = 1; pageNum <= maxPages; pageNum++) {
-        const page = await pdf.getPage(pageNum);
-        const textContent = await page.getTextContent();
-        
-        const pageText = textContent.items
-          .map((item: any) => item.str)
-          .join(' ');
-        
-        fullText += pageText + '\n';
-      }
-      
-      // Look for common date patterns in medical reports
-      const datePatterns = [
-        // MM/DD/YYYY or MM-DD-YYYY
-        /(?:Report\s+Date|Date\s+of\s+Report|Date|Report\s+Date)[\s:]*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{4})/i,
-        // DD/MM/YYYY or DD-MM-YYYY
-        /(?:Report\s+Date|Date\s+of\s+Report|Date|Report\s+Date)[\s:]*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{4})/i,
-        // YYYY-MM-DD
-        /(?:Report\s+Date|Date\s+of\s+Report|Date|Report\s+Date)[\s:]*(\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2})/i,
-        // Month DD, YYYY
-        /(?:Report\s+Date|Date\s+of\s+Report|Date|Report\s+Date)[\s:]*([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
-        // DD Month YYYY
-        /(?:Report\s+Date|Date\s+of\s+Report|Date|Report\s+Date)[\s:]*(\d{1,2}\s+[A-Za-z]+\s+\d{4})/i,
-        // Just look for any date pattern near "Date" or "Report"
-        /(?:Date|Report)[\s:]*(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{4})/i,
-        /(?:Date|Report)[\s:]*(\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2})/i,
-        /(?:Date|Report)[\s:]*([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
-        /(?:Date|Report)[\s:]*(\d{1,2}\s+[A-Za-z]+\s+\d{4})/i
-      ];
-      
-      for (const pattern of datePatterns) {
-        const match = fullText.match(pattern);
-        if (match && match[1]) {
-          const dateStr = match[1].trim();
-          const parsedDate = PDFParser.parseDateString(dateStr);
-          if (parsedDate) {
-            return parsedDate;
-          }
-        }
-      }
-      
-      return null;
-    } catch (error) {
-      console.warn('Error extracting date from PDF content:', error);
+      const meta = await pdf.getMetadata();
+      const info = (meta?.info || {}) as { CreationDate?: string; ModDate?: string };
+      const raw = info.CreationDate || info.ModDate || null;
+      if (!raw) return null;
+
+      // Common PDF date format: D:YYYYMMDDHHmmSS... or plain ISO
+      return PDFParser.parsePdfDate(raw);
+    } catch {
       return null;
     }
   }
 
-  // Parse various date string formats
-  private static parseDateString(dateStr: string): string | null {
-    if (!dateStr) return null;
-    
-    try {
-      // Try different date parsing approaches
-      let date: Date | null = null;
-      
-      // Handle MM/DD/YYYY or MM-DD-YYYY
-      if (/\d{1,2}[\/\-]\d{1,2}[\/\-]\d{4}/.test(dateStr)) {
-        const parts = dateStr.split(/[\/\-]/);
-        if (parts.length === 3) {
-          const [month, day, year] = parts;
-          date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-        }
-      }
-      // Handle YYYY-MM-DD
-      else if (/\d{4}[\/\-]\d{1,2}[\/\-]\d{1,2}/.test(dateStr)) {
-        const parts = dateStr.split(/[\/\-]/);
-        if (parts.length === 3) {
-          const [year, month, day] = parts;
-          date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-        }
-      }
-      // Handle text dates like "January 15, 2024" or "15 January 2024"
-      else {
-        date = new Date(dateStr);
-      }
-      
-      if (date && !isNaN(date.getTime())) {
-        // Validate that the date is reasonable (not too far in past/future)
-        const now = new Date();
-        const yearDiff = Math.abs(date.getFullYear() - now.getFullYear());
-        if (yearDiff <= 10) { // Within 10 years
-          return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit' });
+  // Find the report date in the text of the first pages by searching for common date patterns
+  private static findReportDate(text: string): string | null {
+    const datePatterns = [
+      // DD/MM/YYYY or MM/DD/YYYY (order is resolved when parsing)
+      /(?:Report\s+Date|Date\s+of\s+Report|Date|Report\s+Date)[\s:]*(\d{1,2}[/-]\d{1,2}[/-]\d{4})/i,
+      // YYYY-MM-DD
+      /(?:Report\s+Date|Date\s+of\s+Report|Date|Report\s+Date)[\s:]*(\d{4}[/-]\d{1,2}[/-]\d{1,2})/i,
+      // Month DD, YYYY
+      /(?:Report\s+Date|Date\s+of\s+Report|Date|Report\s+Date)[\s:]*([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
+      // DD Month YYYY
+      /(?:Report\s+Date|Date\s+of\s+Report|Date|Report\s+Date)[\s:]*(\d{1,2}\s+[A-Za-z]+\s+\d{4})/i,
+      // Just look for any date pattern near "Date" or "Report"
+      /(?:Date|Report)[\s:]*(\d{1,2}[/-]\d{1,2}[/-]\d{4})/i,
+      /(?:Date|Report)[\s:]*(\d{4}[/-]\d{1,2}[/-]\d{1,2})/i,
+      /(?:Date|Report)[\s:]*([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i,
+      /(?:Date|Report)[\s:]*(\d{1,2}\s+[A-Za-z]+\s+\d{4})/i
+    ];
+
+    const documentOrder = DateParser.inferOrder(text);
+    for (const pattern of datePatterns) {
+      const match = text.match(pattern);
+      if (match && match[1]) {
+        const parsedDate = PDFParser.parseDateString(match[1].trim(), documentOrder);
+        if (parsedDate) {
+          return parsedDate;
         }
       }
-      
-      return null;
-    } catch (error) {
-      console.warn('Error parsing date string:', dateStr, error);
-      return null;
     }
+
+    return null;
+  }
+
+  // Report dates are returned as ISO (YYYY-MM-DD); DateParser resolves the day / month order
+  private static parseDateString(dateStr: string, documentOrder: DateOrder | null): string | null {
+    const parsed = DateParser.parse(dateStr, { documentOrder });
+    if (!parsed) return null;
+
+    // Validate that the date is reasonable (not too far in past/future)
+    const yearDiff = Math.abs(parseInt(parsed.iso.slice(0, 4), 10) - new Date().getFullYear());
+    return yearDiff <= 10 ? parsed.iso : null;
   }
 
   private static parsePdfDate(raw: string): string | null {
@@ -187,14 +288,13 @@ export class PDFParser {
     const m = s.slice(4, 6);
     const d = s.slice(6, 8);
     if (y && m && d) {
-      const iso = `${y}-${m}-${d}`;
-      const date = new Date(iso);
-      if (!isNaN(date.getTime())) return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit' });
+      const iso = DateParser.toISO(`${y}-${m}-${d}`);
+      if (iso) return iso;
     }
     // Fallback: try Date constructor directly
     const date = new Date(raw);
     if (!isNaN(date.getTime())) {
-      return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: '2-digit' });
+      return DateParser.formatISO(date);
     }
     return null;
   }
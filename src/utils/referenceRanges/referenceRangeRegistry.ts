@@ -0,0 +1,210 @@
+import {
+  PatientProfile,
+  PediatricAgeBand,
+  ReferencePopulation,
+  ReferenceRangeEntry,
+  ReferenceRangeUsage,
+  ThyroidTestName
+} from '../../types/medical';
+import {
+  LAB_REFERENCE_RANGES,
+  PEDIATRIC_AGE_BANDS,
+  POPULATION_REFERENCE_RANGES,
+  THYROID_REFERENCE_RANGES
+} from '../../constants/medical.constants';
+import { ADDITIONAL_PATTERNS } from '../regex/patterns';
+
+export interface ReferenceRangeContext {
+  labName?: string | null;
+  assay?: string | null;
+  population?: ReferencePopulation;
+  /** Range printed on the report; takes precedence over every registry entry */
+  reportRange?: { low: number; high: number } | null;
+}
+
+// Assay keywords found on reports, mapped to the platform keys used in LAB_REFERENCE_RANGES
+const ASSAY_ALIASES: Record<string, string> = {
+  eclia: 'roche_elecsys',
+  elecsys: 'roche_elecsys',
+  cobas: 'roche_elecsys',
+  cmia: 'abbott_architect',
+  architect: 'abbott_architect',
+  alinity: 'abbott_architect',
+  advia: 'siemens_centaur',
+  centaur: 'siemens_centaur',
+  atellica: 'siemens_centaur'
+};
+
+const POPULATION_LABELS: Record<ReferencePopulation, string> = {
+  adult: 'Adult',
+  pregnancy_t1: 'Pregnancy, 1st trimester',
+  pregnancy_t2: 'Pregnancy, 2nd trimester',
+  pregnancy_t3: 'Pregnancy, 3rd trimester',
+  pediatric_neonatal: 'Pediatric, neonatal',
+  pediatric_infant: 'Pediatric, infant',
+  pediatric_child: 'Pediatric, child',
+  pediatric_adolescent: 'Pediatric, adolescent'
+};
+
+/**
+ * Resolves the reference range for a test from, in order of precedence:
+ * the range printed on the report, a lab/assay entry for the patient's population,
+ * the population table, a lab/assay adult entry, and finally THYROID_REFERENCE_RANGES.
+ */
+export class ReferenceRangeRegistry {
+  private static entries: ReferenceRangeEntry[] = [...LAB_REFERENCE_RANGES];
+
+  static register(entry: ReferenceRangeEntry): void {
+    this.entries.push(entry);
+  }
+
+  static resolve(test: ThyroidTestName, context: ReferenceRangeContext = {}): ReferenceRangeUsage {
+    const units = THYROID_REFERENCE_RANGES[test].units;
+    const population = context.population ?? 'adult';
+
+    if (context.reportRange) {
+      return {
+        test,
+        low: context.reportRange.low,
+        high: context.reportRange.high,
+        units,
+        source: 'report',
+        description: 'Printed on report'
+      };
+    }
+
+    const populationEntry = this.findEntry(test, context, population);
+    if (populationEntry) {
+      return this.fromEntry(populationEntry, units);
+    }
+
+    if (population !== 'adult') {
+      const populationRange = POPULATION_REFERENCE_RANGES[population][test];
+      if (populationRange) {
+        return {
+          test,
+          low: populationRange.low,
+          high: populationRange.high,
+          units,
+          source: 'population',
+          description: POPULATION_LABELS[population]
+        };
+      }
+    }
+
+    const adultEntry = population !== 'adult' ? this.findEntry(test, context, 'adult') : null;
+    if (adultEntry) {
+      return this.fromEntry(adultEntry, units);
+    }
+
+    const defaults = THYROID_REFERENCE_RANGES[test];
+    return {
+      test,
+      low: defaults.low,
+      high: defaults.high,
+      units,
+      source: 'default',
+      description: 'Standard adult range'
+    };
+  }
+
+  /**
+   * Resolve using the lab, assay, printed ranges and population stored on a patient profile
+   */
+  static resolveForProfile(test: ThyroidTestName, profile: PatientProfile): ReferenceRangeUsage {
+    return this.resolve(test, {
+      labName: profile.labName,
+      assay: profile.assay,
+      population: this.getPopulation(profile),
+      reportRange: profile.reportReferenceRanges?.[test] ?? null
+    });
+  }
+
+  static getPopulation(
+    profile: Pick<PatientProfile, 'age' | 'ageMonths' | 'isPregnant' | 'trimester'>
+  ): ReferencePopulation {
+    if (profile.isPregnant) {
+      if (profile.trimester === 1) return 'pregnancy_t1';
+      if (profile.trimester === 2) return 'pregnancy_t2';
+      if (profile.trimester === 3) return 'pregnancy_t3';
+    }
+
+    const band = this.getPediatricAgeBand(profile);
+    return band ? `pediatric_${band}` : 'adult';
+  }
+
+  /**
+   * Pediatric age band, or null for adults and unknown age.
+   * Patients under one year are entered as age 0 with ageMonths.
+   */
+  static getPediatricAgeBand(profile: Pick<PatientProfile, 'age' | 'ageMonths'>): PediatricAgeBand | null {
+    let age = profile.age;
+    if (age === 0 && profile.ageMonths != null) {
+      age = profile.ageMonths / 12;
+    }
+
+    if (age == null || age < 0) return null;
+    if (age < PEDIATRIC_AGE_BANDS.neonatal) return 'neonatal';
+    if (age < PEDIATRIC_AGE_BANDS.infant) return 'infant';
+    if (age < PEDIATRIC_AGE_BANDS.child) return 'child';
+    if (age < PEDIATRIC_AGE_BANDS.adolescent) return 'adolescent';
+    return null;
+  }
+
+  static detectLabName(text: string): string | null {
+    const match = text.match(ADDITIONAL_PATTERNS.labName);
+    if (!match) return null;
+
+    // The pattern is greedy; keep the first few words of the name
+    const name = match[1].trim().split(/\s+/).slice(0, 5).join(' ');
+    return name.length > 1 ? name : null;
+  }
+
+  static detectAssay(text: string): string | null {
+    const match = text.match(ADDITIONAL_PATTERNS.assay);
+    return match ? this.normalizeAssay(match[1]) : null;
+  }
+
+  static normalizeAssay(assay: string): string {
+    const key = assay.trim().toLowerCase();
+    return ASSAY_ALIASES[key] ?? key;
+  }
+
+  private static findEntry(
+    test: ThyroidTestName,
+    context: ReferenceRangeContext,
+    population: ReferencePopulation
+  ): ReferenceRangeEntry | null {
+    const labName = context.labName ? context.labName.toLowerCase() : null;
+    const assay = context.assay ? this.normalizeAssay(context.assay) : null;
+
+    let best: ReferenceRangeEntry | null = null;
+    let bestScore = -1;
+
+    for (const entry of this.entries) {
+      if (entry.test !== test || (entry.population ?? 'adult') !== population) continue;
+      if (entry.labName && !(labName && labName.includes(entry.labName.toLowerCase()))) continue;
+      if (entry.assay && entry.assay !== assay) continue;
+
+      // Lab-specific entries beat assay-only entries
+      const score = (entry.labName ? 2 : 0) + (entry.assay ? 1 : 0);
+      if (score > bestScore) {
+        best = entry;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  private static fromEntry(entry: ReferenceRangeEntry, units: string): ReferenceRangeUsage {
+    return {
+      test: entry.test,
+      low: entry.low,
+      high: entry.high,
+      units,
+      source: entry.labName ? 'lab' : entry.assay ? 'assay' : 'population',
+      description: entry.description ?? entry.labName ?? entry.assay ?? POPULATION_LABELS[entry.population ?? 'adult']
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { LabReportTemplate } from '../../types/medical';
+
+// Known laboratory report formats. To support a new lab, add a template here
+// (or call LabTemplateRegistry.register) - the extractors read templates as data.
+export const LAB_REPORT_TEMPLATES: LabReportTemplate[] = [
+  {
+    // "Mrs JANE DOE (44Y/F)" header line
+    id: 'bracketed_age_gender',
+    description: 'Name with bracketed age/gender, e.g. "Mrs NAME (44Y/F)"',
+    fingerprint: {
+      textPatterns: [/(?:Mr|Mrs|Ms)\.?\s+[A-Z][a-zA-Z\s]+\s+\(\d{1,3}Y\/[MF]\)/i]
+    },
+    patient: {
+      nameAgeGender: /(?:Mr|Mrs|Ms)\.?\s+([A-Z][a-zA-Z\s]+)\s+\((\d{1,3})Y\/([MF])\)/i
+    }
+  },
+  {
+    // "Patient Name : JOHN DOE  Age/Sex : 44 Y / M  ...  Reported On : 14/10/2025"
+    id: 'age_sex_slash',
+    description: 'Labelled "Age/Sex : 44 Y / M" header with day-first dates',
+    fingerprint: {
+      textPatterns: [/Age\s*\/\s*(?:Sex|Gender)\s*:/i]
+    },
+    patient: {
+      name: /Patient(?:'s)?\s+Name\s*:?\s*(?:(?:Mr|Mrs|Ms|Miss)\.?\s+)?([A-Z][A-Za-z.\s]+?)\s+(?:Age|Sex|Gender|Ref|Sample|Reg|UHID)/i,
+      ageGender: /Age\s*\/\s*(?:Sex|Gender)\s*:?\s*(\d{1,3})\s*(?:Y|Yrs?|Years?)?\s*\/\s*(Male|Female|M|F)\b/i,
+      date: /(?:Reported\s+On|Report\s+Date|Reported)\s*:?\s*(\d{1,2}[/.-]\d{1,2}[/.-]\d{4})/i
+    },
+    dateFormat: 'DMY'
+  },
+  {
+    // "TSH 2.45 mIU/L 0.40-4.50" rows and "Collected: 10/14/2025"
+    id: 'us_reference_lab',
+    description: 'US reference laboratories (Quest, Labcorp): value before units, month-first dates',
+    fingerprint: {
+      labNames: ['Quest Diagnostics', 'Labcorp'],
+      textPatterns: [/\bQuest\s+Diagnostics\b/i, /\bLabcorp\b|Laboratory\s+Corporation\s+of\s+America/i]
+    },
+    patient: {
+      name: /Patient(?:\s+Name)?\s*:\s*([A-Z][A-Za-z,.'\s]+?)\s+(?:DOB|Age|Sex|Gender|Patient\s+ID)/i,
+      age: /Age\s*:?\s*(\d{1,3})/i,
+      gender: /(?:Sex|Gender)\s*:?\s*(Male|Female|M|F)\b/i,
+      date: /(?:Date\s+Collected|Collection\s+Date|Collected)\s*:?\s*(\d{1,2}\/\d{1,2}\/\d{4})/i
+    },
+    tests: {
+      TSH: {
+        pattern: /\b(TSH)\s+([0-9.]+)\s*(?:[HL]\s+)?(mIU\/L|[μµu]IU\/mL)\s+([0-9.]+)\s*[-–]\s*([0-9.]+)/i,
+        groups: { value: 2, units: 3, low: 4, high: 5 }
+      },
+      FT4: {
+        pattern: /\b(T4,?\s*Free|Free\s+T4)\s+([0-9.]+)\s*(?:[HL]\s+)?(ng\/dL|pmol\/L)\s+([0-9.]+)\s*[-–]\s*([0-9.]+)/i,
+        groups: { value: 2, units: 3, low: 4, high: 5 }
+      }
+    },
+    dateFormat: 'MDY'
+  }
+];
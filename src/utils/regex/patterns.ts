@@ -1,8 +1,6 @@
 // Patient information extraction patterns
+// Generic patterns; lab-specific formats (e.g. "Mr NAME (44Y/F)") live in labTemplates.ts
 export const PATIENT_PATTERNS = {
-  // Pattern: "Mr/Mrs/Ms NAME (44Y/F)"
-  nameAgeGender: /(?:Mr|Mrs|Ms)\.?\s+([A-Z][a-zA-Z\s]+)\s+\((\d{1,3})Y\/([MF])\)/i,
-  
   // Alternative name pattern
   nameOnly: /(?:Patient|Name)[\s:]+([A-Z][a-zA-Z\s]+)/i,
   
@@ -21,7 +19,7 @@ export const PATIENT_PATTERNS = {
 // Thyroid test extraction patterns
 export const THYROID_TEST_PATTERNS = {
   TSH: {
-    pattern: /(TSH[^\n]*?)\s+(μIU\/mL|mIU\/L)\s+([0-9.]+)\s*[-–]\s*([0-9.]+)\s+([0-9.]+)/i,
+    pattern: /(TSH[^\n]*?)\s+([μµu]IU\/mL|mIU\/L)\s+([0-9.]+)\s*[-–]\s*([0-9.]+)\s+([0-9.]+)/i,
     alternativePatterns: [
       /Thyroid[\s\-]Stimulating[\s\-]Hormone[\s:]*([0-9.]+)/i,
       /TSH[\s\-]Ultra[\s:]*([0-9.]+)/i
@@ -29,7 +27,7 @@ export const THYROID_TEST_PATTERNS = {
   },
   
   T3: {
-    pattern: /(T3[\s\-A-Z]*)[\s:]*([0-9.]+)[\s]*(ng\/dl|nmol\/L)?(?:.*?([0-9.]+)[\s]*[-–][\s]*([0-9.]+))?/i,
+    pattern: /(T3[\s\-A-Z]*)[\s:]*([0-9.]+)[\s]*(ng\/dl|nmol\/L|ng\/ml)?(?:.*?([0-9.]+)[\s]*[-–][\s]*([0-9.]+))?/i,
     alternativePatterns: [
       /Triiodothyronine[\s:]*([0-9.]+)/i,
       /Total[\s\-]T3[\s:]*([0-9.]+)/i
@@ -37,7 +35,7 @@ export const THYROID_TEST_PATTERNS = {
   },
   
   T4: {
-    pattern: /(T4[\s\-A-Z]*)[\s:]*([0-9.]+)[\s]*(μ?g\/dl|nmol\/L)?(?:.*?([0-9.]+)[\s]*[-–][\s]*([0-9.]+))?/i,
+    pattern: /(T4[\s\-A-Z]*)[\s:]*([0-9.]+)[\s]*([μµu]?g\/dl|nmol\/L|[μµu]g\/L)?(?:.*?([0-9.]+)[\s]*[-–][\s]*([0-9.]+))?/i,
     alternativePatterns: [
       /Thyroxine[\s:]*([0-9.]+)/i,
       /Total[\s\-]T4[\s:]*([0-9.]+)/i
@@ -45,25 +43,102 @@ export const THYROID_TEST_PATTERNS = {
   },
   
   FT3: {
-    pattern: /(FT3|Free[\s\-]T3)[\s\-A-Z]*[\s:]*([0-9.]+)[\s]*(pg\/ml|pmol\/L)?(?:.*?([0-9.]+)[\s]*[-–][\s]*([0-9.]+))?/i,
+    pattern: /(FT3|Free[\s\-]T3)[\s\-A-Z]*[\s:]*([0-9.]+)[\s]*(pg\/ml|pmol\/L|pg\/dl)?(?:.*?([0-9.]+)[\s]*[-–][\s]*([0-9.]+))?/i,
     alternativePatterns: [
       /Free[\s\-]Triiodothyronine[\s:]*([0-9.]+)/i
     ]
   },
   
   FT4: {
-    pattern: /(FT4|Free[\s\-]T4)[\s\-A-Z]*[\s:]*([0-9.]+)[\s]*(ng\/dl|pmol\/L)?(?:.*?([0-9.]+)[\s]*[-–][\s]*([0-9.]+))?/i,
+    pattern: /(FT4|Free[\s\-]T4)[\s\-A-Z]*[\s:]*([0-9.]+)[\s]*(ng\/dl|pmol\/L|ng\/L)?(?:.*?([0-9.]+)[\s]*[-–][\s]*([0-9.]+))?/i,
     alternativePatterns: [
       /Free[\s\-]Thyroxine[\s:]*([0-9.]+)/i
     ]
   }
 } as const;
 
+// Layout-aware table extraction: test names and cell contents of rebuilt table rows
+export const TABLE_ROW_PATTERNS = {
+  // Test name cells, checked in order so free hormones win over totals
+  testNames: [
+    ['FT3', /^(?:serum\s+)?(?:FT3|Free[\s-]?T3|Free[\s-]Triiodothyronine)\b(?!.*index)/i],
+    ['FT4', /^(?:serum\s+)?(?:FT4|Free[\s-]?T4|Free[\s-]Thyroxine)\b(?!.*index)/i],
+    ['T3', /^(?:serum\s+)?(?:Total[\s-])?(?:T3|Triiodothyronine)\b(?!.*(?:uptake|index))/i],
+    ['T4', /^(?:serum\s+)?(?:Total[\s-])?(?:T4|Thyroxine)\b(?!.*(?:uptake|index|binding))/i],
+    ['TSH', /^(?:serum\s+)?(?:TSH|Thyroid[\s-]Stimulating[\s-]Hormone)\b/i],
+    ['AntiTPO', /^(?:Anti[\s-]?TPO|Anti[\s-]Thyroid[\s-]Peroxidase|TPO[\s-]Ab)/i],
+    ['AntiTG', /^(?:Anti[\s-]?TG|Anti[\s-]Thyroglobulin|TG[\s-]Ab)/i]
+  ],
+
+  // Header cells that identify the table columns
+  header: {
+    name: /^(?:tests?|test\s+name|investigations?|parameters?|analytes?|examinations?|description)$/i,
+    result: /^(?:results?|values?|observed(?:\s+value)?|observations?|your\s+value)$/i,
+    unit: /^units?$/i,
+    range: /(?:reference|ref\.?|normal|biological|range|interval)/i
+  },
+
+  // Cell contents
+  number: /^[<>≤≥]?\s*(\d+(?:[.,]\d+)?)\s*[HLhl*]?$/,
+  range: /^(?:[<>≤≥]\s*\d+(?:\.\d+)?|\d+(?:\.\d+)?\s*[-–]\s*\d+(?:\.\d+)?)(?:\s*\S+)?$/,
+  rangeBounds: /(\d+(?:\.\d+)?)\s*[-–]\s*(\d+(?:\.\d+)?)/,
+  upperLimit: /^[<≤]\s*(\d+(?:\.\d+)?)/,
+  unit: /^(?:[μµu]IU\/m?L|mIU\/L|m?IU\/mL|kIU\/L|U\/mL|ng\/dL|ng\/mL|ng\/L|pg\/mL|pg\/dL|pmol\/L|nmol\/L|[μµu]g\/dL|[μµu]g\/L)$/i
+} as const;
+
+// Cumulative (trend) reports: one column or row of results per collection date
+const CUMULATIVE_DATE = String.raw`(?:\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[\s-](?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*[\s-]\d{2,4})`;
+const CUMULATIVE_VALUE = String.raw`[<>]?\d+(?:[.,]\d+)?(?:\s?[HL*])?`;
+
+export const CUMULATIVE_PATTERNS = {
+  // A table cell holding only a collection date
+  dateCell: new RegExp(`^${CUMULATIVE_DATE}$`, 'i'),
+  // Two or more dates in a row: the date header of a flattened trend table
+  dateRun: new RegExp(`${CUMULATIVE_DATE}(?:\\s+${CUMULATIVE_DATE})+`, 'gi'),
+  date: new RegExp(CUMULATIVE_DATE, 'gi'),
+  // Test names in flattened text, in TABLE_ROW_PATTERNS.testNames order
+  testNames: [
+    ['FT3', /\b(?:FT3|Free[\s-]?T3|Free[\s-]Triiodothyronine)\b/gi],
+    ['FT4', /\b(?:FT4|Free[\s-]?T4|Free[\s-]Thyroxine)\b/gi],
+    ['T3', /\b(?:Total[\s-])?(?:T3|Triiodothyronine)\b(?!\s*(?:uptake|index))/gi],
+    ['T4', /\b(?:Total[\s-])?(?:T4|Thyroxine)\b(?!\s*(?:uptake|index|binding))/gi],
+    ['TSH', /\b(?:TSH|Thyroid[\s-]Stimulating[\s-]Hormone)\b/gi],
+    ['AntiTPO', /\b(?:Anti[\s-]?TPO|Anti[\s-]Thyroid[\s-]Peroxidase|TPO[\s-]Ab)\b/gi],
+    ['AntiTG', /\b(?:Anti[\s-]?TG|Anti[\s-]Thyroglobulin|TG[\s-]Ab)\b/gi]
+  ],
+  /** Results that follow a test name: optional "(unit)", then exactly `count` values */
+  values: (count: number) => new RegExp(
+    String.raw`^\s*(?:\(([^)]{1,15})\))?[\s:]*((?:${CUMULATIVE_VALUE}\s+){${count - 1}}${CUMULATIVE_VALUE})(?![\d/.,-])` +
+    String.raw`(?:\s+([^\s\d]{2,10}))?(?:\s+(\d+(?:\.\d+)?\s*[-–]\s*\d+(?:\.\d+)?))?`,
+    'i'
+  ),
+  value: new RegExp(CUMULATIVE_VALUE, 'gi')
+} as const;
+
+// Thyroid medications mentioned in clinical notes ("On Thyronorm 50 mcg", "Tab Eltroxin 75")
+export const MEDICATION_PATTERNS = {
+  // Brand and generic names; generic names also appear as test names, so they need a prefix or a unit
+  names: [
+    ['Levothyroxine', /\b(?:Thyronorm|Eltroxin|Thyrox|Euthyrox|Eutirox|Synthroid|Levoxyl|Unithroid|Tirosint|Levothroid|Lethyrox|Oroxine|Letrox)\b/gi, 'brand'],
+    ['Levothyroxine', /\b(?:Levothyroxine(?:\s+sodium)?|L[\s-]?Thyroxine|LT4|Thyroxine)\b/gi, 'generic'],
+    ['Methimazole', /\b(?:Tapazole|Thyrozol|Northyx|Favistan|Metizol|Strumazol)\b/gi, 'brand'],
+    ['Methimazole', /\b(?:Methimazole|Thiamazole|MMI)\b/gi, 'generic']
+  ],
+  // Words before the name that mark a prescription rather than a test result
+  prefix: /(?:\b(?:on|tab|tabs|tablet|cap|rx|taking|takes|continue|cont|started)\.?|\bT\.)\s*$/i,
+  // Test result wording right before the name (e.g. "Free Thyroxine", "Total Thyroxine")
+  testPrefix: /\b(?:free|total|serum)\s*$/i,
+  // Strength after the name: "50 mcg", "50mcg", "0.05 mg", "10 mg/day", "75"
+  strength: /^\s*(?:sodium\s+)?[:(-]?\s*(\d+(?:\.\d+)?)\s*(mcg|[μµu]g|mg)?(?:\s*\/\s*day)?(?![\w/])/i,
+  // Doses per day written after the strength
+  frequency: /^\s*(?:tablets?\s*)?(OD|QD|once\s+(?:a\s+)?daily|daily|BD|BID|twice\s+(?:a\s+)?daily|TDS|TID|thrice\s+daily|three\s+times\s+(?:a\s+)?daily)\b/i
+} as const;
+
 // Additional medical patterns for future expansion
 export const ADDITIONAL_PATTERNS = {
-  // Antibody tests
-  antiTPO: /Anti[\s\-]TPO[\s:]*([0-9.]+)/i,
-  antiTG: /Anti[\s\-]TG[\s:]*([0-9.]+)/i,
+  // Antibody tests: value, units, upper reference limit ("< 34" or "0 - 34")
+  antiTPO: /(?:Anti[\s-]?TPO|Anti[\s-]Thyroid[\s-]Peroxidase|TPO[\s-]Ab)[^0-9<]*<?\s*([0-9.]+)\s*(IU\/mL|U\/mL|kIU\/L)?(?:\s*(?:<|0(?:\.0+)?\s*[-–])\s*([0-9.]+))?/i,
+  antiTG: /(?:Anti[\s-]?TG|Anti[\s-]Thyroglobulin|TG[\s-]Ab)[^0-9<]*<?\s*([0-9.]+)\s*(IU\/mL|U\/mL|kIU\/L)?(?:\s*(?:<|0(?:\.0+)?\s*[-–])\s*([0-9.]+))?/i,
   
   // Other hormones
   cortisol: /Cortisol[\s:]*([0-9.]+)/i,
@@ -71,5 +146,6 @@ export const ADDITIONAL_PATTERNS = {
   
   // Lab information
   labName: /(?:Laboratory|Lab)[\s:]*([A-Z][a-zA-Z\s&]+)/i,
+  assay: /\b(ECLIA|Elecsys|Cobas|CMIA|Architect|Alinity|ADVIA|Centaur|Atellica)\b/i,
   reportId: /(?:Report|ID|Reference)[\s#:]*([A-Z0-9\-]+)/i
 } as const;
\ No newline at end of file
@@ -0,0 +1,91 @@
+const DB_NAME = 'thyroid_app';
+const DB_VERSION = 3;
+
+/** Object stores of the app's IndexedDB database, keyed by `id` */
+export const LOCAL_STORES = {
+  outbox: 'outbox',
+  // Device copies of saved reports, profiles and patients (see LocalFirstStore)
+  medicalReports: 'medicalReports',
+  patientProfiles: 'patientProfiles',
+  patients: 'patients'
+} as const;
+
+export type LocalStoreName = typeof LOCAL_STORES[keyof typeof LOCAL_STORES];
+
+/**
+ * Promise wrapper around the app's IndexedDB database. Data kept here survives reloads
+ * and is not limited to the few MB localStorage allows.
+ */
+export class LocalDatabase {
+  private static connection: Promise<IDBDatabase> | null = null;
+
+  static async getAll<T>(store: LocalStoreName): Promise<T[]> {
+    return this.run<T[]>(store, 'readonly', objectStore => objectStore.getAll());
+  }
+
+  static async get<T>(store: LocalStoreName, id: string): Promise<T | null> {
+    const value = await this.run<T | undefined>(store, 'readonly', objectStore => objectStore.get(id));
+    return value ?? null;
+  }
+
+  static async put<T extends { id: string }>(store: LocalStoreName, value: T): Promise<void> {
+    await this.run(store, 'readwrite', objectStore => objectStore.put(value));
+  }
+
+  static async delete(store: LocalStoreName, id: string): Promise<void> {
+    await this.run(store, 'readwrite', objectStore => objectStore.delete(id));
+  }
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.connection) {
+      this.connection = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          Object.values(LOCAL_STORES).forEach(name => {
+            if (!db.objectStoreNames.contains(name)) {
+              db.createObjectStore(name, { keyPath: 'id' });
+            }
+          });
+        };
+        // Another tab still has the old version open and did not close it (see onversionchange below)
+        request.onblocked = () => reject(new Error('Failed to open local database: close the app\'s other tabs and reload'));
+        request.onsuccess = () => {
+          const db = request.result;
+          // Let a newer version opened in another tab upgrade; the next call here reopens
+          db.onversionchange = () => {
+            db.close();
+            this.connection = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => reject(request.error ?? new Error('Failed to open local database'));
+      }).catch(error => {
+        // Allow a later call to try again (e.g. after the user closes another tab blocking an upgrade)
+        this.connection = null;
+        throw error;
+      });
+    }
+    return this.connection;
+  }
+
+  // Run one request in its own transaction; resolves once the transaction has committed
+  private static async run<T>(
+    store: LocalStoreName,
+    mode: IDBTransactionMode,
+    makeRequest: (objectStore: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(store, mode);
+      const request = makeRequest(transaction.objectStore(store));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error ?? new Error(`Failed to access local ${store} store`));
+      transaction.onabort = () => reject(transaction.error ?? new Error(`Failed to access local ${store} store`));
+    });
+  }
+}
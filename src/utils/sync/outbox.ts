@@ -0,0 +1,360 @@
+import { DosageRecommendation, MedicalReport, Patient, PatientProfile } from '../../types/medical';
+import { getRepositories, StoredMedicalReport } from '../../services/repositories';
+import { APP_CONFIG } from '../../config/app.config';
+import { LOCAL_STORES, LocalDatabase } from '../storage/localDatabase';
+import { ReportSummaryPayload } from '../reportSync';
+
+/** A write to the repositories waiting in the outbox */
+export type OutboxOperation =
+  | {
+      type: 'saveReport';
+      /** Id the device copy was saved under; missing on items queued before the local database */
+      reportId?: string;
+      report: MedicalReport;
+      recommendation: DosageRecommendation | null;
+      patientProfile: PatientProfile | null;
+      /** Missing on items queued before patients were introduced */
+      patientId?: string | null;
+    }
+  | { type: 'saveSummary'; summary: ReportSummaryPayload }
+  // Updates are stored as plain data, so they must not hold Timestamps
+  | { type: 'updateReport'; reportId: string; updates: Partial<StoredMedicalReport> }
+  | { type: 'deleteReport'; reportId: string }
+  | { type: 'saveProfile'; profileId: string; profile: PatientProfile; patientId?: string | null }
+  | { type: 'savePatient'; patient: Patient }
+  // Give the account's reports and profiles saved before patients existed to this (default) patient
+  | { type: 'assignPatient'; patientId: string };
+
+export interface OutboxItem {
+  id: string;
+  /** Owner of the write, sent only while they are signed in; null on items queued signed out before owners were required */
+  userId: string | null;
+  operation: OutboxOperation;
+  /** failed: gave up after APP_CONFIG.sync.maxAttempts; kept until the user retries or discards it */
+  status: 'pending' | 'failed';
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+export interface OutboxCounts {
+  pending: number;
+  failed: number;
+}
+
+/** Fired on window whenever items are added, sent, retried or discarded */
+export const OUTBOX_CHANGED_EVENT = 'outboxChanged';
+
+// localStorage queues used before the outbox; imported once, then removed
+const LEGACY_SUMMARY_QUEUE_KEY = 'offline_report_queue_v1';
+const LEGACY_REPORT_QUEUE_KEY = 'medical_report_queue_v1';
+
+/**
+ * Durable outbox for repository writes (see APP_CONFIG.storage). Items are kept in IndexedDB so the UI never waits on
+ * the network, sent oldest first, and retried with exponential backoff; items that keep
+ * failing are set aside as failed rather than dropped.
+ */
+export class Outbox {
+  private static processing: Promise<number> | null = null;
+  private static started = false;
+  private static userId: string | null = null;
+
+  /** The signed-in user (kept up to date by useAuth); only their items are sent. Sends what is due on sign-in. */
+  static setUserId(userId: string | null): void {
+    const signedIn = userId !== null && userId !== this.userId;
+    this.userId = userId;
+    if (signedIn && this.started) void this.process();
+  }
+
+  /** Queue a write; it is sent only while its owner (userId) is signed in */
+  static async enqueue(userId: string, operation: OutboxOperation): Promise<OutboxItem> {
+    const now = Date.now();
+    const item: OutboxItem = {
+      id: `out_${now}_${Math.random().toString(36).slice(2, 9)}`,
+      userId,
+      operation,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      nextAttemptAt: now,
+      lastError: null
+    };
+    await LocalDatabase.put(LOCAL_STORES.outbox, item);
+    this.notifyChanged();
+    return item;
+  }
+
+  static async getItems(): Promise<OutboxItem[]> {
+    const items = await LocalDatabase.getAll<OutboxItem>(LOCAL_STORES.outbox);
+    return items.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  static async getCounts(): Promise<OutboxCounts> {
+    const items = await this.getItems();
+    return {
+      pending: items.filter(item => item.status === 'pending').length,
+      failed: items.filter(item => item.status === 'failed').length
+    };
+  }
+
+  /** Ids of reports and profiles with a write still in the outbox (pending or failed) */
+  static async getQueuedDocumentIds(): Promise<Set<string>> {
+    const items = await this.getItems();
+    return new Set(items.flatMap(({ operation }) => {
+      const documentId = this.getDocumentId(operation);
+      return documentId ? [documentId] : [];
+    }));
+  }
+
+  /**
+   * Send every item that is due. Concurrent calls share one run.
+   * Returns the number of items sent.
+   */
+  static process(): Promise<number> {
+    if (!this.processing) {
+      this.processing = this.processDue().finally(() => {
+        this.processing = null;
+      });
+    }
+    return this.processing;
+  }
+
+  /** Process once the UI has rendered (e.g. straight after a calculation) */
+  static processAfterDelay(delayMs: number = 1000): void {
+    setTimeout(() => {
+      void this.process();
+    }, delayMs);
+  }
+
+  /** Move failed items back to pending and send them now */
+  static async retryFailed(): Promise<void> {
+    const failed = (await this.getItems()).filter(item => item.status === 'failed');
+    const now = Date.now();
+    for (const item of failed) {
+      await LocalDatabase.put(LOCAL_STORES.outbox, { ...item, status: 'pending', attempts: 0, nextAttemptAt: now });
+    }
+    this.notifyChanged();
+    await this.process();
+  }
+
+  /** Drop every item queued by the user, pending or failed (account deletion) */
+  static async discardForUser(userId: string): Promise<void> {
+    const items = (await this.getItems()).filter(item => item.userId === userId);
+    for (const item of items) {
+      await LocalDatabase.delete(LOCAL_STORES.outbox, item.id);
+    }
+    this.notifyChanged();
+  }
+
+  static async discardFailed(): Promise<void> {
+    const failed = (await this.getItems()).filter(item => item.status === 'failed');
+    for (const item of failed) {
+      await LocalDatabase.delete(LOCAL_STORES.outbox, item.id);
+    }
+    this.notifyChanged();
+  }
+
+  /**
+   * Import the old localStorage queues, then process now, when the browser comes back
+   * online, and every APP_CONFIG.sync.pollInterval. Safe to call more than once.
+   */
+  static start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+
+    void this.importLegacyQueues()
+      .catch(error => console.warn('Failed to import queued reports:', error))
+      .then(() => this.process());
+
+    const handleOnline = () => void this.process();
+    window.addEventListener('online', handleOnline);
+    const interval = setInterval(() => void this.process(), APP_CONFIG.sync.pollInterval);
+    window.addEventListener('beforeunload', () => {
+      clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+    });
+  }
+
+  private static async processDue(): Promise<number> {
+    const userId = this.userId;
+    if (!userId || (typeof navigator !== 'undefined' && !navigator.onLine)) return 0;
+
+    let items: OutboxItem[];
+    try {
+      items = await this.getItems();
+    } catch (error) {
+      console.warn('Failed to read outbox:', error);
+      return 0;
+    }
+    const now = Date.now();
+    // Without an owner there is no telling which account the write belongs to; set aside for the user to discard
+    const ownerless = items.filter(item => item.status === 'pending' && !item.userId);
+    for (const item of ownerless) {
+      await LocalDatabase.put(LOCAL_STORES.outbox, {
+        ...item,
+        status: 'failed',
+        lastError: 'Queued while signed out; the account it belongs to is unknown'
+      });
+    }
+    if (ownerless.length > 0) this.notifyChanged();
+
+    // Items queued by another account on this device wait for that account to sign in
+    const isDue = (item: OutboxItem) =>
+      item.status === 'pending' && item.nextAttemptAt <= now && item.userId === userId;
+    if (!items.some(isDue)) return 0;
+
+    // Writes to one document go out in the order they were made, so an item waits while an
+    // earlier write to the same document is still pending, failed or fails in this run
+    const blockedDocumentIds = new Set<string>();
+    let sentCount = 0;
+    let savedReports = 0;
+    for (const item of items) {
+      const documentId = this.getDocumentId(item.operation);
+      if (!isDue(item) || (documentId && blockedDocumentIds.has(documentId))) {
+        if (documentId) blockedDocumentIds.add(documentId);
+        continue;
+      }
+      try {
+        await this.send(userId, item.operation);
+        await LocalDatabase.delete(LOCAL_STORES.outbox, item.id);
+        sentCount++;
+        // Moving reports to a patient changes the patient's list like new reports do
+        if (item.operation.type === 'saveReport' || item.operation.type === 'assignPatient') savedReports++;
+      } catch (error) {
+        console.error(`Failed to send outbox item ${item.id}:`, error);
+        await LocalDatabase.put(LOCAL_STORES.outbox, this.afterFailure(item, error));
+        if (documentId) blockedDocumentIds.add(documentId);
+      }
+      // Small delay between writes to avoid rate limiting
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    this.notifyChanged();
+    if (savedReports > 0 && typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('medicalReportsSaved', { detail: { count: savedReports } }));
+    }
+    return sentCount;
+  }
+
+  private static async send(userId: string, operation: OutboxOperation): Promise<void> {
+    const { reports, profiles, patients } = getRepositories();
+    switch (operation.type) {
+      case 'saveReport':
+        await reports.saveMedicalReport(
+          userId,
+          operation.report,
+          operation.recommendation,
+          operation.patientProfile ?? undefined,
+          operation.reportId,
+          operation.patientId
+        );
+        return;
+      case 'saveSummary':
+        await reports.saveReportSummary(userId, operation.summary);
+        return;
+      case 'updateReport':
+        await reports.updateMedicalReport(operation.reportId, operation.updates);
+        return;
+      case 'deleteReport':
+        await reports.deleteMedicalReport(operation.reportId);
+        return;
+      case 'saveProfile':
+        await profiles.savePatientProfile(userId, operation.profile, operation.profileId, operation.patientId);
+        return;
+      case 'savePatient':
+        await patients.savePatient(userId, operation.patient);
+        return;
+      case 'assignPatient':
+        await reports.assignToPatient(userId, operation.patientId);
+        await profiles.assignToPatient(userId, operation.patientId);
+        return;
+    }
+  }
+
+  // The report, profile or patient an operation writes; null for writes not tied to one document
+  private static getDocumentId(operation: OutboxOperation): string | null {
+    switch (operation.type) {
+      case 'saveReport':
+        return operation.reportId ?? null;
+      case 'updateReport':
+      case 'deleteReport':
+        return operation.reportId;
+      case 'saveProfile':
+        return operation.profileId;
+      case 'savePatient':
+        return operation.patient.id;
+      default:
+        return null;
+    }
+  }
+
+  // Next attempt after retryBaseDelay * 2^(attempts - 1), capped; failed once maxAttempts is reached
+  private static afterFailure(item: OutboxItem, error: unknown): OutboxItem {
+    const { retryBaseDelay, retryMaxDelay, maxAttempts } = APP_CONFIG.sync;
+    const attempts = item.attempts + 1;
+    const delay = Math.min(retryBaseDelay * 2 ** (attempts - 1), retryMaxDelay);
+    return {
+      ...item,
+      attempts,
+      status: attempts >= maxAttempts ? 'failed' : 'pending',
+      nextAttemptAt: Date.now() + delay,
+      lastError: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  private static async importLegacyQueues(): Promise<void> {
+    const read = <T>(key: string): T[] => {
+      try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) : [];
+      } catch {
+        return [];
+      }
+    };
+    const summaries = read<ReportSummaryPayload & { id: string; userId: string | null }>(LEGACY_SUMMARY_QUEUE_KEY);
+    const reports = read<{
+      id: string;
+      userId: string | null;
+      timestamp: number;
+      report: MedicalReport;
+      recommendation: DosageRecommendation | null;
+      patientProfile: PatientProfile | null;
+    }>(LEGACY_REPORT_QUEUE_KEY);
+    if (summaries.length === 0 && reports.length === 0) return;
+
+    const legacyItem = (id: string, userId: string | null, createdAt: number, operation: OutboxOperation): OutboxItem => ({
+      id,
+      userId,
+      operation,
+      status: 'pending',
+      attempts: 0,
+      createdAt,
+      nextAttemptAt: Date.now(),
+      lastError: null
+    });
+
+    for (const { id, userId, ...summary } of summaries) {
+      const createdAt = Date.parse(summary.generatedAt) || Date.now();
+      await LocalDatabase.put(LOCAL_STORES.outbox, legacyItem(id, userId, createdAt, { type: 'saveSummary', summary }));
+    }
+    for (const { id, userId, timestamp, report, recommendation, patientProfile } of reports) {
+      await LocalDatabase.put(LOCAL_STORES.outbox, legacyItem(id, userId, timestamp, {
+        type: 'saveReport',
+        report,
+        recommendation,
+        patientProfile
+      }));
+    }
+
+    localStorage.removeItem(LEGACY_SUMMARY_QUEUE_KEY);
+    localStorage.removeItem(LEGACY_REPORT_QUEUE_KEY);
+    this.notifyChanged();
+  }
+
+  private static notifyChanged(): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(OUTBOX_CHANGED_EVENT));
+    }
+  }
+}
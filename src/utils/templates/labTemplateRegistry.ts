@@ -0,0 +1,45 @@
+import { LabReportTemplate } from '../../types/medical';
+import { LAB_REPORT_TEMPLATES } from '../regex/labTemplates';
+
+/**
+ * Chooses the lab report template whose fingerprint best matches a report.
+ * Lab name matches count double; ties go to the template registered first.
+ * Returns null when nothing matches, so the generic patterns are used.
+ */
+export class LabTemplateRegistry {
+  private static templates: LabReportTemplate[] = [...LAB_REPORT_TEMPLATES];
+
+  // Registering a template with an existing id replaces it
+  static register(template: LabReportTemplate): void {
+    this.templates = [...this.templates.filter(existing => existing.id !== template.id), template];
+  }
+
+  static getTemplates(): readonly LabReportTemplate[] {
+    return this.templates;
+  }
+
+  static getById(id: string | null | undefined): LabReportTemplate | null {
+    return (id && this.templates.find(template => template.id === id)) || null;
+  }
+
+  static detect(text: string, labName?: string | null): LabReportTemplate | null {
+    const lab = labName ? labName.toLowerCase() : null;
+
+    let best: LabReportTemplate | null = null;
+    let bestScore = 0;
+
+    for (const template of this.templates) {
+      const { labNames = [], textPatterns = [] } = template.fingerprint;
+      const labScore = lab ? labNames.filter(name => lab.includes(name.toLowerCase())).length * 2 : 0;
+      const textScore = textPatterns.filter(pattern => pattern.test(text)).length;
+      const score = labScore + textScore;
+
+      if (score > bestScore) {
+        best = template;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+}
@@ -1,11 +1,20 @@
-import { ThyroidTests, DosageRecommendation } from '../types/medical';
+import { ThyroidTests, DosageRecommendation, ReferenceRangeUsage, TestResult, ThyroidTestName } from '../types/medical';
 import { DosageCalculator } from './calculators/dosageCalculator';
 import { ConditionAnalyzer } from './analyzers/conditionAnalyzer';
+import { ThyroidPatternClassifier } from './analyzers/thyroidPatternClassifier';
 import { APP_CONFIG } from '../config/app.config';
-import { THYROID_REFERENCE_RANGES } from '../constants/medical.constants';
+import { ReferenceRangeContext, ReferenceRangeRegistry } from './referenceRanges/referenceRangeRegistry';
 
 export class ThyroidDosagePredictor {
-  static predictDosage(tests: ThyroidTests, age: number | null, weight?: number): DosageRecommendation | null {
+  /**
+   * @param rangeContext lab / assay of the report; ranges printed on the report always take precedence
+   */
+  static predictDosage(
+    tests: ThyroidTests,
+    age: number | null,
+    weight?: number,
+    rangeContext: ReferenceRangeContext = {}
+  ): DosageRecommendation | null {
     const tsh = tests.TSH;
     const ft4 = tests.FT4 || tests.T4;
     
@@ -13,12 +22,60 @@ export class ThyroidDosagePredictor {
       return null;
     }
 
+    const context: ReferenceRangeContext = {
+      population: ReferenceRangeRegistry.getPopulation({ age, isPregnant: false }),
+      ...rangeContext
+    };
+    const tshRef = this.resolveRange('TSH', tsh, context);
+    const referenceRangesUsed: ReferenceRangeUsage[] = [tshRef];
+
     // Default weight if not provided (average adult weight)
     const patientWeight = weight || APP_CONFIG.medical.defaultWeight;
 
+    // FT4/FT3 patterns where TSH-based dosing does not apply
+    const pattern = ThyroidPatternClassifier.classify(tests, context);
+    if (pattern?.pattern === 'central_hypothyroidism') {
+      const central = DosageCalculator.calculateCentralHypothyroidDosage(
+        tsh.value,
+        tests.FT4?.value,
+        tests.T4?.value,
+        age,
+        weight,
+        {
+          labName: context.labName,
+          assay: context.assay,
+          reportReferenceRanges: {
+            ...(tests.FT4?.refRangeSource === 'report' && tests.FT4.refRange && { FT4: tests.FT4.refRange }),
+            ...(tests.T4?.refRangeSource === 'report' && tests.T4.refRange && { T4: tests.T4.refRange })
+          }
+        }
+      );
+      return {
+        ...central,
+        reasoning: `${pattern.label}: ${pattern.explanation} ${central.reasoning}`,
+        thyroidPattern: pattern.pattern
+      };
+    }
+    if (pattern) {
+      return {
+        medication: 'Specialist evaluation required',
+        dosage: 0,
+        unit: '',
+        frequency: '',
+        reasoning: `${pattern.label}: ${pattern.explanation} ${pattern.recommendations.join('. ')}.`,
+        severity: 'mild',
+        followUpWeeks: 4,
+        referenceRangesUsed,
+        thyroidPattern: pattern.pattern
+      };
+    }
+
     // Hypothyroidism detection and dosage calculation
-    if (tsh.value > 4.5) {
-      return DosageCalculator.calculateHypothyroidDosage(tsh.value, ft4?.value, patientWeight, age);
+    if (tsh.value > tshRef.high) {
+      return {
+        ...DosageCalculator.calculateHypothyroidDosage(tsh.value, ft4?.value, patientWeight, age),
+        referenceRangesUsed
+      };
     }
     
     // Hyperthyroidism detection - check TSH <= 0.1 first
@@ -26,35 +83,41 @@ export class ThyroidDosagePredictor {
       const ft3 = tests.FT3;
       const t4 = tests.T4;
       const t3 = tests.T3;
-      return DosageCalculator.calculateHyperthyroidTreatment(
-        tsh.value, 
-        ft4?.value,
-        ft3?.value,
-        t4?.value,
-        t3?.value,
-        age,
-        weight
-      );
+      return {
+        ...DosageCalculator.calculateHyperthyroidTreatment(
+          tsh.value, 
+          ft4?.value,
+          ft3?.value,
+          t4?.value,
+          t3?.value,
+          age,
+          weight
+        ),
+        referenceRangesUsed
+      };
     }
     
-    // TSH 0.1-0.4: Mild hyperthyroidism (still check)
-    if (tsh.value < 0.4) {
+    // TSH between 0.1 and the lower reference limit: Mild hyperthyroidism (still check)
+    if (tsh.value < tshRef.low) {
       const ft3 = tests.FT3;
       const t4 = tests.T4;
       const t3 = tests.T3;
-      return DosageCalculator.calculateHyperthyroidTreatment(
-        tsh.value, 
-        ft4?.value,
-        ft3?.value,
-        t4?.value,
-        t3?.value,
-        age,
-        weight
-      );
+      return {
+        ...DosageCalculator.calculateHyperthyroidTreatment(
+          tsh.value, 
+          ft4?.value,
+          ft3?.value,
+          t4?.value,
+          t3?.value,
+          age,
+          weight
+        ),
+        referenceRangesUsed
+      };
     }
 
-    // TSH 0.4-4.5: Normal range - check if hormones are normal
-    if (tsh.value >= 0.4 && tsh.value <= 4.5) {
+    // TSH within the reference range - check if hormones are normal
+    if (tsh.value >= tshRef.low && tsh.value <= tshRef.high) {
       const ft3 = tests.FT3;
       const t4 = tests.T4;
       const t3 = tests.T3;
@@ -64,19 +127,20 @@ export class ThyroidDosagePredictor {
       const hasTotalHormones = t4 && t3;
       
       if (hasFreeHormones || hasTotalHormones) {
-        const ft4Ref = THYROID_REFERENCE_RANGES.FT4;
-        const ft3Ref = THYROID_REFERENCE_RANGES.FT3;
-        const t4Ref = THYROID_REFERENCE_RANGES.T4;
-        const t3Ref = THYROID_REFERENCE_RANGES.T3;
-        
         let hormonesNormal = true;
         
         if (hasFreeHormones) {
+          const ft4Ref = this.resolveRange('FT4', ft4, context);
+          const ft3Ref = this.resolveRange('FT3', ft3, context);
+          referenceRangesUsed.push(ft4Ref, ft3Ref);
           const ft4Val = ft4.value;
           const ft3Val = ft3.value;
           hormonesNormal = (ft4Val >= ft4Ref.low && ft4Val <= ft4Ref.high) && 
                           (ft3Val >= ft3Ref.low && ft3Val <= ft3Ref.high);
         } else if (hasTotalHormones) {
+          const t4Ref = this.resolveRange('T4', t4, context);
+          const t3Ref = this.resolveRange('T3', t3, context);
+          referenceRangesUsed.push(t4Ref, t3Ref);
           const t4Val = t4.value;
           const t3Val = t3.value;
           hormonesNormal = (t4Val >= t4Ref.low && t4Val <= t4Ref.high) && 
@@ -91,7 +155,8 @@ export class ThyroidDosagePredictor {
             frequency: '',
             reasoning: `TSH (${tsh.value} mIU/L) and hormone levels are within normal range. No treatment required.`,
             severity: 'mild',
-            followUpWeeks: 12
+            followUpWeeks: 12,
+            referenceRangesUsed
           };
         }
       }
@@ -104,7 +169,8 @@ export class ThyroidDosagePredictor {
         frequency: '',
         reasoning: `TSH (${tsh.value} mIU/L) is within normal range. Continue monitoring.`,
         severity: 'mild',
-        followUpWeeks: 12
+        followUpWeeks: 12,
+        referenceRangesUsed
       };
     }
 
@@ -120,11 +186,19 @@ export class ThyroidDosagePredictor {
     };
   }
 
-  static getThyroidCondition(tests: ThyroidTests): string {
-    return ConditionAnalyzer.getThyroidCondition(tests);
+  static getThyroidCondition(tests: ThyroidTests, rangeContext?: ReferenceRangeContext): string {
+    return ConditionAnalyzer.getThyroidCondition(tests, rangeContext);
+  }
+
+  static getDetailedAnalysis(tests: ThyroidTests, rangeContext?: ReferenceRangeContext) {
+    return ConditionAnalyzer.getDetailedAnalysis(tests, rangeContext);
   }
 
-  static getDetailedAnalysis(tests: ThyroidTests) {
-    return ConditionAnalyzer.getDetailedAnalysis(tests);
+  // A range printed on the report beats the registry
+  private static resolveRange(key: ThyroidTestName, test: TestResult, context: ReferenceRangeContext): ReferenceRangeUsage {
+    return ReferenceRangeRegistry.resolve(key, {
+      ...context,
+      reportRange: test.refRangeSource === 'report' ? test.refRange : null
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { AntibodyTestName, FieldExtraction, TestResult, ThyroidTestName } from '../../types/medical';
+import { EXTRACTION_CONFIDENCE } from '../../constants/medical.constants';
+import { UnitConverter } from '../converters/unitConverter';
+
+export class ExtractionValidator {
+  /**
+   * Score an extracted test result: base confidence for the extraction method,
+   * lowered by each plausibility check the value fails
+   */
+  static scoreTest(
+    testKey: ThyroidTestName | AntibodyTestName,
+    test: TestResult,
+    method: FieldExtraction['method'],
+    snippet: string | null
+  ): FieldExtraction {
+    const { base, penalties, plausibleRanges } = EXTRACTION_CONFIDENCE;
+    const issues: string[] = [];
+    let confidence: number = base[method];
+
+    // A bound picked up as the result is the most common column mix-up
+    const range = test.refRange;
+    if (range && test.refRangeSource === 'report' &&
+        (test.value === range.high || (range.low > 0 && test.value === range.low))) {
+      confidence -= penalties.matchesRangeBound;
+      issues.push('Result equals a reference-range bound - the range may have been read as the result');
+    }
+
+    const plausible = plausibleRanges[testKey];
+    if (test.value < plausible.min || test.value > plausible.max) {
+      confidence -= penalties.implausible;
+      issues.push(`Value is outside the plausible range for ${testKey} (${plausible.min}-${plausible.max}${test.units ? ` ${test.units}` : ''})`);
+    }
+
+    const isAntibody = testKey === 'AntiTPO' || testKey === 'AntiTG';
+    if (!isAntibody && test.originalUnits && UnitConverter.getConversionFactor(testKey, test.originalUnits) === null) {
+      confidence -= penalties.unknownUnits;
+      issues.push(`Units "${test.originalUnits}" not recognised - value was not converted`);
+    }
+
+    if (test.unitsInferred) {
+      confidence -= penalties.unitsInferred;
+      issues.push('Units were not printed and were inferred from the value');
+    }
+
+    if (test.refRangeSource === 'default') {
+      confidence -= penalties.defaultRange;
+      issues.push('No reference range found on the report');
+    }
+
+    return {
+      confidence: Math.round(Math.max(0, confidence) * 100) / 100,
+      snippet: snippet ? snippet.replace(/\s+/g, ' ').trim().slice(0, 160) : null,
+      method,
+      issues
+    };
+  }
+
+  static isLowConfidence(extraction?: FieldExtraction | null): boolean {
+    return extraction != null && extraction.confidence < EXTRACTION_CONFIDENCE.lowThreshold;
+  }
+}
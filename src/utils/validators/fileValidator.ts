@@ -1,41 +1,73 @@
 import { APP_CONFIG } from '../../config/app.config';
 
 export class FileValidator {
+  static isImageFile(file: File): boolean {
+    const imageTypes: readonly string[] = APP_CONFIG.upload.imageTypes;
+    const imageExtensions: readonly string[] = APP_CONFIG.upload.imageExtensions;
+    return imageTypes.includes(file.type) || imageExtensions.includes(FileValidator.getExtension(file));
+  }
+
+  static isHeicFile(file: File): boolean {
+    return /image\/hei[cf]/.test(file.type) || /\.hei[cf]$/.test(FileValidator.getExtension(file));
+  }
+
+  static async validateUploadFile(file: File): Promise<boolean> {
+    return FileValidator.isImageFile(file)
+      ? FileValidator.validateImageFile(file)
+      : FileValidator.validatePDFFile(file);
+  }
+
   static async validatePDFFile(file: File): Promise<boolean> {
     // Check file type
-    if (!APP_CONFIG.upload.allowedTypes.includes(file.type)) {
+    if (file.type !== 'application/pdf') {
       throw new Error('Please upload a valid PDF file');
     }
     
     // Check file extension
-    const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
-    if (!APP_CONFIG.upload.allowedExtensions.includes(fileExtension)) {
+    if (FileValidator.getExtension(file) !== '.pdf') {
       throw new Error('File must have a .pdf extension');
     }
     
-    // Check file size
-    if (file.size > APP_CONFIG.upload.maxFileSize) {
-      const maxSizeMB = APP_CONFIG.upload.maxFileSize / (1024 * 1024);
-      throw new Error(`File size must be less than ${maxSizeMB}MB`);
-    }
-    
-    // Check if file is empty
-    if (file.size === 0) {
-      throw new Error('File appears to be empty');
+    FileValidator.validateFileSize(file);
+    return true;
+  }
+
+  static async validateImageFile(file: File): Promise<boolean> {
+    // HEIC photos often arrive without a MIME type, so the extension decides
+    if (!FileValidator.isImageFile(file)) {
+      throw new Error('Please upload a JPG, PNG or HEIC image');
     }
     
+    FileValidator.validateFileSize(file);
     return true;
   }
 
   static validateFileContent(content: string): boolean {
     if (!content || content.trim().length === 0) {
-      throw new Error('PDF appears to be empty or contains no readable text');
+      throw new Error('Report appears to be empty or contains no readable text');
     }
     
     if (content.length < 50) {
-      throw new Error('PDF contains insufficient text for analysis');
+      throw new Error('Report contains insufficient text for analysis');
     }
     
     return true;
   }
-}
\ No newline at end of file
+
+  private static validateFileSize(file: File): void {
+    // Check file size
+    if (file.size > APP_CONFIG.upload.maxFileSize) {
+      const maxSizeMB = APP_CONFIG.upload.maxFileSize / (1024 * 1024);
+      throw new Error(`File size must be less than ${maxSizeMB}MB`);
+    }
+    
+    // Check if file is empty
+    if (file.size === 0) {
+      throw new Error('File appears to be empty');
+    }
+  }
+
+  private static getExtension(file: File): string {
+    return '.' + (file.name.split('.').pop()?.toLowerCase() ?? '');
+  }
+}
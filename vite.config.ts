@@ -10,6 +10,10 @@ export default defineConfig({
   build: {
     rollupOptions: {
       output: {
+        // OCR language data is requested by file name from inside the Tesseract worker
+        assetFileNames: (assetInfo) => assetInfo.name?.endsWith('.traineddata.gz')
+          ? 'assets/tessdata/[name][extname]'
+          : 'assets/[name]-[hash][extname]',
         manualChunks: (id) => {
           // Vendor chunks - split large third-party libraries
           if (id.includes('node_modules')) {
@@ -25,6 +29,10 @@ export default defineConfig({
             if (id.includes('pdfjs-dist') || id.includes('pdf-parse')) {
               return 'pdf-vendor';
             }
+            // OCR engine (loaded on demand for scanned PDFs and report photos)
+            if (id.includes('tesseract')) {
+              return 'ocr-vendor';
+            }
             // Canvas/Image libraries
             if (id.includes('html2canvas') || id.includes('jspdf')) {
               return 'canvas-vendor';